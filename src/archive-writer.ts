@@ -0,0 +1,181 @@
+import * as zlib from 'zlib';
+import { ArchiveEntry, ArchiveFormat } from './types';
+import {
+    TAR_BLOCK_SIZE,
+    TAR_FILE_MODE,
+    ZIP_DEFLATE_METHOD,
+    ZIP_UTF8_FLAG,
+    ZIP_VERSION
+} from './constants';
+
+/**
+ * Builds zip, tar and gzipped tar archives in memory from a list of files
+ */
+export class ArchiveWriter {
+
+    /**
+     * Packs the entries into an archive of the given format
+     */
+    static create(entries: readonly ArchiveEntry[], format: ArchiveFormat): Buffer {
+        switch (format) {
+            case 'zip':
+                return this.createZip(entries);
+            case 'tar':
+                return this.createTar(entries);
+            case 'tar.gz':
+                return zlib.gzipSync(this.createTar(entries));
+        }
+    }
+
+    /**
+     * Picks the archive format from a file name, defaulting to zip
+     */
+    static getFormatFromPath(filePath: string): ArchiveFormat {
+        const lowerPath = filePath.toLowerCase();
+
+        if (lowerPath.endsWith('.tar.gz') || lowerPath.endsWith('.tgz')) {
+            return 'tar.gz';
+        }
+
+        return lowerPath.endsWith('.tar') ? 'tar' : 'zip';
+    }
+
+    /**
+     * Writes a ustar archive: a 512-byte header and padded content per file, then two empty blocks
+     */
+    private static createTar(entries: readonly ArchiveEntry[]): Buffer {
+        const blocks: Buffer[] = [];
+
+        for (const entry of entries) {
+            const content = Buffer.from(entry.content);
+            blocks.push(this.createTarHeader(entry, content.length), content);
+
+            const padding = (TAR_BLOCK_SIZE - content.length % TAR_BLOCK_SIZE) % TAR_BLOCK_SIZE;
+            blocks.push(Buffer.alloc(padding));
+        }
+
+        blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+        return Buffer.concat(blocks);
+    }
+
+    /**
+     * Creates the ustar header of a regular file
+     */
+    private static createTarHeader(entry: ArchiveEntry, size: number): Buffer {
+        const header = Buffer.alloc(TAR_BLOCK_SIZE);
+        const { name, prefix } = this.splitTarPath(entry.path);
+
+        header.write(name, 0, 100, 'utf8');
+        header.write(this.toOctal(TAR_FILE_MODE, 8), 100, 'ascii');
+        header.write(this.toOctal(0, 8), 108, 'ascii');
+        header.write(this.toOctal(0, 8), 116, 'ascii');
+        header.write(this.toOctal(size, 12), 124, 'ascii');
+        header.write(this.toOctal(Math.floor(entry.modifiedTime.getTime() / 1000), 12), 136, 'ascii');
+        header.write('        ', 148, 'ascii');
+        header.write('0', 156, 'ascii');
+        header.write('ustar\0', 257, 'ascii');
+        header.write('00', 263, 'ascii');
+        header.write(prefix, 345, 155, 'utf8');
+
+        const checksum = header.reduce((sum, byte) => sum + byte, 0);
+        header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+
+        return header;
+    }
+
+    /**
+     * Splits a path into the ustar name (up to 100 bytes) and prefix (up to 155 bytes) fields
+     */
+    private static splitTarPath(entryPath: string): { name: string; prefix: string } {
+        if (Buffer.byteLength(entryPath) <= 100) {
+            return { name: entryPath, prefix: '' };
+        }
+
+        for (let index = entryPath.indexOf('/'); index !== -1; index = entryPath.indexOf('/', index + 1)) {
+            const prefix = entryPath.slice(0, index);
+            const name = entryPath.slice(index + 1);
+
+            if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+                return { name, prefix };
+            }
+        }
+
+        throw new Error(`Path is too long for a tar archive: ${entryPath}`);
+    }
+
+    /**
+     * Formats a number as a NUL-terminated octal field
+     */
+    private static toOctal(value: number, fieldLength: number): string {
+        return `${value.toString(8).padStart(fieldLength - 1, '0')}\0`;
+    }
+
+    /**
+     * Writes a zip archive: deflated local entries followed by the central directory
+     */
+    private static createZip(entries: readonly ArchiveEntry[]): Buffer {
+        const localParts: Buffer[] = [];
+        const centralParts: Buffer[] = [];
+        let offset = 0;
+
+        for (const entry of entries) {
+            const name = Buffer.from(entry.path, 'utf8');
+            const content = Buffer.from(entry.content);
+            const compressed = zlib.deflateRawSync(content);
+            const crc = zlib.crc32(content);
+            const { time, date } = this.toDosDateTime(entry.modifiedTime);
+
+            const local = Buffer.alloc(30);
+            local.writeUInt32LE(0x04034b50, 0);
+            local.writeUInt16LE(ZIP_VERSION, 4);
+            local.writeUInt16LE(ZIP_UTF8_FLAG, 6);
+            local.writeUInt16LE(ZIP_DEFLATE_METHOD, 8);
+            local.writeUInt16LE(time, 10);
+            local.writeUInt16LE(date, 12);
+            local.writeUInt32LE(crc, 14);
+            local.writeUInt32LE(compressed.length, 18);
+            local.writeUInt32LE(content.length, 22);
+            local.writeUInt16LE(name.length, 26);
+
+            const central = Buffer.alloc(46);
+            central.writeUInt32LE(0x02014b50, 0);
+            central.writeUInt16LE(ZIP_VERSION, 4);
+            central.writeUInt16LE(ZIP_VERSION, 6);
+            central.writeUInt16LE(ZIP_UTF8_FLAG, 8);
+            central.writeUInt16LE(ZIP_DEFLATE_METHOD, 10);
+            central.writeUInt16LE(time, 12);
+            central.writeUInt16LE(date, 14);
+            central.writeUInt32LE(crc, 16);
+            central.writeUInt32LE(compressed.length, 20);
+            central.writeUInt32LE(content.length, 24);
+            central.writeUInt16LE(name.length, 28);
+            central.writeUInt32LE(offset, 42);
+
+            localParts.push(local, name, compressed);
+            centralParts.push(central, name);
+            offset += local.length + name.length + compressed.length;
+        }
+
+        const centralDirectory = Buffer.concat(centralParts);
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(entries.length, 8);
+        end.writeUInt16LE(entries.length, 10);
+        end.writeUInt32LE(centralDirectory.length, 12);
+        end.writeUInt32LE(offset, 16);
+
+        return Buffer.concat([...localParts, centralDirectory, end]);
+    }
+
+    /**
+     * Converts a date to the MS-DOS time and date fields used by zip (local time, 2-second precision)
+     */
+    private static toDosDateTime(value: Date): { time: number; date: number } {
+        const year = Math.max(value.getFullYear(), 1980);
+
+        return {
+            time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+            date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+        };
+    }
+}
@@ -0,0 +1,41 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeletedItem } from './types';
+import { BackupContentProvider } from './backup-content-provider';
+import { FileSystemUtils } from './file-system-utils';
+
+/**
+ * Opens diff views between a deleted item's backup and what is at its original path
+ */
+export class BackupComparer {
+
+    /**
+     * Diffs a backup revision against the current file, or against an empty document if none exists
+     */
+    static async compareWithBackup(item: DeletedItem, backupPath = item.backupPath): Promise<void> {
+        if (!backupPath) {
+            throw new Error(`No backup path available for ${item.relativePath}`);
+        }
+
+        const currentExists = await FileSystemUtils.uriExists(item.uri);
+        const backupUri = BackupContentProvider.createBackupUri(item.uri, backupPath);
+        const currentUri = currentExists ? item.uri : BackupContentProvider.createEmptyUri(item.uri);
+        const title = `${path.basename(item.relativePath)} (Backup) ↔ ${currentExists ? 'Current' : 'Empty'}`;
+
+        await vscode.commands.executeCommand('vscode.diff', backupUri, currentUri, title);
+    }
+
+    /**
+     * Diffs a file's git HEAD version against its newest local-history backup
+     */
+    static async compareWithGitHead(item: DeletedItem, headUri: vscode.Uri): Promise<void> {
+        if (!item.backupPath) {
+            throw new Error(`No backup path available for ${item.relativePath}`);
+        }
+
+        const backupUri = BackupContentProvider.createBackupUri(item.uri, item.backupPath);
+        const title = `${path.basename(item.relativePath)} (Git HEAD) ↔ Local History`;
+
+        await vscode.commands.executeCommand('vscode.diff', headUri, backupUri, title);
+    }
+}
@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { BACKUP_URI_SCHEME } from './constants';
+
+/**
+ * Serves backup revisions as read-only virtual documents.
+ *
+ * URIs keep the original file path (so titles and language detection work)
+ * and carry the backup file location in the query. An empty query yields an
+ * empty document, used as the diff side when nothing exists at the original path.
+ */
+export class BackupContentProvider implements vscode.TextDocumentContentProvider {
+
+    /**
+     * Creates a virtual document URI for a backup of the given original file
+     */
+    static createBackupUri(originalUri: vscode.Uri, backupPath: string): vscode.Uri {
+        return vscode.Uri.from({ scheme: BACKUP_URI_SCHEME, path: originalUri.path, query: backupPath });
+    }
+
+    /**
+     * Creates a virtual document URI for an empty document named after the original file
+     */
+    static createEmptyUri(originalUri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.from({ scheme: BACKUP_URI_SCHEME, path: originalUri.path });
+    }
+
+    /**
+     * Reads the backup content referenced by the URI
+     */
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        if (!uri.query) {
+            return '';
+        }
+
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.file(uri.query));
+            return new TextDecoder().decode(content);
+        } catch (error) {
+            throw new Error(`Failed to read backup file ${uri.query}: ${error}`);
+        }
+    }
+}
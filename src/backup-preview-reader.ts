@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackupPreview } from './types';
+import {
+    BINARY_DETECTION_BYTES,
+    PREVIEW_LANGUAGE_IDS,
+    TOOLTIP_PREVIEW_LINES,
+    TOOLTIP_PREVIEW_MAX_BYTES,
+    TOOLTIP_PREVIEW_MAX_LINE_LENGTH
+} from './constants';
+
+/**
+ * Reads the start of backup files for tooltip previews, without loading whole files
+ */
+export class BackupPreviewReader {
+    /**
+     * Reads the first lines of a backup without throwing.
+     * Returns null if the backup cannot be read.
+     */
+    static async read(backupPath: string, maxLines: number = TOOLTIP_PREVIEW_LINES): Promise<BackupPreview | null> {
+        try {
+            const handle = await fs.promises.open(backupPath, 'r');
+
+            try {
+                const { size } = await handle.stat();
+                const buffer = Buffer.alloc(Math.min(size, TOOLTIP_PREVIEW_MAX_BYTES));
+                const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+
+                return this.createPreview(buffer.subarray(0, bytesRead), size, maxLines);
+            } finally {
+                await handle.close();
+            }
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Gets the language id to highlight a file's preview with, or an empty string for plain text
+     */
+    static getLanguageId(filePath: string): string {
+        return PREVIEW_LANGUAGE_IDS[path.extname(filePath).toLowerCase()] ?? '';
+    }
+
+    /**
+     * Checks whether content is binary, treating any NUL byte near the start as binary data
+     */
+    static isBinary(content: Uint8Array): boolean {
+        return content.subarray(0, BINARY_DETECTION_BYTES).includes(0);
+    }
+
+    /**
+     * Splits the bytes read from a backup into preview lines
+     */
+    private static createPreview(head: Buffer, size: number, maxLines: number): BackupPreview {
+        if (this.isBinary(head)) {
+            return { size, binary: true, lines: [], truncated: false };
+        }
+
+        const lines = head.toString('utf8').split(/\r?\n/);
+        const readWhole = head.length >= size;
+
+        // The last line read is either cut off mid-way or the empty remainder after a final newline
+        if ((!readWhole && lines.length > 1) || (readWhole && lines[lines.length - 1] === '')) {
+            lines.pop();
+        }
+
+        return {
+            size,
+            binary: false,
+            lines: lines.slice(0, maxLines).map(line => this.shortenLine(line)),
+            truncated: !readWhole || lines.length > maxLines
+        };
+    }
+
+    /**
+     * Cuts a line to the preview's maximum line length
+     */
+    private static shortenLine(line: string): string {
+        return line.length > TOOLTIP_PREVIEW_MAX_LINE_LENGTH
+            ? `${line.slice(0, TOOLTIP_PREVIEW_MAX_LINE_LENGTH)}…`
+            : line;
+    }
+}
@@ -1,125 +1,349 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { DeletedItem, BackupEntry, ScanResult } from './types';
+import * as fs from 'fs';
+import {
+    DeletedItem,
+    BackupRevision,
+    HistoryEntry,
+    IndexedHistoryFolder,
+    IndexedRevision,
+    RejectedEntry,
+    RejectionReason,
+    ScannedLocation,
+    ScanOptions,
+    ScanResult
+} from './types';
 import { FileSystemUtils } from './file-system-utils';
-import { ENTRIES_JSON_FILENAME, MAX_SCAN_DEPTH } from './constants';
+import { HistoryEntriesParser, ParsedHistoryEntries } from './history-entries-parser';
+import { ExtensionSettings, ScanLocation } from './extension-settings';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+import { ScanIndex } from './scan-index';
+import { IgnoreRules } from './ignore-rules';
+import { GitIntegration } from './git-integration';
+import { PathIdentity } from './path-identity';
+import { MoveDetector } from './move-detector';
+import {
+    ENTRIES_JSON_FILENAME,
+    MAX_CONCURRENT_FS_OPERATIONS,
+    PROGRESS_COMPLETE_PERCENT,
+    SCAN_LOCATIONS,
+    SCAN_PROGRESS_REPORT_INTERVAL
+} from './constants';
 
 /**
- * Handles scanning of VS Code backup directories for deleted files
+ * Handles scanning of VS Code backup directories for deleted files.
+ * All file system access is asynchronous and goes through a shared limiter,
+ * so sibling directories are scanned in parallel without flooding the disk.
  */
 export class BackupScanner {
-    private readonly workspacePath: string;
+    private readonly workspaceUris: vscode.Uri[];
+    private readonly workspacePaths: string[];
+    private readonly userDataDirectories: string[];
+    private readonly scanIndex: ScanIndex | undefined;
+    private readonly shadowHistoryDirectories: string[];
+    private readonly gitIntegration: GitIntegration | undefined;
+    private readonly moveDetector: MoveDetector | undefined;
     private readonly deletedItems: DeletedItem[] = [];
     private directoriesScanned = 0;
     private errors: string[] = [];
+    private readonly locations: ScannedLocation[] = [];
+    private readonly rejected: RejectedEntry[] = [];
+    private historyFoldersParsed = 0;
+    private historyFoldersCached = 0;
+    private maxScanDepth = 0;
+    private options: ScanOptions = {};
+    private directoriesAtLastReport = 0;
+    private readonly fsLimiter = new ConcurrencyLimiter(MAX_CONCURRENT_FS_OPERATIONS);
+    private readonly ignoreRules = new Map<string, IgnoreRules>();
+    private readonly workspaceRealPaths = new Map<string, string>();
+    private visitedFolders: Set<string> | undefined;
 
-    constructor(workspacePath: string) {
-        this.workspacePath = workspacePath;
+    /**
+     * @param workspaceFolders Workspace folders to find deleted items in; remote folders must be given as URIs
+     * @param scanIndex Cache of parsed history folders; every folder is parsed on each scan if omitted
+     * @param shadowHistoryDirectories History roots kept by the extension's shadow backups
+     * @param gitIntegration Marks which deleted files git can restore; items are left unmarked if omitted
+     * @param moveDetector Finds deleted files that were moved or renamed; no items are marked moved if omitted
+     */
+    constructor(
+        workspaceFolders: string | vscode.Uri | readonly (string | vscode.Uri)[],
+        userDataDirectories: readonly string[] = FileSystemUtils.getDefaultUserDataDirectories(),
+        scanIndex?: ScanIndex,
+        shadowHistoryDirectories: readonly string[] = [],
+        gitIntegration?: GitIntegration,
+        moveDetector?: MoveDetector
+    ) {
+        const folders = Array.isArray(workspaceFolders) ? workspaceFolders : [workspaceFolders];
+        this.workspaceUris = folders.map(folder => typeof folder === 'string' ? vscode.Uri.file(folder) : folder);
+        this.workspacePaths = this.workspaceUris.map(uri => uri.fsPath);
+        this.userDataDirectories = [...userDataDirectories];
+        this.scanIndex = scanIndex;
+        this.shadowHistoryDirectories = [...shadowHistoryDirectories];
+        this.gitIntegration = gitIntegration;
+        this.moveDetector = moveDetector;
     }
 
     /**
-     * Scans all backup locations for deleted files
+     * Scans all backup locations for deleted files.
+     *
+     * Workspace-local history is scanned per folder; the shared global locations
+     * are scanned once and each entry is assigned to the folder that contains it.
+     * Throws a CancellationError if the token in `options` is cancelled.
      */
-    async scanAllBackupLocations(): Promise<ScanResult> {
-        this.resetScanState();
+    async scanAllBackupLocations(options: ScanOptions = {}): Promise<ScanResult> {
+        this.resetScanState(options);
+        await this.loadIgnoreRules();
+        await this.resolveWorkspaceRealPaths();
+        await this.scanIndex?.load();
+        this.visitedFolders = this.scanIndex?.beginScan();
+
+        const phases = this.getEnabledScanPhases();
+        const increment = PROGRESS_COMPLETE_PERCENT / Math.max(phases.length, 1);
+
+        for (const phase of phases) {
+            this.throwIfCancelled();
+            await phase();
+            this.reportProgress(increment);
+        }
 
-        await this.scanWorkspaceBackups();
-        await this.scanGlobalBackups();
-        await this.scanVSCodeBackupLocations();
+        if (this.visitedFolders) {
+            await this.scanIndex?.commit(this.visitedFolders);
+        }
+        await this.markMovedItems();
+        await this.markGitTracking();
 
-        return {
-            items: [...this.deletedItems],
-            directoriesScanned: this.directoriesScanned,
-            errors: [...this.errors]
-        };
+        return this.createScanResult();
     }
 
     /**
-     * Scans workspace-local backup directories
+     * Scans only the history folders that may hold recently deleted paths: folders the
+     * scan index maps to those paths (or to files beneath them) and history folders the
+     * index has not seen yet. Storage folders are left to the next full scan.
+     */
+    async scanDeletedPaths(deletedPaths: readonly string[], options: ScanOptions = {}): Promise<ScanResult> {
+        this.resetScanState(options);
+        await this.loadIgnoreRules();
+        await this.resolveWorkspaceRealPaths();
+        await this.scanIndex?.load();
+
+        const candidates = new Set(this.scanIndex?.findFoldersForResources(deletedPaths) ?? []);
+        for (const folder of await this.findUnindexedHistoryFolders()) {
+            candidates.add(folder);
+        }
+
+        await Promise.all([...candidates].map(folder => this.processHistoryFolder(folder)));
+        await this.scanIndex?.save();
+        await this.markMovedItems();
+        await this.markGitTracking();
+
+        return this.createScanResult();
+    }
+
+    /**
+     * Lists the scan phases for the locations enabled in the settings
+     */
+    private getEnabledScanPhases(): (() => Promise<void>)[] {
+        const phases: (() => Promise<void>)[] = [];
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.WORKSPACE_HISTORY)) {
+            phases.push(() => this.scanWorkspaceBackups());
+        }
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.GLOBAL_HISTORY)) {
+            phases.push(() => this.scanGlobalBackups());
+        }
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.STORAGE_FOLDERS)) {
+            phases.push(() => this.scanVSCodeBackupLocations());
+        }
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.SHADOW_BACKUPS)) {
+            phases.push(() => this.scanShadowBackups());
+        }
+
+        return phases;
+    }
+
+    /**
+     * Scans workspace-local backup directories of every workspace folder
      */
     private async scanWorkspaceBackups(): Promise<void> {
-        const vscodeDir = path.join(this.workspacePath, '.vscode');
+        await Promise.all(this.workspacePaths.map(workspacePath => this.scanWorkspaceFolderBackups(workspacePath)));
+    }
+
+    /**
+     * Scans the backup directory inside a single workspace folder
+     */
+    private async scanWorkspaceFolderBackups(workspacePath: string): Promise<void> {
+        const vscodeDir = path.join(workspacePath, '.vscode');
         const historyDir = path.join(vscodeDir, 'history');
 
-        if (!FileSystemUtils.fileExists(historyDir)) {
+        if (!await this.checkLocation(SCAN_LOCATIONS.WORKSPACE_HISTORY, historyDir)) {
             return;
         }
 
         console.log('Scanning workspace history directory:', historyDir);
-        await this.scanHistoryDirectory(historyDir);
+        await this.scanHistoryDirectory(historyDir, workspacePath);
     }
 
     /**
-     * Scans global VS Code backup directories
+     * Scans the global local-history directory of every known user-data directory
      */
     private async scanGlobalBackups(): Promise<void> {
-        const globalBackupPath = FileSystemUtils.getGlobalBackupPath();
-        
-        if (!globalBackupPath || !FileSystemUtils.fileExists(globalBackupPath)) {
-            return;
-        }
+        await Promise.all(this.userDataDirectories.map(async userDataDirectory => {
+            const globalBackupPath = FileSystemUtils.getGlobalBackupPath(userDataDirectory);
+            
+            if (!globalBackupPath || !await this.checkLocation(SCAN_LOCATIONS.GLOBAL_HISTORY, globalBackupPath)) {
+                return;
+            }
 
-        console.log('Scanning global backup directory:', globalBackupPath);
-        await this.scanBackupDirectory(globalBackupPath);
+            console.log('Scanning global backup directory:', globalBackupPath);
+            await this.scanBackupDirectory(globalBackupPath);
+        }));
     }
 
     /**
      * Scans platform-specific VS Code backup locations
      */
     private async scanVSCodeBackupLocations(): Promise<void> {
-        const locations = FileSystemUtils.getVSCodeBackupLocations();
+        const locations = FileSystemUtils.getVSCodeBackupLocations(this.userDataDirectories);
+        const existence = await Promise.all(locations.map(location => this.checkLocation(SCAN_LOCATIONS.STORAGE_FOLDERS, location)));
         
         console.log('Scanning VS Code backup locations:');
-        for (const location of locations) {
-            const exists = FileSystemUtils.fileExists(location);
-            console.log(`  - ${location}: ${exists ? 'EXISTS' : 'NOT FOUND'}`);
-            
-            if (exists) {
-                await this.scanBackupDirectory(location);
+        locations.forEach((location, index) => {
+            console.log(`  - ${location}: ${existence[index] ? 'EXISTS' : 'NOT FOUND'}`);
+        });
+
+        const existingLocations = locations.filter((_, index) => existence[index]);
+        await Promise.all(existingLocations.map(location => this.scanBackupDirectory(location)));
+    }
+
+    /**
+     * Scans the history roots kept by the extension's shadow backups
+     */
+    private async scanShadowBackups(): Promise<void> {
+        await Promise.all(this.shadowHistoryDirectories.map(async historyDirectory => {
+            if (!await this.checkLocation(SCAN_LOCATIONS.SHADOW_BACKUPS, historyDirectory)) {
+                return;
             }
+
+            console.log('Scanning shadow backup directory:', historyDirectory);
+            await this.scanBackupDirectory(historyDirectory);
+        }));
+    }
+
+    /**
+     * Checks whether a backup location exists, recording it for the scan report
+     */
+    private async checkLocation(kind: ScanLocation, locationPath: string): Promise<boolean> {
+        const exists = await this.pathExists(locationPath);
+        this.locations.push({ kind, path: locationPath, exists });
+        return exists;
+    }
+
+    /**
+     * Lists history folders in the enabled history roots that the scan index does not know yet
+     */
+    private async findUnindexedHistoryFolders(): Promise<string[]> {
+        const historyRoots = this.getHistoryRoots();
+        const listings = await Promise.all(historyRoots.map(async root => {
+            const entries = await this.readDirectory(root);
+            return entries
+                .filter(entry => entry.isDirectory())
+                .map(entry => path.join(root, entry.name));
+        }));
+
+        return listings.flat().filter(folder => !this.scanIndex?.has(folder));
+    }
+
+    /**
+     * Gets the workspace, global and shadow backup history directories enabled in the settings
+     */
+    private getHistoryRoots(): string[] {
+        const roots: string[] = [];
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.WORKSPACE_HISTORY)) {
+            roots.push(...this.workspacePaths.map(workspacePath => path.join(workspacePath, '.vscode', 'history')));
         }
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.GLOBAL_HISTORY)) {
+            for (const userDataDirectory of this.userDataDirectories) {
+                const globalBackupPath = FileSystemUtils.getGlobalBackupPath(userDataDirectory);
+                if (globalBackupPath) {
+                    roots.push(globalBackupPath);
+                }
+            }
+        }
+
+        if (ExtensionSettings.isScanLocationEnabled(SCAN_LOCATIONS.SHADOW_BACKUPS)) {
+            roots.push(...this.shadowHistoryDirectories);
+        }
+
+        return roots;
     }
 
     /**
-     * Scans a history directory for file backups
+     * Processes a single history folder that has an entries.json
      */
-    private async scanHistoryDirectory(historyDir: string): Promise<void> {
-        const entries = FileSystemUtils.readDirectorySafe(historyDir);
-        
-        for (const entry of entries) {
-            if (!entry.isDirectory()) {continue;}
+    private async processHistoryFolder(historyPath: string): Promise<void> {
+        this.throwIfCancelled();
+        this.countScannedDirectory();
 
-            const entryPath = path.join(historyDir, entry.name);
-            await this.processFileHistory(entryPath);
+        try {
+            const entriesJsonPath = path.join(historyPath, ENTRIES_JSON_FILENAME);
+            const entriesStats = await this.getFileStats(entriesJsonPath);
+            if (entriesStats) {
+                await this.processEntriesJson(entriesJsonPath, historyPath, entriesStats.mtimeMs);
+            }
+        } catch (error) {
+            this.rethrowIfCancelled(error);
+            const errorMessage = `Error processing history folder ${historyPath}: ${error}`;
+            console.error(errorMessage);
+            this.errors.push(errorMessage);
         }
     }
 
+    /**
+     * Scans a history directory for file backups
+     */
+    private async scanHistoryDirectory(historyDir: string, workspacePath: string): Promise<void> {
+        const entries = await this.readDirectory(historyDir);
+        const historyFolders = entries.filter(entry => entry.isDirectory());
+
+        await Promise.all(historyFolders.map(entry =>
+            this.processFileHistory(path.join(historyDir, entry.name), workspacePath)
+        ));
+    }
+
     /**
      * Recursively scans backup directories with depth limiting
      */
     private async scanBackupDirectory(backupPath: string, currentDepth = 0): Promise<void> {
-        if (currentDepth > MAX_SCAN_DEPTH) {
+        if (currentDepth > this.maxScanDepth) {
             return;
         }
 
-        this.directoriesScanned++;
+        this.throwIfCancelled();
+        this.countScannedDirectory();
 
         try {
             const entriesJsonPath = path.join(backupPath, ENTRIES_JSON_FILENAME);
-            if (FileSystemUtils.fileExists(entriesJsonPath)) {
-                await this.processEntriesJson(entriesJsonPath, backupPath);
+            const entriesStats = await this.getFileStats(entriesJsonPath);
+            if (entriesStats) {
+                await this.processEntriesJson(entriesJsonPath, backupPath, entriesStats.mtimeMs);
             }
 
-            const entries = FileSystemUtils.readDirectorySafe(backupPath);
-            
-            for (const entry of entries) {
-                if (entry.isDirectory()) {
-                    const subPath = path.join(backupPath, entry.name);
-                    await this.scanBackupDirectory(subPath, currentDepth + 1);
-                }
-            }
+            const entries = await this.readDirectory(backupPath);
+            const subdirectories = entries
+                .filter(entry => entry.isDirectory())
+                .map(entry => path.join(backupPath, entry.name))
+                .filter(subdirectory => !this.isShadowHistoryDirectory(subdirectory));
+
+            await Promise.all(subdirectories.map(subdirectory =>
+                this.scanBackupDirectory(subdirectory, currentDepth + 1)
+            ));
         } catch (error) {
+            this.rethrowIfCancelled(error);
             const errorMessage = `Error scanning ${backupPath}: ${error}`;
             console.error(errorMessage);
             this.errors.push(errorMessage);
@@ -127,28 +351,50 @@ export class BackupScanner {
     }
 
     /**
-     * Processes VS Code's entries.json backup metadata
+     * Checks whether a directory is one of the shadow backup history roots. These live in the
+     * extension's global storage, so walks of the storage folders must leave them to their own phase.
      */
-    private async processEntriesJson(entriesJsonPath: string, backupPath: string): Promise<void> {
-        const entries = FileSystemUtils.readJsonFileSafe<BackupEntry>(entriesJsonPath);
-        
-        if (!entries?.resource) {
+    private isShadowHistoryDirectory(directory: string): boolean {
+        return this.shadowHistoryDirectories.some(historyDirectory => path.resolve(historyDirectory) === path.resolve(directory));
+    }
+
+    /**
+     * Processes VS Code's entries.json backup metadata, reusing the indexed result when unchanged
+     */
+    private async processEntriesJson(entriesJsonPath: string, backupPath: string, entriesMtime: number): Promise<void> {
+        const record = await this.getHistoryFolderRecord(entriesJsonPath, backupPath, entriesMtime);
+        this.errors.push(...record.errors);
+
+        const backupEntry = record.backupEntry;
+        if (!backupEntry) {
             return;
         }
 
-        const originalPath = FileSystemUtils.normalizeUriPath(entries.resource);
-        
-        if (!this.isValidDeletedFile(originalPath)) {
+        const originalUri = FileSystemUtils.resourceToUri(backupEntry.resource);
+        const originalPath = originalUri.fsPath;
+        const workspacePath = this.findContainingWorkspace(originalUri);
+
+        if (!workspacePath) {
+            this.reject(backupPath, 'outsideWorkspace', originalPath);
             return;
         }
 
-        const newestBackupFile = this.findNewestBackupFile(backupPath);
-        
-        if (!newestBackupFile) {
+        const itemUri = this.toWorkspaceUri(originalUri, workspacePath);
+        const rejection = await this.findRejectionReason(itemUri, workspacePath);
+        if (rejection) {
+            this.reject(backupPath, rejection, originalPath);
             return;
         }
 
-        const deletedItem = this.createDeletedItem(originalPath, newestBackupFile.path, newestBackupFile.stats);
+        const revisions = await this.getRecordRevisions(record, backupPath);
+
+        if (revisions.length === 0) {
+            const hasUnsafeEntries = backupEntry.entries.some(entry => !this.isSafeEntryId(entry.id));
+            this.reject(backupPath, hasUnsafeEntries ? 'unsafeEntryId' : 'noBackupFile', originalPath);
+            return;
+        }
+
+        const deletedItem = this.createDeletedItem(itemUri, workspacePath, revisions, originalUri);
         
         if (deletedItem) {
             this.deletedItems.push(deletedItem);
@@ -157,35 +403,120 @@ export class BackupScanner {
     }
 
     /**
-     * Processes individual file history directories
+     * Gets the parsed entries.json of a history folder from the index, parsing it if it changed
+     */
+    private async getHistoryFolderRecord(
+        entriesJsonPath: string,
+        backupPath: string,
+        entriesMtime: number
+    ): Promise<IndexedHistoryFolder> {
+        const cached = this.scanIndex?.lookup(backupPath, entriesMtime, this.visitedFolders);
+
+        if (cached) {
+            this.historyFoldersCached++;
+            return cached;
+        }
+
+        this.historyFoldersParsed++;
+        const parsed = await this.readBackupEntry(entriesJsonPath);
+        const record: IndexedHistoryFolder = {
+            entriesMtime,
+            backupEntry: parsed.backupEntry,
+            errors: parsed.errors
+        };
+
+        this.scanIndex?.update(backupPath, record, this.visitedFolders);
+        return record;
+    }
+
+    /**
+     * Gets the revisions of an indexed history folder, collecting them the first time they are needed
+     */
+    private async getRecordRevisions(record: IndexedHistoryFolder, backupPath: string): Promise<BackupRevision[]> {
+        if (!record.revisions) {
+            const errors: string[] = [];
+            const entries = record.backupEntry?.entries ?? [];
+            const revisions = entries.length > 0 ?
+                await this.collectRevisionsFromEntries(backupPath, entries, errors) :
+                await this.collectRevisions(backupPath);
+
+            record.revisions = revisions.map(revision => this.toIndexedRevision(revision));
+            record.errors.push(...errors);
+            this.errors.push(...errors);
+            this.scanIndex?.update(backupPath, record, this.visitedFolders);
+        }
+
+        return record.revisions.map(revision => this.fromIndexedRevision(revision));
+    }
+
+    /**
+     * Reads and validates an entries.json file, returning any problems alongside the result
      */
-    private async processFileHistory(historyPath: string): Promise<void> {
+    private async readBackupEntry(entriesJsonPath: string): Promise<ParsedHistoryEntries> {
+        const rawEntries = await this.fsLimiter.run(() => FileSystemUtils.readJsonFileAsync<unknown>(entriesJsonPath));
+
+        if (rawEntries === null) {
+            return { backupEntry: null, errors: [`Unable to read ${entriesJsonPath}`] };
+        }
+
+        return HistoryEntriesParser.parse(rawEntries, entriesJsonPath);
+    }
+
+    /**
+     * Processes individual file history directories found inside a workspace folder
+     */
+    private async processFileHistory(historyPath: string, workspacePath: string): Promise<void> {
+        this.throwIfCancelled();
+        this.countScannedDirectory();
+
         try {
             // If this history folder contains an entries.json, prefer using it
             const entriesJsonPath = path.join(historyPath, ENTRIES_JSON_FILENAME);
-            if (FileSystemUtils.fileExists(entriesJsonPath)) {
-                await this.processEntriesJson(entriesJsonPath, historyPath);
+            const entriesStats = await this.getFileStats(entriesJsonPath);
+            if (entriesStats) {
+                await this.processEntriesJson(entriesJsonPath, historyPath, entriesStats.mtimeMs);
                 return;
             }
 
-            const newestBackup = this.findNewestBackupInHistory(historyPath);
+            this.historyFoldersParsed++;
+            const revisions = await this.collectRevisions(historyPath);
 
-            if (!newestBackup) {
+            if (revisions.length === 0) {
+                this.reject(historyPath, 'noBackupFile');
                 return;
             }
 
-            const originalPath = FileSystemUtils.extractOriginalPathFromBackup(newestBackup.path, this.workspacePath);
+            const originalPath = await this.fsLimiter.run(() =>
+                FileSystemUtils.extractOriginalPathFromBackupAsync(revisions[0].path, workspacePath)
+            );
 
-            if (!originalPath || !this.isValidDeletedFile(originalPath)) {
+            if (!originalPath) {
+                this.reject(historyPath, 'unknownOriginalPath');
                 return;
             }
 
-            const deletedItem = this.createDeletedItem(originalPath, newestBackup.path, newestBackup.stats);
+            const originalUri = this.toResourceUri(originalPath, workspacePath);
+            const owningWorkspace = this.findContainingWorkspace(originalUri);
+
+            if (!owningWorkspace) {
+                this.reject(historyPath, 'outsideWorkspace', originalPath);
+                return;
+            }
+
+            const itemUri = this.toWorkspaceUri(originalUri, owningWorkspace);
+            const rejection = await this.findRejectionReason(itemUri, owningWorkspace);
+            if (rejection) {
+                this.reject(historyPath, rejection, originalPath);
+                return;
+            }
+
+            const deletedItem = this.createDeletedItem(itemUri, owningWorkspace, revisions, originalUri);
 
             if (deletedItem) {
                 this.deletedItems.push(deletedItem);
             }
         } catch (error) {
+            this.rethrowIfCancelled(error);
             const errorMessage = `Error processing file history ${historyPath}: ${error}`;
             console.error(errorMessage);
             this.errors.push(errorMessage);
@@ -193,79 +524,298 @@ export class BackupScanner {
     }
 
     /**
-     * Finds the newest backup file in a directory
+     * Collects every backup file in a history directory, newest modification time first
      */
-    private findNewestBackupFile(backupPath: string): { path: string; stats: fs.Stats } | null {
-        const entries = FileSystemUtils.readDirectorySafe(backupPath);
-        const backupFiles = entries
-            .filter(entry => entry.isFile() && entry.name !== ENTRIES_JSON_FILENAME)
-            .map(entry => entry.name);
+    private async collectRevisions(historyPath: string): Promise<BackupRevision[]> {
+        const entries = await this.readDirectory(historyPath);
+        const backupFiles = entries.filter(entry => entry.isFile() && entry.name !== ENTRIES_JSON_FILENAME);
 
-        if (backupFiles.length === 0) {
-            return null;
+        const revisions = await Promise.all(backupFiles.map(entry =>
+            this.createRevision(path.join(historyPath, entry.name))
+        ));
+
+        return revisions
+            .filter((revision): revision is BackupRevision => revision !== null)
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    }
+
+    /**
+     * Collects the revisions listed in entries.json, newest first.
+     * Entries whose id is not a plain file name are skipped and reported, so backups are never read from outside the history folder.
+     */
+    private async collectRevisionsFromEntries(
+        historyPath: string,
+        entries: HistoryEntry[],
+        errors: string[]
+    ): Promise<BackupRevision[]> {
+        const safeEntries = entries.filter(entry => this.isSafeEntryId(entry.id));
+
+        for (const entry of entries.filter(entry => !this.isSafeEntryId(entry.id))) {
+            errors.push(`Skipped history entry ${JSON.stringify(entry.id)} in ${historyPath}: its id is not a plain file name`);
         }
+        const revisions = await Promise.all(safeEntries.map(async (entry): Promise<BackupRevision | null> => {
+            const revisionPath = path.join(historyPath, entry.id);
+            const stats = await this.getFileStats(revisionPath);
+
+            if (!stats) {
+                errors.push(`History entry ${entry.id} in ${historyPath} has no backup file`);
+                return null;
+            }
+
+            return {
+                path: revisionPath,
+                timestamp: new Date(entry.timestamp),
+                size: stats.size,
+                source: entry.sourceDescription ?? entry.source
+            };
+        }));
 
-        const sortedFiles = FileSystemUtils.sortBackupFilesByDate(backupPath, backupFiles);
-        const newestFile = sortedFiles[0];
-        const filePath = path.join(backupPath, newestFile);
-        const stats = FileSystemUtils.getFileStatsSafe(filePath);
+        return revisions
+            .filter((revision): revision is BackupRevision => revision !== null)
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    }
 
-        return stats ? { path: filePath, stats } : null;
+    /**
+     * Checks that an entries.json id names a file directly inside its history folder
+     */
+    private isSafeEntryId(id: string): boolean {
+        return id.length > 0 && id !== '.' && id !== '..' && path.basename(id) === id;
     }
 
     /**
-     * Finds the newest backup in a history directory
+     * Creates a revision record for a single backup file
      */
-    private findNewestBackupInHistory(historyPath: string): { path: string; stats: fs.Stats } | null {
-        const entries = FileSystemUtils.readDirectorySafe(historyPath);
-        const backupFiles = entries.filter(entry => entry.isFile());
+    private async createRevision(filePath: string): Promise<BackupRevision | null> {
+        const stats = await this.getFileStats(filePath);
 
-        if (backupFiles.length === 0) {
+        if (!stats) {
             return null;
         }
 
-        // Sort by modification time, newest first
-        const sortedFiles = backupFiles.sort((a, b) => {
-            const pathA = path.join(historyPath, a.name);
-            const pathB = path.join(historyPath, b.name);
-            const statA = FileSystemUtils.getFileStatsSafe(pathA);
-            const statB = FileSystemUtils.getFileStatsSafe(pathB);
-            
-            if (!statA || !statB) {return 0;}
-            
-            return statB.mtime.getTime() - statA.mtime.getTime();
+        return {
+            path: filePath,
+            timestamp: stats.mtime,
+            size: stats.size
+        };
+    }
+
+    /**
+     * Converts a revision to the JSON form stored in the scan index
+     */
+    private toIndexedRevision(revision: BackupRevision): IndexedRevision {
+        return {
+            path: revision.path,
+            timestamp: revision.timestamp.getTime(),
+            size: revision.size,
+            source: revision.source
+        };
+    }
+
+    /**
+     * Converts a revision from the scan index back to a BackupRevision
+     */
+    private fromIndexedRevision(revision: IndexedRevision): BackupRevision {
+        return {
+            path: revision.path,
+            timestamp: new Date(revision.timestamp),
+            size: revision.size,
+            source: revision.source
+        };
+    }
+
+    /**
+     * Explains why a file is not shown as deleted: it still exists or an ignore rule hides it.
+     * Returns undefined for a truly deleted file.
+     */
+    private async findRejectionReason(originalUri: vscode.Uri, workspacePath: string): Promise<RejectionReason | undefined> {
+        if (await this.fsLimiter.run(() => FileSystemUtils.uriExists(originalUri))) {
+            return 'stillExists';
+        }
+
+        if (this.findIgnoringRule(originalUri.fsPath, workspacePath) && ExtensionSettings.getIgnoredItemsDisplay() === 'hide') {
+            return 'ignored';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Records a history entry that did not become a deleted item
+     */
+    private reject(historyFolder: string, reason: RejectionReason, originalPath?: string): void {
+        this.rejected.push({ historyFolder, originalPath, reason });
+    }
+
+    /**
+     * Describes the ignore rule matching a file, or returns undefined if none does
+     */
+    private findIgnoringRule(originalPath: string, workspacePath: string): string | undefined {
+        return this.ignoreRules.get(workspacePath)?.findIgnoringRule(this.getRelativePath(originalPath, workspacePath));
+    }
+
+    /**
+     * Loads the ignore rules of every workspace folder for the coming scan, noting skipped rules among the errors
+     */
+    private async loadIgnoreRules(): Promise<void> {
+        this.ignoreRules.clear();
+        const rules = await Promise.all(this.workspaceUris.map(workspaceUri => IgnoreRules.load(workspaceUri)));
+
+        this.workspacePaths.forEach((workspacePath, index) => {
+            this.ignoreRules.set(workspacePath, rules[index]);
+
+            for (const rule of rules[index].getSkippedRules()) {
+                this.errors.push(`Skipped ignore rule that is not a valid pattern in ${workspacePath}: ${rule}`);
+            }
         });
+    }
+
+    /**
+     * Resolves symbolic links in local workspace folder paths, so history recorded under
+     * a folder's real location is matched to the folder when it was opened through a link
+     */
+    private async resolveWorkspaceRealPaths(): Promise<void> {
+        this.workspaceRealPaths.clear();
+
+        await Promise.all(this.workspacePaths.map(async (workspacePath, index) => {
+            if (this.workspaceUris[index].scheme !== 'file') {
+                return;
+            }
+
+            const realPath = await this.fsLimiter.run(() => PathIdentity.canonicalize(workspacePath));
+            if (!PathIdentity.equals(realPath, workspacePath)) {
+                this.workspaceRealPaths.set(workspacePath, realPath);
+            }
+        }));
+    }
+
+    /**
+     * Marks found files whose content now lives elsewhere in the workspace as moved,
+     * or leaves them out as rejected entries when moved items are hidden
+     */
+    private async markMovedItems(): Promise<void> {
+        if (!this.moveDetector) {
+            return;
+        }
+
+        try {
+            const moves = await this.moveDetector.findMoves(this.deletedItems, this.workspaceUris);
+            const hideMoved = ExtensionSettings.getMovedItemsDisplay() === 'hide';
+
+            for (const [item, movedTo] of moves) {
+                if (hideMoved) {
+                    this.deletedItems.splice(this.deletedItems.indexOf(item), 1);
+                    this.reject(path.dirname(item.backupPath!), 'moved', item.uri.fsPath);
+                } else {
+                    item.movedTo = movedTo;
+                }
+            }
+        } catch (error) {
+            this.errors.push(`Error detecting moved files: ${error}`);
+        }
+    }
+
+    /**
+     * Marks each found file as tracked or untracked when it lies in a git repository
+     */
+    private async markGitTracking(): Promise<void> {
+        if (!this.gitIntegration) {
+            return;
+        }
 
-        const newestFile = sortedFiles[0];
-        const filePath = path.join(historyPath, newestFile.name);
-        const stats = FileSystemUtils.getFileStatsSafe(filePath);
+        try {
+            const statuses = await this.gitIntegration.getTrackingStatus(this.deletedItems.map(item => item.uri));
+
+            for (const item of this.deletedItems) {
+                item.gitStatus = statuses.get(item.uri.fsPath);
+            }
+        } catch (error) {
+            this.errors.push(`Error reading git status: ${error}`);
+        }
+    }
+
+    /**
+     * Turns a path read from a workspace folder's own history into a URI on that folder's file system
+     */
+    private toResourceUri(originalPath: string, workspacePath: string): vscode.Uri {
+        const workspaceUri = this.workspaceUris[this.workspacePaths.indexOf(workspacePath)];
 
-        return stats ? { path: filePath, stats } : null;
+        if (!workspaceUri || workspaceUri.scheme === 'file') {
+            return vscode.Uri.file(originalPath);
+        }
+
+        return workspaceUri.with({ path: originalPath.split(path.sep).join('/') });
     }
 
     /**
-     * Checks if a file is truly deleted and within the workspace
+     * Finds the innermost workspace folder containing the resource, on the same file system, or null if none does
      */
-    private isValidDeletedFile(originalPath: string): boolean {
-        return FileSystemUtils.isPathInWorkspace(originalPath, this.workspacePath) &&
-               !FileSystemUtils.fileExists(originalPath);
+    private findContainingWorkspace(originalUri: vscode.Uri): string | null {
+        const containing = this.workspacePaths
+            .filter((workspacePath, index) =>
+                FileSystemUtils.isSameFileSystem(originalUri, this.workspaceUris[index])
+                && this.getWorkspaceForms(workspacePath).some(form => FileSystemUtils.isPathInWorkspace(originalUri.fsPath, form)))
+            .sort((a, b) => b.length - a.length);
+
+        return containing[0] ?? null;
+    }
+
+    /**
+     * Moves a resource recorded under a workspace folder's real location onto the path the folder
+     * was opened with, so the item matches file events and restores where the user expects
+     */
+    private toWorkspaceUri(originalUri: vscode.Uri, workspacePath: string): vscode.Uri {
+        const realPath = this.workspaceRealPaths.get(workspacePath);
+
+        if (!realPath || FileSystemUtils.isPathInWorkspace(originalUri.fsPath, workspacePath)) {
+            return originalUri;
+        }
+
+        const segments = (PathIdentity.relative(realPath, originalUri.fsPath) ?? '').split(path.sep).filter(segment => segment.length > 0);
+        return vscode.Uri.joinPath(this.workspaceUris[this.workspacePaths.indexOf(workspacePath)], ...segments);
+    }
+
+    /**
+     * Gets the paths a workspace folder is known by: the one it was opened with and, if different, its real path
+     */
+    private getWorkspaceForms(workspacePath: string): string[] {
+        const realPath = this.workspaceRealPaths.get(workspacePath);
+        return realPath ? [workspacePath, realPath] : [workspacePath];
+    }
+
+    /**
+     * Gets a file's path relative to the workspace folder containing it
+     */
+    private getRelativePath(originalPath: string, workspacePath: string): string {
+        return PathIdentity.relative(workspacePath, originalPath) ?? path.relative(workspacePath, originalPath);
     }
 
     /**
      * Creates a DeletedItem from backup metadata
+     * @param recordedUri The resource as VS Code's history recorded it, if it differs from the item's URI
      */
-    private createDeletedItem(originalPath: string, backupPath: string, stats: fs.Stats): DeletedItem | null {
+    private createDeletedItem(
+        originalUri: vscode.Uri,
+        workspacePath: string,
+        revisions: BackupRevision[],
+        recordedUri: vscode.Uri = originalUri
+    ): DeletedItem | null {
+        const originalPath = originalUri.fsPath;
+
         try {
-            const relativePath = path.relative(this.workspacePath, originalPath);
+            const relativePath = this.getRelativePath(originalPath, workspacePath);
+            const backupPath = revisions[0].path;
             
             return {
-                uri: vscode.Uri.file(originalPath),
+                uri: originalUri,
                 relativePath,
                 isDirectory: false,
-                deletionTime: stats.mtime,
+                deletionTime: revisions[0].timestamp,
                 backupPath,
+                revisions,
+                workspaceRoot: workspacePath,
+                ignoredBy: this.findIgnoringRule(originalPath, workspacePath),
                 nativeHistoryEntry: {
-                    uri: vscode.Uri.file(originalPath),
+                    uri: recordedUri,
                     handle: path.basename(backupPath, path.extname(backupPath))
                 }
             };
@@ -277,12 +827,97 @@ export class BackupScanner {
         }
     }
 
+    /**
+     * Checks whether a path exists, within the file system concurrency limit
+     */
+    private pathExists(filePath: string): Promise<boolean> {
+        return this.fsLimiter.run(() => FileSystemUtils.fileExistsAsync(filePath));
+    }
+
+    /**
+     * Reads a directory, within the file system concurrency limit
+     */
+    private readDirectory(directoryPath: string): Promise<fs.Dirent[]> {
+        return this.fsLimiter.run(() => FileSystemUtils.readDirectoryAsync(directoryPath));
+    }
+
+    /**
+     * Reads file stats, within the file system concurrency limit
+     */
+    private getFileStats(filePath: string): Promise<fs.Stats | null> {
+        return this.fsLimiter.run(() => FileSystemUtils.getFileStatsAsync(filePath));
+    }
+
+    /**
+     * Counts a scanned directory and reports progress every few directories
+     */
+    private countScannedDirectory(): void {
+        this.directoriesScanned++;
+
+        if (this.directoriesScanned - this.directoriesAtLastReport >= SCAN_PROGRESS_REPORT_INTERVAL) {
+            this.reportProgress(0);
+        }
+    }
+
+    /**
+     * Sends the current counts to the progress listener, if any
+     */
+    private reportProgress(increment: number): void {
+        this.directoriesAtLastReport = this.directoriesScanned;
+        this.options.onProgress?.({
+            directoriesScanned: this.directoriesScanned,
+            itemsFound: this.deletedItems.length,
+            increment
+        });
+    }
+
+    /**
+     * Stops the scan if cancellation has been requested
+     */
+    private throwIfCancelled(): void {
+        if (this.options.token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+    }
+
+    /**
+     * Lets cancellation escape the per-directory error handling
+     */
+    private rethrowIfCancelled(error: unknown): void {
+        if (error instanceof vscode.CancellationError) {
+            throw error;
+        }
+    }
+
+    /**
+     * Builds the result of the finished scan
+     */
+    private createScanResult(): ScanResult {
+        return {
+            items: [...this.deletedItems],
+            directoriesScanned: this.directoriesScanned,
+            errors: [...this.errors],
+            locations: [...this.locations],
+            historyFoldersParsed: this.historyFoldersParsed,
+            historyFoldersCached: this.historyFoldersCached,
+            rejected: [...this.rejected]
+        };
+    }
+
     /**
      * Resets the scan state for a fresh scan
      */
-    private resetScanState(): void {
+    private resetScanState(options: ScanOptions): void {
         this.deletedItems.length = 0;
         this.directoriesScanned = 0;
+        this.directoriesAtLastReport = 0;
         this.errors.length = 0;
+        this.locations.length = 0;
+        this.rejected.length = 0;
+        this.visitedFolders = undefined;
+        this.historyFoldersParsed = 0;
+        this.historyFoldersCached = 0;
+        this.options = options;
+        this.maxScanDepth = ExtensionSettings.getMaxScanDepth();
     }
 }
\ No newline at end of file
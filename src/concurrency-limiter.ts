@@ -0,0 +1,55 @@
+/**
+ * Limits how many asynchronous operations run at the same time.
+ * Operations beyond the limit wait in a FIFO queue until a slot frees up.
+ */
+export class ConcurrencyLimiter {
+    private readonly limit: number;
+    private readonly waiting: (() => void)[] = [];
+    private active = 0;
+
+    /**
+     * @param limit Maximum number of operations allowed to run at once (at least 1)
+     */
+    constructor(limit: number) {
+        this.limit = Math.max(1, Math.floor(limit));
+    }
+
+    /**
+     * Runs the operation as soon as a slot is free and resolves with its result
+     */
+    async run<T>(operation: () => Promise<T>): Promise<T> {
+        await this.acquire();
+
+        try {
+            return await operation();
+        } finally {
+            this.release();
+        }
+    }
+
+    /**
+     * Takes a free slot, waiting in line when all slots are taken
+     */
+    private acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    /**
+     * Hands the slot to the next waiting operation, or frees it
+     */
+    private release(): void {
+        const next = this.waiting.shift();
+
+        if (next) {
+            next();
+            return;
+        }
+
+        this.active--;
+    }
+}
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { ConflictAction, DeletedItem } from './types';
+import { CONFLICT_ACTION_DETAILS, CONFLICT_ACTION_LABELS } from './constants';
+
+/**
+ * Quick Pick entry for a conflict choice
+ */
+interface ConflictPickItem extends vscode.QuickPickItem {
+    action: ConflictAction;
+    applyToAll: boolean;
+}
+
+/** Actions that can be remembered for the rest of a bulk restore */
+const APPLY_TO_ALL_ACTIONS: ConflictAction[] = ['overwrite', 'skip', 'keepBoth'];
+
+/** Actions offered for each individual conflict */
+const PER_ITEM_ACTIONS: ConflictAction[] = ['overwrite', 'skip', 'keepBoth', 'compare'];
+
+/**
+ * Asks the user how to handle restore targets that already exist.
+ *
+ * One resolver is created per restore run; in bulk runs an "apply to all"
+ * choice is remembered and answers every later conflict without prompting.
+ */
+export class ConflictResolver {
+    private readonly allowApplyToAll: boolean;
+    private appliedToAll: ConflictAction | undefined;
+
+    constructor(allowApplyToAll: boolean) {
+        this.allowApplyToAll = allowApplyToAll;
+    }
+
+    /**
+     * Decides what to do with an item whose original path already exists
+     */
+    async resolve(item: DeletedItem): Promise<ConflictAction> {
+        if (this.appliedToAll) {
+            return this.appliedToAll;
+        }
+
+        const selection = await vscode.window.showQuickPick(this.createPickItems(), {
+            placeHolder: `"${item.relativePath}" already exists. How should it be restored?`,
+            ignoreFocusOut: true
+        });
+
+        if (!selection) {
+            return 'skip';
+        }
+
+        if (selection.applyToAll) {
+            this.appliedToAll = selection.action;
+        }
+
+        return selection.action;
+    }
+
+    /**
+     * Builds the per-item choices, plus "apply to all" variants for bulk runs
+     */
+    private createPickItems(): ConflictPickItem[] {
+        const items = PER_ITEM_ACTIONS.map(action => this.createPickItem(action, false));
+
+        if (this.allowApplyToAll) {
+            items.push(...APPLY_TO_ALL_ACTIONS.map(action => this.createPickItem(action, true)));
+        }
+
+        return items;
+    }
+
+    /**
+     * Creates a single Quick Pick entry
+     */
+    private createPickItem(action: ConflictAction, applyToAll: boolean): ConflictPickItem {
+        const label = CONFLICT_ACTION_LABELS[action];
+
+        return {
+            label: applyToAll ? `${label} All` : label,
+            detail: applyToAll ? `${CONFLICT_ACTION_DETAILS[action]} (applies to all remaining conflicts)` : CONFLICT_ACTION_DETAILS[action],
+            action,
+            applyToAll
+        };
+    }
+}
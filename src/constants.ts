@@ -3,47 +3,185 @@
  * Centralizes all magic literals to improve maintainability and clarity
  */
 
-// Timing constants (in milliseconds)
+// Configuration
+export const CONFIGURATION_SECTION = 'minouris-local-history-restore';
+export const SETTINGS = {
+    ADDITIONAL_USER_DATA_DIRECTORIES: 'additionalUserDataDirectories',
+    MAX_SCAN_DEPTH: 'maxScanDepth',
+    REFRESH_DEBOUNCE_DELAY: 'refreshDebounceDelay',
+    INITIAL_SCAN_DELAY: 'initialScanDelay',
+    SCAN_LOCATIONS: 'scanLocations',
+    OPEN_RESTORED_FILES: 'openRestoredFiles',
+    SHADOW_BACKUP_PATTERNS: 'shadowBackupPatterns',
+    IGNORE_PATTERNS: 'ignorePatterns',
+    USE_GITIGNORE: 'useGitIgnore',
+    USE_FILES_EXCLUDE: 'useFilesExclude',
+    IGNORED_ITEMS: 'ignoredItems',
+    MOVED_ITEMS: 'movedItems'
+} as const;
+
+// Locations that can be enabled in the scanLocations setting
+export const SCAN_LOCATIONS = {
+    WORKSPACE_HISTORY: 'workspaceHistory',
+    GLOBAL_HISTORY: 'globalHistory',
+    STORAGE_FOLDERS: 'storageFolders',
+    SHADOW_BACKUPS: 'shadowBackups'
+} as const;
+
+// Timing constants (in milliseconds); defaults for the corresponding settings
 export const REFRESH_DEBOUNCE_DELAY_MS = 500;
 export const INITIAL_ACTIVATION_DELAY_MS = 1000;
 
 // File system constants
-export const MAX_SCAN_DEPTH = 15;
+export const MAX_SCAN_DEPTH = 15; // default for the maxScanDepth setting
 export const ENTRIES_JSON_FILENAME = 'entries.json';
+export const BYTES_PER_KILOBYTE = 1024;
+export const FILE_SIZE_UNITS = ['B', 'KB', 'MB', 'GB'] as const;
+export const MAX_CONCURRENT_FS_OPERATIONS = 16;
+
+// Scan index persisted in the extension's global storage
+export const SCAN_INDEX_FILENAME = 'scan-index.json';
+export const SCAN_INDEX_VERSION = 1;
+
+// Folder deletions recorded in the extension's global storage
+export const DELETED_FOLDERS_FILENAME = 'deleted-folders.json';
+export const MAX_FOLDER_SNAPSHOT_ENTRIES = 10000;
+
+// Shadow backups kept in the extension's global storage for files matching the configured globs
+export const SHADOW_BACKUPS_FOLDER = 'shadow-backups';
+export const SHADOW_BACKUP_SOURCE = 'Shadow backup';
+export const SHADOW_BACKUP_MAX_FILE_SIZE = 5 * 1024 * 1024; // larger files are not copied
+export const SHADOW_BACKUP_MAX_REVISIONS = 10; // per file; older copies are removed
+export const SHADOW_BACKUP_FOLDER_NAME_LENGTH = 16; // hex characters of the resource hash
+export const SHADOW_BACKUP_MAX_EXISTING_FILES = 1000; // copied when a pattern is turned on
+
+// Detecting moved and renamed files by comparing backup content with recently created files
+export const MOVE_DETECTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // files created within this long are candidates
+export const MOVE_DETECTION_MAX_TRACKED_FILES = 1000; // created files remembered from watcher events
+export const MOVE_DETECTION_NAMES_PER_SEARCH = 50; // file names combined into one workspace search
+export const MOVE_DETECTION_MAX_SEARCH_RESULTS = 500; // per workspace search
 
 // Progress reporting
 export const PROGRESS_COMPLETE_PERCENT = 100;
+export const SCAN_PROGRESS_REPORT_INTERVAL = 25; // directories between intermediate progress reports
 
 // UI constants
 export const TOOLTIP_PREVIEW_LINES = 10;
+export const TOOLTIP_PREVIEW_MAX_BYTES = 16 * 1024; // bytes of a backup read for its tooltip preview
+export const TOOLTIP_PREVIEW_MAX_LINE_LENGTH = 120; // longer preview lines are cut off
+export const BINARY_DETECTION_BYTES = 8000; // a NUL byte within this many bytes marks a backup as binary
+
+// Language ids for the code block of tooltip previews, by file extension.
+// Extensions not listed are previewed as plain text.
+export const PREVIEW_LANGUAGE_IDS: Record<string, string> = {
+    '.bat': 'bat',
+    '.c': 'c',
+    '.cpp': 'cpp',
+    '.cs': 'csharp',
+    '.css': 'css',
+    '.go': 'go',
+    '.h': 'c',
+    '.hpp': 'cpp',
+    '.html': 'html',
+    '.java': 'java',
+    '.js': 'javascript',
+    '.json': 'json',
+    '.jsonc': 'jsonc',
+    '.jsx': 'javascriptreact',
+    '.kt': 'kotlin',
+    '.less': 'less',
+    '.lua': 'lua',
+    '.md': 'markdown',
+    '.php': 'php',
+    '.ps1': 'powershell',
+    '.py': 'python',
+    '.rb': 'ruby',
+    '.rs': 'rust',
+    '.scss': 'scss',
+    '.sh': 'shellscript',
+    '.sql': 'sql',
+    '.swift': 'swift',
+    '.toml': 'toml',
+    '.ts': 'typescript',
+    '.tsx': 'typescriptreact',
+    '.vue': 'vue',
+    '.xml': 'xml',
+    '.yaml': 'yaml',
+    '.yml': 'yaml'
+};
 
-// Platform-specific paths
+// Platform-specific application data folders (relative to the home directory).
+// The product folder (e.g. "Code" or "Code - Insiders") goes beneath these.
 export const PLATFORM_PATHS = {
     WIN32: {
-        CODE_USER_DATA: ['AppData', 'Roaming', 'Code', 'User'],
-        WORKSPACE_STORAGE: ['AppData', 'Roaming', 'Code', 'User', 'workspaceStorage'],
-        GLOBAL_STORAGE: ['AppData', 'Roaming', 'Code', 'User', 'globalStorage']
+        APP_DATA: ['AppData', 'Roaming']
     },
     DARWIN: {
-        CODE_USER_DATA: ['Library', 'Application Support', 'Code', 'User'],
-        WORKSPACE_STORAGE: ['Library', 'Application Support', 'Code', 'User', 'workspaceStorage'],
-        GLOBAL_STORAGE: ['Library', 'Application Support', 'Code', 'User', 'globalStorage']
+        APP_DATA: ['Library', 'Application Support']
     },
     LINUX: {
-        CODE_USER_DATA: ['.config', 'Code', 'User'],
-        WORKSPACE_STORAGE: ['.config', 'Code', 'User', 'workspaceStorage'],
-        GLOBAL_STORAGE: ['.config', 'Code', 'User', 'globalStorage'],
-        VSCODE_SERVER_HISTORY: ['.vscode-server', 'data', 'User', 'History'],
-        VSCODE_SERVER_WORKSPACE: ['.vscode-server', 'data', 'User', 'workspaceStorage']
+        APP_DATA: ['.config']
     }
 } as const;
 
+// Folder names inside a VS Code user-data directory
+export const USER_DATA_FOLDERS = {
+    USER: 'User',
+    HISTORY: 'History',
+    WORKSPACE_STORAGE: 'workspaceStorage',
+    GLOBAL_STORAGE: 'globalStorage',
+    SERVER_DATA: 'data'
+} as const;
+
+// Product folder names keyed by vscode.env.appName
+export const DEFAULT_PRODUCT_FOLDER = 'Code';
+export const PRODUCT_FOLDERS: Readonly<Record<string, string>> = {
+    'Visual Studio Code': 'Code',
+    'Visual Studio Code - Insiders': 'Code - Insiders',
+    'Visual Studio Code - Exploration': 'Code - Exploration',
+    'VSCodium': 'VSCodium',
+    'VSCodium - Insiders': 'VSCodium - Insiders',
+    'Code - OSS': 'Code - OSS'
+};
+
+// Remote server folders (in the home directory) keyed by product folder
+export const SERVER_FOLDERS: Readonly<Record<string, string>> = {
+    'Code': '.vscode-server',
+    'Code - Insiders': '.vscode-server-insiders',
+    'VSCodium': '.vscodium-server',
+    'VSCodium - Insiders': '.vscodium-server-insiders',
+    'Code - OSS': '.vscode-server-oss'
+};
+
 // URI schemes
 export const URI_SCHEMES = {
     FILE: 'file://',
     VSCODE_REMOTE: 'vscode-remote://'
 } as const;
 
+// Restore conflict handling
+export const RESTORED_COPY_SUFFIX = ' (restored)';
+export const CONFLICT_ACTION_LABELS = {
+    overwrite: 'Overwrite',
+    skip: 'Skip',
+    keepBoth: 'Keep Both',
+    compare: 'Compare'
+} as const;
+export const CONFLICT_ACTION_DETAILS = {
+    overwrite: 'Replace the existing file with the backup',
+    skip: 'Leave the existing file untouched',
+    keepBoth: `Restore next to the existing file as "name${RESTORED_COPY_SUFFIX}.ext"`,
+    compare: 'Open a diff to merge the backup by hand'
+} as const;
+
+// Virtual document scheme for read-only backup content
+export const BACKUP_URI_SCHEME = 'local-history-backup';
+
+// Read-only file system exposing the deleted hierarchy; a revision is picked with ?revision=<backup file name>
+export const DELETED_ITEMS_URI_SCHEME = 'deleted-items';
+export const DELETED_ITEMS_MOUNT_NAME = 'Deleted Items';
+export const REVISION_QUERY_PARAMETER = 'revision';
+
 // VS Code backup directory names
 export const BACKUP_DIRECTORIES = {
     VSCODE: '.vscode',
@@ -55,13 +193,91 @@ export const BACKUP_DIRECTORIES = {
 // Tree item context values
 export const TREE_ITEM_CONTEXTS = {
     DELETED_ITEM: 'deletedItem',
-    DELETED_FOLDER: 'deletedFolder'
+    DELETED_FOLDER: 'deletedFolder',
+    DELETED_GROUP: 'deletedGroup'
 } as const;
 
+// Theme icons for synthetic group nodes
+export const GROUP_ICONS = {
+    workspaceFolder: 'root-folder',
+    session: 'history',
+    ignored: 'eye-closed'
+} as const;
+
+// Ignore rules
+export const GITIGNORE_FILENAME = '.gitignore';
+export const GITIGNORE_SEARCH_EXCLUDE = '**/node_modules/**'; // .gitignore files of dependencies are not read
+export const GITIGNORE_MAX_FILES = 500; // per workspace folder
+export const IGNORED_GROUP_LABEL = 'Ignored';
+
+// Items deleted at most this far apart belong to the same deletion session
+export const DELETION_SESSION_GAP_MS = 5 * 60 * 1000;
+
+// Workspace state key remembering how the view groups items
+export const GROUPING_MODE_STATE_KEY = 'groupingMode';
+
+// Workspace state key remembering the shadow backup patterns whose existing files were already copied
+export const SHADOW_BACKUP_PATTERNS_STATE_KEY = 'shadowBackupPatterns';
+
+// Context keys used in package.json "when" clauses
+export const CONTEXT_KEYS = {
+    CAN_UNDO_RESTORE: 'minouris-local-history-restore.canUndoRestore',
+    FILTER_ACTIVE: 'minouris-local-history-restore.filterActive',
+    GROUPING_MODE: 'minouris-local-history-restore.groupingMode'
+} as const;
+
+// Date ranges offered by the filter command
+export const FILTER_DATE_RANGES = [
+    { label: 'Any time', withinMs: undefined },
+    { label: 'Deleted in the last hour', withinMs: 60 * 60 * 1000 },
+    { label: 'Deleted in the last 24 hours', withinMs: 24 * 60 * 60 * 1000 },
+    { label: 'Deleted in the last 7 days', withinMs: 7 * 24 * 60 * 60 * 1000 },
+    { label: 'Deleted in the last 30 days', withinMs: 30 * 24 * 60 * 60 * 1000 }
+] as const;
+
+// Compiled globs kept for reuse; the oldest are dropped beyond this
+export const GLOB_CACHE_MAX_ENTRIES = 256;
+
+// Label used for files without an extension in the file-type filter
+export const NO_EXTENSION_LABEL = '(no extension)';
+
 // File status indicators
 export const STATUS_INDICATORS = {
     WARNING: '⚠️ ',
     EXISTS_SUFFIX: ' (EXISTS - might not be truly deleted)',
     BACKUP_MISSING_SUFFIX: ' (BACKUP MISSING)',
     NO_BACKUP_PATH_SUFFIX: ' (NO BACKUP PATH)'
-} as const;
\ No newline at end of file
+} as const;
+
+// Built-in Git extension
+export const GIT_EXTENSION_ID = 'vscode.git';
+export const GIT_HEAD_REF = 'HEAD';
+export const GIT_DELETED_STATUSES: readonly number[] = [
+    2, // Status.INDEX_DELETED: deletion staged with `git rm`
+    6  // Status.DELETED: deleted in the working tree
+];
+export const GIT_STATUS_LABELS = {
+    tracked: 'tracked in git',
+    untracked: 'not tracked in git'
+} as const;
+
+// Export to archive
+export const EXPORT_MANIFEST_FILENAME = 'local-history-export.json';
+export const EXPORT_MANIFEST_VERSION = 1;
+export const TAR_BLOCK_SIZE = 512;
+export const TAR_FILE_MODE = 0o644;
+export const ZIP_VERSION = 20;
+export const ZIP_UTF8_FLAG = 0x0800;
+export const ZIP_DEFLATE_METHOD = 8;
+
+// Scan report
+export const SCAN_REPORT_MAX_LISTED_ENTRIES = 200;
+export const REJECTION_REASON_LABELS = {
+    outsideWorkspace: 'Outside the workspace',
+    stillExists: 'Still exists',
+    ignored: 'Hidden by an ignore rule',
+    moved: 'Moved or renamed (hidden)',
+    noBackupFile: 'No backup file',
+    unknownOriginalPath: 'Original path unknown',
+    unsafeEntryId: 'Only backup files named outside the history folder'
+} as const;
@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeletedFolderRecord, DeletedItem, FolderSnapshotEntry } from './types';
+import { FileSystemUtils } from './file-system-utils';
+import { PathIdentity } from './path-identity';
+import { MAX_FOLDER_SNAPSHOT_ENTRIES } from './constants';
+
+/**
+ * Records folder deletions, with a snapshot of each folder's contents, in a JSON file.
+ *
+ * Folders are snapshotted just before they are deleted so that the tree can show
+ * them, including empty ones, even when none of their files have local history.
+ * A record is dropped once its folder exists again.
+ */
+export class DeletedFolderStore {
+    private readonly storeFilePath: string;
+    private records: Map<string, DeletedFolderRecord> | undefined;
+
+    /**
+     * @param storeFilePath JSON file the records are read from and written to
+     */
+    constructor(storeFilePath: string) {
+        this.storeFilePath = storeFilePath;
+    }
+
+    /**
+     * Snapshots every folder among the URIs about to be deleted and records the deletion
+     */
+    async recordFolderDeletions(uris: readonly vscode.Uri[]): Promise<void> {
+        const records = await this.getRecords();
+        let recorded = false;
+
+        for (const uri of uris) {
+            if (!await this.isDirectory(uri)) {
+                continue;
+            }
+
+            records.set(uri.fsPath, {
+                path: uri.fsPath,
+                uri: uri.toString(),
+                deletionTime: Date.now(),
+                children: await this.snapshotFolder(uri)
+            });
+            recorded = true;
+        }
+
+        if (recorded) {
+            await this.writeStoreFile();
+        }
+    }
+
+    /**
+     * Gets tree items for recorded folders inside the workspace folders that are still deleted.
+     * Each folder yields an item for itself and one for every subfolder it contained.
+     */
+    async getDeletedFolderItems(workspacePaths: readonly string[]): Promise<DeletedItem[]> {
+        await this.dropRecreatedFolders();
+
+        const items: DeletedItem[] = [];
+
+        for (const record of (await this.getRecords()).values()) {
+            const workspaceRoot = this.findContainingWorkspace(record.path, workspacePaths);
+
+            if (workspaceRoot) {
+                items.push(...this.createFolderItems(record, workspaceRoot));
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Lists a folder's contents breadth first, up to MAX_FOLDER_SNAPSHOT_ENTRIES entries
+     */
+    private async snapshotFolder(folderUri: vscode.Uri): Promise<FolderSnapshotEntry[]> {
+        const entries: FolderSnapshotEntry[] = [];
+        const pendingFolders = [''];
+
+        while (pendingFolders.length > 0 && entries.length < MAX_FOLDER_SNAPSHOT_ENTRIES) {
+            const relativeFolder = pendingFolders.shift() ?? '';
+            const children = await this.readDirectory(relativeFolder ? vscode.Uri.joinPath(folderUri, ...relativeFolder.split(path.sep)) : folderUri);
+
+            for (const [name, type] of children) {
+                const relativePath = path.join(relativeFolder, name);
+                const isDirectory = (type & vscode.FileType.Directory) !== 0;
+                entries.push({ relativePath, isDirectory });
+
+                if (isDirectory) {
+                    pendingFolders.push(relativePath);
+                }
+            }
+        }
+
+        return entries.slice(0, MAX_FOLDER_SNAPSHOT_ENTRIES);
+    }
+
+    /**
+     * Removes records whose folder has been created again
+     */
+    private async dropRecreatedFolders(): Promise<void> {
+        const records = await this.getRecords();
+        let dropped = false;
+
+        for (const [folderPath, record] of [...records.entries()]) {
+            if (await FileSystemUtils.uriExists(this.getRecordUri(record))) {
+                records.delete(folderPath);
+                dropped = true;
+            }
+        }
+
+        if (dropped) {
+            await this.writeStoreFile();
+        }
+    }
+
+    /**
+     * Creates the items for a recorded folder and the subfolders in its snapshot
+     */
+    private createFolderItems(record: DeletedFolderRecord, workspaceRoot: string): DeletedItem[] {
+        const deletionTime = new Date(record.deletionTime);
+        const recordUri = this.getRecordUri(record);
+        const folderItem = this.createFolderItem(recordUri, workspaceRoot, deletionTime);
+        folderItem.folderSnapshot = record.children;
+
+        const subfolderItems = record.children
+            .filter(child => child.isDirectory)
+            .map(child => this.createFolderItem(vscode.Uri.joinPath(recordUri, ...child.relativePath.split(/[\\/]/)), workspaceRoot, deletionTime));
+
+        return [folderItem, ...subfolderItems];
+    }
+
+    /**
+     * Creates an empty deleted-folder item
+     */
+    private createFolderItem(folderUri: vscode.Uri, workspaceRoot: string, deletionTime: Date): DeletedItem {
+        return {
+            uri: folderUri,
+            relativePath: PathIdentity.relative(workspaceRoot, folderUri.fsPath) ?? path.relative(workspaceRoot, folderUri.fsPath),
+            isDirectory: true,
+            deletionTime,
+            children: [],
+            workspaceRoot
+        };
+    }
+
+    /**
+     * Gets the URI of a recorded folder; older records only hold a local path
+     */
+    private getRecordUri(record: DeletedFolderRecord): vscode.Uri {
+        return record.uri ? vscode.Uri.parse(record.uri) : vscode.Uri.file(record.path);
+    }
+
+    /**
+     * Checks through VS Code's file system whether a URI is a directory
+     */
+    private async isDirectory(uri: vscode.Uri): Promise<boolean> {
+        try {
+            return ((await vscode.workspace.fs.stat(uri)).type & vscode.FileType.Directory) !== 0;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Lists a directory through VS Code's file system, or nothing if it cannot be read
+     */
+    private async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        try {
+            return await vscode.workspace.fs.readDirectory(uri);
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Finds the innermost workspace folder strictly containing the path
+     */
+    private findContainingWorkspace(folderPath: string, workspacePaths: readonly string[]): string | undefined {
+        return workspacePaths
+            .filter(workspacePath => !PathIdentity.equals(folderPath, workspacePath) && FileSystemUtils.isPathInWorkspace(folderPath, workspacePath))
+            .sort((a, b) => b.length - a.length)[0];
+    }
+
+    /**
+     * Gets the records, reading the store file the first time
+     */
+    private async getRecords(): Promise<Map<string, DeletedFolderRecord>> {
+        if (!this.records) {
+            this.records = await this.readStoreFile();
+        }
+
+        return this.records;
+    }
+
+    /**
+     * Reads the store file, starting empty if it is missing or unreadable and dropping malformed records
+     */
+    private async readStoreFile(): Promise<Map<string, DeletedFolderRecord>> {
+        const stored = await FileSystemUtils.readJsonFileAsync<unknown>(this.storeFilePath);
+
+        if (!Array.isArray(stored)) {
+            return new Map();
+        }
+
+        const records = stored.filter((record): record is DeletedFolderRecord => this.isValidRecord(record));
+        return new Map(records.map(record => [record.path, record]));
+    }
+
+    /**
+     * Checks that a record read from the store file has the shape of a DeletedFolderRecord
+     */
+    private isValidRecord(value: unknown): value is DeletedFolderRecord {
+        return this.isObject(value) &&
+            typeof value.path === 'string' && value.path.length > 0 &&
+            (value.uri === undefined || typeof value.uri === 'string') &&
+            typeof value.deletionTime === 'number' &&
+            Array.isArray(value.children) &&
+            value.children.every(child => this.isObject(child) && typeof child.relativePath === 'string' && typeof child.isDirectory === 'boolean');
+    }
+
+    /**
+     * Checks whether a value is a plain JSON object
+     */
+    private isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Writes all records to the store file, creating its directory if needed
+     */
+    private async writeStoreFile(): Promise<void> {
+        const records = [...(await this.getRecords()).values()];
+
+        try {
+            await fs.promises.mkdir(path.dirname(this.storeFilePath), { recursive: true });
+            await fs.promises.writeFile(this.storeFilePath, JSON.stringify(records));
+        } catch (error) {
+            console.warn(`Could not write deleted folder records ${this.storeFilePath}:`, error);
+        }
+    }
+}
@@ -0,0 +1,262 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BackupRevision, DeletedItem } from './types';
+import { ItemOrganizer } from './item-organizer';
+import { FileSystemUtils } from './file-system-utils';
+import { PathIdentity } from './path-identity';
+import { DELETED_ITEMS_URI_SCHEME, REVISION_QUERY_PARAMETER } from './constants';
+
+/**
+ * Serves the deleted hierarchy as a read-only file system, so the Explorer, search and
+ * diff tools work on deleted content without restoring it.
+ *
+ * With one workspace folder its deleted items sit at the root; with several, each folder
+ * gets a top-level directory named after it. A file reads as its newest backup unless the
+ * URI's query names another revision by its backup file name (`?revision=<name>`).
+ */
+export class DeletedItemsFileSystem implements vscode.FileSystemProvider {
+    private readonly onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this.onDidChangeFileEmitter.event;
+
+    private readonly getItems: () => readonly DeletedItem[];
+    private root: FileSystemNode | undefined;
+
+    /**
+     * @param getItems Gets the current deleted items, as found by the last scan
+     */
+    constructor(getItems: () => readonly DeletedItem[]) {
+        this.getItems = getItems;
+    }
+
+    /**
+     * Gets the URI of the file system's root, which is mounted as a workspace folder
+     */
+    static getRootUri(): vscode.Uri {
+        return vscode.Uri.from({ scheme: DELETED_ITEMS_URI_SCHEME, path: '/' });
+    }
+
+    /**
+     * Creates the URI of a deleted item, optionally pointing at one of its older revisions
+     */
+    static createUri(item: DeletedItem, revision?: BackupRevision): vscode.Uri {
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
+        const folder = workspaceFolders.length > 1 && item.workspaceRoot
+            ? workspaceFolders.find(candidate => PathIdentity.equals(candidate.uri.fsPath, item.workspaceRoot!))
+            : undefined;
+        const segments = [...(folder ? [folder.name] : []), ...item.relativePath.split(/[\\/]/).filter(segment => segment.length > 0)];
+
+        return vscode.Uri.from({
+            scheme: DELETED_ITEMS_URI_SCHEME,
+            path: `/${segments.join('/')}`,
+            query: revision ? `${REVISION_QUERY_PARAMETER}=${encodeURIComponent(path.basename(revision.path))}` : ''
+        });
+    }
+
+    /**
+     * Rebuilds the hierarchy from the current items and tells open editors and views to reload
+     */
+    refresh(): void {
+        this.root = undefined;
+        this.onDidChangeFileEmitter.fire([{ type: vscode.FileChangeType.Changed, uri: DeletedItemsFileSystem.getRootUri() }]);
+    }
+
+    /**
+     * Ignores watch requests; every change is reported for the whole file system on refresh
+     */
+    watch(): vscode.Disposable {
+        return { dispose: () => undefined };
+    }
+
+    /**
+     * Gets the type, times and size of a deleted file or folder; files are dated by their deletion
+     */
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const node = this.findNode(uri);
+        const stat = { type: node.type, ctime: node.mtime, mtime: node.mtime, size: 0, permissions: vscode.FilePermission.Readonly };
+
+        if (!node.item) {
+            return stat;
+        }
+
+        const stats = await FileSystemUtils.getFileStatsAsync(this.getBackupPath(node.item, uri));
+        if (!stats) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        return { ...stat, size: stats.size };
+    }
+
+    /**
+     * Lists the deleted files and folders directly inside a folder
+     */
+    readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+        const node = this.findNode(uri);
+
+        if (node.type !== vscode.FileType.Directory) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+
+        return [...node.children].map(([name, child]) => [name, child.type]);
+    }
+
+    /**
+     * Reads the backup of a deleted file: the newest one, or the revision named in the query
+     */
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const node = this.findNode(uri);
+
+        if (!node.item) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+
+        try {
+            return await vscode.workspace.fs.readFile(vscode.Uri.file(this.getBackupPath(node.item, uri)));
+        } catch {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+    }
+
+    /**
+     * Refuses to create folders; deleted items are read-only
+     */
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    /**
+     * Refuses to write files; deleted items are read-only
+     */
+    writeFile(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    /**
+     * Refuses to delete; deleted items are read-only
+     */
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    /**
+     * Refuses to rename; deleted items are read-only
+     */
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+
+    /**
+     * Finds the node a URI's path points at
+     */
+    private findNode(uri: vscode.Uri): FileSystemNode {
+        let node = this.getRoot();
+
+        for (const segment of uri.path.split('/').filter(part => part.length > 0)) {
+            const child = node.children.get(segment);
+
+            if (!child) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            node = child;
+        }
+
+        return node;
+    }
+
+    /**
+     * Gets the backup file a file URI reads from, throwing if the revision it names does not exist
+     */
+    private getBackupPath(item: DeletedItem, uri: vscode.Uri): string {
+        const revisionName = new URLSearchParams(uri.query).get(REVISION_QUERY_PARAMETER);
+
+        if (!revisionName) {
+            return item.backupPath!;
+        }
+
+        const revision = item.revisions?.find(candidate => path.basename(candidate.path) === revisionName);
+        if (!revision) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        return revision.path;
+    }
+
+    /**
+     * Gets the root node, building the hierarchy on first use after a refresh
+     */
+    private getRoot(): FileSystemNode {
+        this.root ??= this.buildTree();
+        return this.root;
+    }
+
+    /**
+     * Builds the hierarchy of every workspace folder's deleted items, as organized for the folder view
+     */
+    private buildTree(): FileSystemNode {
+        const root = this.createDirectoryNode(new Date(0));
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
+        const items = this.getItems();
+
+        for (const folder of workspaceFolders) {
+            const folderItems = items.filter(item => item.workspaceRoot
+                ? PathIdentity.equals(item.workspaceRoot, folder.uri.fsPath)
+                : folder === workspaceFolders[0]);
+            const organized = new ItemOrganizer(folder.uri.fsPath, folder.uri).organizeItemsByFolder(folderItems);
+
+            if (workspaceFolders.length === 1) {
+                this.addItems(root, organized);
+            } else if (organized.length > 0) {
+                const folderNode = this.createDirectoryNode(new Date(0));
+                this.addItems(folderNode, organized);
+                root.children.set(folder.name, folderNode);
+                root.mtime = Math.max(root.mtime, folderNode.mtime);
+            }
+        }
+
+        return root;
+    }
+
+    /**
+     * Adds organized items beneath a directory node; files without a backup have no content and are left out
+     */
+    private addItems(parent: FileSystemNode, items: readonly DeletedItem[]): void {
+        for (const item of items) {
+            const name = item.relativePath.split(/[\\/]/).filter(segment => segment.length > 0).pop();
+
+            if (!name) {
+                continue;
+            }
+
+            if (item.isDirectory) {
+                const folderNode = parent.children.get(name) ?? this.createDirectoryNode(item.deletionTime);
+                this.addItems(folderNode, item.children ?? []);
+                parent.children.set(name, folderNode);
+            } else if (item.backupPath) {
+                parent.children.set(name, { type: vscode.FileType.File, mtime: item.deletionTime.getTime(), item, children: new Map() });
+            }
+
+            parent.mtime = Math.max(parent.mtime, item.deletionTime.getTime());
+        }
+    }
+
+    /**
+     * Creates an empty directory node
+     */
+    private createDirectoryNode(deletionTime: Date): FileSystemNode {
+        return { type: vscode.FileType.Directory, mtime: deletionTime.getTime(), children: new Map() };
+    }
+}
+
+/**
+ * A file or folder in the deleted hierarchy
+ */
+interface FileSystemNode {
+    type: vscode.FileType;
+
+    /** Deletion time in milliseconds, the latest one beneath it for folders */
+    mtime: number;
+
+    /** The deleted file a file node reads from; unset for folders */
+    item?: DeletedItem;
+
+    children: Map<string, FileSystemNode>;
+}
@@ -1,11 +1,26 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { DeletedItem } from './types';
+import { BackupPreview, CompletedScan, DeletedItem, DeletedItemsFilter, FileChangeBatch, GroupingMode, ScanOptions } from './types';
 import { BackupScanner } from './backup-scanner';
 import { ItemOrganizer } from './item-organizer';
 import { FileSystemUtils } from './file-system-utils';
+import { UserDataLocator } from './user-data-locator';
+import { ScanIndex } from './scan-index';
+import { DeletedFolderStore } from './deleted-folder-store';
+import { ShadowBackupStore } from './shadow-backup-store';
+import { ItemFilter } from './item-filter';
+import { GitIntegration } from './git-integration';
+import { PathIdentity } from './path-identity';
+import { BackupPreviewReader } from './backup-preview-reader';
+import { MoveDetector } from './move-detector';
+import { ExtensionSettings } from './extension-settings';
 import { 
     TREE_ITEM_CONTEXTS, 
-    STATUS_INDICATORS 
+    STATUS_INDICATORS,
+    GROUP_ICONS,
+    CONTEXT_KEYS,
+    IGNORED_GROUP_LABEL,
+    GIT_STATUS_LABELS
 } from './constants';
 
 /**
@@ -17,16 +32,105 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
 
     private deletedItems: DeletedItem[] = [];
     private organizedItems: DeletedItem[] = [];
+    private filter: DeletedItemsFilter | undefined;
+    private groupingMode: GroupingMode = 'folder';
+    private lastScan: CompletedScan | undefined;
+    private pendingUpdate: Promise<void> = Promise.resolve();
+    private readonly userDataLocator: UserDataLocator | undefined;
+    private readonly scanIndex: ScanIndex | undefined;
+    private readonly deletedFolderStore: DeletedFolderStore | undefined;
+    private readonly shadowBackupStore: ShadowBackupStore | undefined;
+    private readonly gitIntegration: GitIntegration | undefined;
+    private readonly moveDetector: MoveDetector | undefined;
 
     /**
-     * Refreshes the tree by scanning for deleted items and reorganizing
+     * @param userDataLocator Finds the user-data directories to scan; platform defaults are used if omitted
+     * @param scanIndex Persistent cache that lets refreshes skip unchanged history folders
+     * @param deletedFolderStore Recorded folder deletions to show alongside files from local history
+     * @param shadowBackupStore Shadow backups to scan as an additional history source
+     * @param gitIntegration Marks files git can restore from HEAD
+     * @param moveDetector Marks files that were moved or renamed rather than deleted
      */
-    async refresh(): Promise<void> {
-        await this.loadDeletedItems();
+    constructor(
+        userDataLocator?: UserDataLocator,
+        scanIndex?: ScanIndex,
+        deletedFolderStore?: DeletedFolderStore,
+        shadowBackupStore?: ShadowBackupStore,
+        gitIntegration?: GitIntegration,
+        moveDetector?: MoveDetector
+    ) {
+        this.userDataLocator = userDataLocator;
+        this.scanIndex = scanIndex;
+        this.deletedFolderStore = deletedFolderStore;
+        this.shadowBackupStore = shadowBackupStore;
+        this.gitIntegration = gitIntegration;
+        this.moveDetector = moveDetector;
+    }
+
+    /**
+     * Refreshes the tree by scanning for deleted items and reorganizing.
+     * A cancelled scan keeps the previously loaded items.
+     * Waits for earlier refreshes and watcher updates to finish first.
+     */
+    async refresh(options: ScanOptions = {}): Promise<void> {
+        await this.runInOrder(() => this.reload(options));
+    }
+
+    /**
+     * Applies watcher changes without a full rescan: recreated files leave the tree and
+     * deleted paths are looked up in their history folders and inserted, and items whose
+     * content was just created elsewhere are marked moved. Only the changed subtrees are
+     * refreshed. Without a scan index this falls back to a full refresh.
+     * Waits for earlier refreshes and watcher updates to finish first.
+     */
+    async applyFileChanges(changes: FileChangeBatch): Promise<void> {
+        await this.runInOrder(() => this.scanIndex ? this.applyChanges(changes) : this.reload({}));
+    }
+
+    /**
+     * Shows only items matching the filter, keeping their ancestor folders; an empty filter shows everything
+     */
+    async setFilter(filter: DeletedItemsFilter | undefined): Promise<void> {
+        this.filter = ItemFilter.isActive(filter) ? filter : undefined;
+        await vscode.commands.executeCommand('setContext', CONTEXT_KEYS.FILTER_ACTIVE, !!this.filter);
+        this.notifyTreeChanged();
+    }
+
+    /**
+     * Switches between the folder hierarchy, deletion sessions and a flat list
+     */
+    async setGroupingMode(mode: GroupingMode): Promise<void> {
+        this.groupingMode = mode;
+        await vscode.commands.executeCommand('setContext', CONTEXT_KEYS.GROUPING_MODE, mode);
         this.organizeItems();
         this.notifyTreeChanged();
     }
 
+    /**
+     * Gets how the view currently groups items
+     */
+    getGroupingMode(): GroupingMode {
+        return this.groupingMode;
+    }
+
+    /**
+     * Gets the active filter, or undefined if everything is shown
+     */
+    getFilter(): DeletedItemsFilter | undefined {
+        return this.filter;
+    }
+
+    /**
+     * Lists the distinct file types among the deleted files, sorted
+     */
+    getFileTypes(): string[] {
+        const fileTypes = this.deletedItems
+            .filter(item => !item.isDirectory)
+            .map(item => ItemFilter.getFileType(item));
+
+        return [...new Set(fileTypes)].sort();
+    }
+
     /**
      * Gets tree item representation for VS Code's tree view
      */
@@ -36,12 +140,24 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
             this.createFileTreeItem(element);
     }
 
+    /**
+     * Fills in a file's tooltip when it is first hovered, with a preview of its backup.
+     * Folder tooltips are set up front and left as they are.
+     */
+    async resolveTreeItem(item: vscode.TreeItem, element: DeletedItem): Promise<vscode.TreeItem> {
+        if (!element.isDirectory && item.tooltip === undefined) {
+            item.tooltip = await this.createFileTooltip(element, this.analyzeFileStatus(element));
+        }
+
+        return item;
+    }
+
     /**
      * Gets children for tree expansion
      */
     getChildren(element?: DeletedItem): Thenable<DeletedItem[]> {
         if (!element) {
-            return Promise.resolve(this.organizedItems);
+            return Promise.resolve(this.getVisibleItems());
         }
         
         if (element.isDirectory && element.children) {
@@ -58,6 +174,13 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
         return null;
     }
 
+    /**
+     * Gets the result of the last full scan, or undefined if none has completed yet
+     */
+    getLastScan(): CompletedScan | undefined {
+        return this.lastScan;
+    }
+
     /**
      * Gets all deleted items for multi-select operations
      */
@@ -65,13 +188,65 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
         return [...this.deletedItems];
     }
 
+    /**
+     * Runs an update of the loaded items after every update started before it, so a full
+     * reload never replaces items while a watcher update is changing them, or the other way round
+     */
+    private runInOrder(update: () => Promise<void>): Promise<void> {
+        const result = this.pendingUpdate.then(update);
+        this.pendingUpdate = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Scans for deleted items, replacing the loaded ones, and reorganizes the tree
+     */
+    private async reload(options: ScanOptions): Promise<void> {
+        await this.loadDeletedItems(options);
+        this.organizeItems();
+        this.notifyTreeChanged();
+    }
+
+    /**
+     * Applies watcher changes to the loaded items, refreshing only the changed subtrees
+     */
+    private async applyChanges(changes: FileChangeBatch): Promise<void> {
+        const changedNodes = new Set<DeletedItem | undefined>();
+
+        this.moveDetector?.recordCreatedFiles(changes.created);
+        this.removeRecreatedItems(changes.created, changedNodes);
+        await this.insertDeletedItems(changes.deleted, changedNodes);
+        await this.markMovedItems(changes.created, changedNodes);
+
+        if (await this.syncDeletedFolders()) {
+            this.organizeItems();
+            changedNodes.add(undefined);
+        }
+
+        this.notifyNodesChanged(changedNodes);
+    }
+
+    /**
+     * Gets the top-level items, pruned to the filter when one is active
+     */
+    private getVisibleItems(): DeletedItem[] {
+        const filter = this.filter;
+
+        if (!filter) {
+            return this.organizedItems;
+        }
+
+        const now = Date.now();
+        return ItemOrganizer.pruneItems(this.organizedItems, item => ItemFilter.matches(item, filter, now));
+    }
+
     /**
      * Loads deleted items from backup locations
      */
-    private async loadDeletedItems(): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
+    private async loadDeletedItems(options: ScanOptions): Promise<void> {
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
         
-        if (!workspaceFolders?.length) {
+        if (workspaceFolders.length === 0) {
             console.log('No workspace folders found');
             this.deletedItems = [];
             return;
@@ -80,75 +255,345 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
         console.log('Starting scan for deleted items...');
         
         try {
-            const scanResults = await this.scanWorkspaceFolders(workspaceFolders);
-            this.deletedItems = scanResults;
+            const scanResults = await this.scanWorkspaceFolders(workspaceFolders, options);
+            this.deletedItems = [...scanResults, ...await this.loadDeletedFolderItems(workspaceFolders)];
             console.log(`Scan complete. Found ${this.deletedItems.length} deleted items`);
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                console.log('Scan cancelled, keeping previous results');
+                return;
+            }
+
             console.error('Failed to scan for deleted items:', error);
             this.deletedItems = [];
         }
     }
 
     /**
-     * Scans all workspace folders for deleted items
+     * Scans all workspace folders for deleted items in a single pass over the backup locations
+     */
+    private async scanWorkspaceFolders(
+        workspaceFolders: readonly vscode.WorkspaceFolder[],
+        options: ScanOptions
+    ): Promise<DeletedItem[]> {
+        console.log(`Scanning workspace folders: ${workspaceFolders.map(folder => folder.uri.fsPath).join(', ')}`);
+
+        const scanResult = await this.createScanner(workspaceFolders).scanAllBackupLocations(options);
+        this.lastScan = {
+            result: scanResult,
+            workspaceFolders: workspaceFolders.map(folder => folder.uri.fsPath),
+            completedAt: new Date()
+        };
+
+        if (scanResult.errors.length > 0) {
+            console.warn('Scan errors:', scanResult.errors);
+        }
+
+        return scanResult.items;
+    }
+
+    /**
+     * Loads the recorded folder deletions inside the workspace folders
+     */
+    private async loadDeletedFolderItems(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DeletedItem[]> {
+        if (!this.deletedFolderStore) {
+            return [];
+        }
+
+        return this.deletedFolderStore.getDeletedFolderItems(workspaceFolders.map(folder => folder.uri.fsPath));
+    }
+
+    /**
+     * Replaces the recorded folder items if the recorded deletions changed.
+     * Returns true if the tree needs to be reorganized.
+     */
+    private async syncDeletedFolders(): Promise<boolean> {
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
+
+        if (!this.deletedFolderStore || workspaceFolders.length === 0) {
+            return false;
+        }
+
+        const folderItems = await this.loadDeletedFolderItems(workspaceFolders);
+        const describe = (items: DeletedItem[]) => items.map(item => item.uri.fsPath).sort().join('\n');
+        const currentFolderItems = this.deletedItems.filter(item => item.isDirectory);
+
+        if (describe(folderItems) === describe(currentFolderItems)) {
+            return false;
+        }
+
+        this.deletedItems = [...this.deletedItems.filter(item => !item.isDirectory), ...folderItems];
+        return true;
+    }
+
+    /**
+     * Creates a scanner for the given workspace folders
+     */
+    private createScanner(workspaceFolders: readonly vscode.WorkspaceFolder[]): BackupScanner {
+        return new BackupScanner(
+            workspaceFolders.map(folder => folder.uri),
+            this.userDataLocator?.getUserDataDirectories(),
+            this.scanIndex,
+            this.shadowBackupStore ? [this.shadowBackupStore.getHistoryDirectory()] : [],
+            this.gitIntegration,
+            this.moveDetector
+        );
+    }
+
+    /**
+     * Drops items whose original path has been created again
+     */
+    private removeRecreatedItems(created: readonly vscode.Uri[], changedNodes: Set<DeletedItem | undefined>): void {
+        const createdPaths = new Set(created.map(uri => PathIdentity.toKey(uri.fsPath)));
+        const recreatedItems = this.deletedItems.filter(item => createdPaths.has(PathIdentity.toKey(item.uri.fsPath)));
+
+        for (const item of recreatedItems) {
+            this.removeItemFromTree(item, changedNodes);
+        }
+    }
+
+    /**
+     * Scans the history folders of newly deleted paths and inserts what they hold
+     */
+    private async insertDeletedItems(deleted: readonly vscode.Uri[], changedNodes: Set<DeletedItem | undefined>): Promise<void> {
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
+
+        if (deleted.length === 0 || workspaceFolders.length === 0) {
+            return;
+        }
+
+        try {
+            const scanResult = await this.createScanner(workspaceFolders).scanDeletedPaths(deleted.map(uri => uri.fsPath));
+
+            for (const item of scanResult.items) {
+                const previous = this.deletedItems.find(existing => PathIdentity.equals(existing.uri.fsPath, item.uri.fsPath));
+                if (previous) {
+                    this.removeItemFromTree(previous, changedNodes);
+                }
+                this.insertItemIntoTree(item, changedNodes);
+            }
+        } catch (error) {
+            console.error('Failed to scan deleted paths:', error);
+        }
+    }
+
+    /**
+     * Marks items whose content matches a newly created file as moved there,
+     * or drops them when moved items are hidden
+     */
+    private async markMovedItems(created: readonly vscode.Uri[], changedNodes: Set<DeletedItem | undefined>): Promise<void> {
+        if (!this.moveDetector || created.length === 0) {
+            return;
+        }
+
+        try {
+            const moves = await this.moveDetector.findMovesAmong(this.deletedItems, created);
+            const hideMoved = ExtensionSettings.getMovedItemsDisplay() === 'hide';
+
+            for (const [item, movedTo] of moves) {
+                this.removeItemFromTree(item, changedNodes);
+
+                if (!hideMoved) {
+                    item.movedTo = movedTo;
+                    this.insertItemIntoTree(item, changedNodes);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to detect moved files:', error);
+        }
+    }
+
+    /**
+     * Adds an item to the flat list and the organized tree, recording the changed node
      */
-    private async scanWorkspaceFolders(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<DeletedItem[]> {
-        const allItems: DeletedItem[] = [];
+    private insertItemIntoTree(item: DeletedItem, changedNodes: Set<DeletedItem | undefined>): void {
+        this.deletedItems.push(item);
+        const container = this.findContainer(item);
+
+        if (!container) {
+            this.organizeItems();
+            changedNodes.add(undefined);
+            return;
+        }
+
+        const changedNode = this.createOrganizer(container).insertItem(container.items, item);
+        if (container.node && item.deletionTime > container.node.deletionTime) {
+            container.node.deletionTime = item.deletionTime;
+        }
+
+        changedNodes.add(changedNode ?? container.node);
+    }
 
-        for (const workspaceFolder of workspaceFolders) {
-            console.log(`Scanning workspace folder: ${workspaceFolder.uri.fsPath}`);
-            
-            const scanner = new BackupScanner(workspaceFolder.uri.fsPath);
-            const scanResult = await scanner.scanAllBackupLocations();
-            
-            allItems.push(...scanResult.items);
-            
-            if (scanResult.errors.length > 0) {
-                console.warn(`Scan errors for ${workspaceFolder.name}:`, scanResult.errors);
+    /**
+     * Removes an item from the flat list and the organized tree, recording the changed node
+     */
+    private removeItemFromTree(item: DeletedItem, changedNodes: Set<DeletedItem | undefined>): void {
+        this.deletedItems = this.deletedItems.filter(existing => existing !== item);
+        const container = this.findContainer(item);
+
+        if (!container) {
+            if (!this.canUpdateInPlace(item)) {
+                this.organizeItems();
+                changedNodes.add(undefined);
             }
+            return;
         }
 
-        return allItems;
+        const changedNode = this.createOrganizer(container).removeItem(container.items, item);
+        changedNodes.add(changedNode ?? container.node);
+
+        if (container.node && container.items.length === 0) {
+            this.organizedItems = this.organizedItems.filter(node => node !== container.node);
+            changedNodes.add(undefined);
+        }
     }
 
     /**
-     * Organizes flat list of items into hierarchical structure
+     * Finds the list an item is organized in: the root list for a single folder,
+     * or its workspace folder's group node. Returns undefined if the group does not exist yet
+     * or the item cannot be updated in place, in which case the tree has to be reorganized.
+     */
+    private findContainer(item: DeletedItem): TreeContainer | undefined {
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
+
+        if (!this.canUpdateInPlace(item)) {
+            return undefined;
+        }
+
+        if (workspaceFolders.length === 1) {
+            return { items: this.organizedItems, node: undefined, workspaceRoot: workspaceFolders[0].uri.fsPath };
+        }
+
+        const groupNode = this.organizedItems.find(node => node.group && node.workspaceRoot === item.workspaceRoot);
+
+        if (!groupNode?.children || !groupNode.workspaceRoot) {
+            return undefined;
+        }
+
+        return { items: groupNode.children, node: groupNode, workspaceRoot: groupNode.workspaceRoot };
+    }
+
+    /**
+     * Checks whether an item can be inserted or removed without reorganizing: only
+     * items in the folder hierarchy can, not those in sessions, the flat list or the Ignored group
+     */
+    private canUpdateInPlace(item: DeletedItem): boolean {
+        return this.groupingMode === 'folder' && !item.ignoredBy;
+    }
+
+    /**
+     * Creates an organizer for the workspace folder of a container
+     */
+    private createOrganizer(container: TreeContainer): ItemOrganizer {
+        const folder = FileSystemUtils.getWorkspaceFolders().find(candidate => PathIdentity.equals(candidate.uri.fsPath, container.workspaceRoot));
+        return new ItemOrganizer(container.workspaceRoot, folder?.uri);
+    }
+
+    /**
+     * Organizes flat list of items into hierarchical structure, one top-level
+     * node per workspace folder when more than one folder is open
      */
     private organizeItems(): void {
-        const workspaceRoot = this.getWorkspaceRoot();
-        
-        if (!workspaceRoot) {
+        const workspaceFolders = FileSystemUtils.getWorkspaceFolders();
+
+        if (workspaceFolders.length === 0) {
             this.organizedItems = [];
             return;
         }
 
-        const organizer = new ItemOrganizer(workspaceRoot);
-        this.organizedItems = organizer.organizeItemsByFolder(this.deletedItems);
+        if (workspaceFolders.length === 1) {
+            this.organizedItems = this.organizeFolderItems(workspaceFolders[0], this.deletedItems);
+            return;
+        }
+
+        this.organizedItems = workspaceFolders
+            .map(folder => this.createWorkspaceFolderNode(folder))
+            .filter(node => node.children?.length);
+    }
+
+    /**
+     * Creates the top-level group node holding one workspace folder's items
+     */
+    private createWorkspaceFolderNode(folder: vscode.WorkspaceFolder): DeletedItem {
+        const folderItems = this.deletedItems.filter(item => item.workspaceRoot !== undefined && PathIdentity.equals(item.workspaceRoot, folder.uri.fsPath));
+        const children = this.organizeFolderItems(folder, folderItems);
+        const latestDeletion = folderItems.reduce(
+            (latest, item) => item.deletionTime > latest ? item.deletionTime : latest,
+            new Date(0)
+        );
+
+        return {
+            uri: folder.uri,
+            relativePath: '',
+            isDirectory: true,
+            deletionTime: latestDeletion,
+            children,
+            workspaceRoot: folder.uri.fsPath,
+            group: { kind: 'workspaceFolder', label: folder.name }
+        };
+    }
+
+    /**
+     * Organizes items relative to their own workspace folder, grouped by the current mode,
+     * with ignored items in a trailing Ignored group
+     */
+    private organizeFolderItems(folder: vscode.WorkspaceFolder, items: DeletedItem[]): DeletedItem[] {
+        const organizer = new ItemOrganizer(folder.uri.fsPath, folder.uri);
+        const ignoredItems = items.filter(item => item.ignoredBy);
+        const organized = this.organizeByMode(organizer, items.filter(item => !item.ignoredBy));
+
+        if (ignoredItems.length > 0) {
+            organized.push(this.createIgnoredGroupNode(folder, this.organizeByMode(organizer, ignoredItems)));
+        }
+
+        return organized;
     }
 
     /**
-     * Gets the workspace root path
+     * Creates the group node holding a workspace folder's ignored items
      */
-    private getWorkspaceRoot(): string {
-        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    private createIgnoredGroupNode(folder: vscode.WorkspaceFolder, children: DeletedItem[]): DeletedItem {
+        return {
+            uri: folder.uri,
+            relativePath: '',
+            isDirectory: true,
+            deletionTime: children.reduce((latest, item) => item.deletionTime > latest ? item.deletionTime : latest, new Date(0)),
+            children,
+            workspaceRoot: folder.uri.fsPath,
+            group: { kind: 'ignored', label: IGNORED_GROUP_LABEL }
+        };
+    }
+
+    /**
+     * Organizes items as a folder hierarchy, deletion sessions or a flat list
+     */
+    private organizeByMode(organizer: ItemOrganizer, items: DeletedItem[]): DeletedItem[] {
+        switch (this.groupingMode) {
+            case 'session':
+                return organizer.organizeItemsBySession(items);
+            case 'flat':
+                return organizer.organizeItemsFlat(items);
+            default:
+                return organizer.organizeItemsByFolder(items);
+        }
     }
 
     /**
      * Creates tree item for folder display
      */
     private createFolderTreeItem(element: DeletedItem): vscode.TreeItem {
-        const displayName = this.getFolderDisplayName(element);
+        const displayName = element.group?.label ?? this.getFolderDisplayName(element);
         const fileCount = element.children?.length || 0;
 
         const treeItem = new vscode.TreeItem(
             displayName,
-            vscode.TreeItemCollapsibleState.Expanded
+            element.group?.kind === 'ignored' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded
         );
 
         treeItem.tooltip = this.createFolderTooltip(element, fileCount);
         treeItem.description = `${fileCount} file(s)`;
-        treeItem.contextValue = TREE_ITEM_CONTEXTS.DELETED_FOLDER;
-        treeItem.iconPath = vscode.ThemeIcon.Folder;
+        treeItem.contextValue = element.group ? TREE_ITEM_CONTEXTS.DELETED_GROUP : TREE_ITEM_CONTEXTS.DELETED_FOLDER;
+        treeItem.iconPath = element.group ? new vscode.ThemeIcon(GROUP_ICONS[element.group.kind]) : vscode.ThemeIcon.Folder;
 
         return treeItem;
     }
@@ -165,7 +610,6 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
             vscode.TreeItemCollapsibleState.None
         );
 
-        treeItem.tooltip = this.createFileTooltip(element, fileStatus);
         treeItem.description = this.createFileDescription(element, fileStatus);
         treeItem.contextValue = TREE_ITEM_CONTEXTS.DELETED_ITEM;
         
@@ -193,7 +637,8 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
      * Analyzes file status for display purposes
      */
     private analyzeFileStatus(element: DeletedItem): FileStatusInfo {
-        const fileExists = FileSystemUtils.fileExists(element.uri.fsPath);
+        // Remote files cannot be checked synchronously; the scan has already found them missing
+        const fileExists = element.uri.scheme === 'file' && FileSystemUtils.fileExists(element.uri.fsPath);
         const backupExists = element.backupPath ? FileSystemUtils.fileExists(element.backupPath) : false;
         
         return {
@@ -208,14 +653,63 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
      * Creates tooltip for folders
      */
     private createFolderTooltip(element: DeletedItem, fileCount: number): string {
-        return `Folder with ${fileCount} deleted file(s)\nLatest deletion: ${element.deletionTime.toLocaleString()}`;
+        const tooltip = `Folder with ${fileCount} deleted file(s)\nLatest deletion: ${element.deletionTime.toLocaleString()}`;
+
+        if (!element.folderSnapshot) {
+            return tooltip;
+        }
+
+        return `${tooltip}\nDeleted folder, contained ${element.folderSnapshot.length} item(s) when deleted`;
+    }
+
+    /**
+     * Creates the Markdown tooltip for files: details, size and revision count, then the start of the backup
+     */
+    private async createFileTooltip(element: DeletedItem, status: FileStatusInfo): Promise<vscode.MarkdownString> {
+        const preview = status.backupExists && element.backupPath ? await BackupPreviewReader.read(element.backupPath) : null;
+        const tooltip = new vscode.MarkdownString();
+
+        tooltip.appendText(this.createFileDetails(element, status, preview));
+
+        if (element.movedTo) {
+            const label = this.getMovedToLabel(element).replace(/[\\[\]]/g, '\\$&');
+            tooltip.appendMarkdown(`\n\nMoved to [${label}](${element.movedTo.toString()})`);
+        }
+
+        if (preview?.binary) {
+            tooltip.appendMarkdown(`\n\n---\n\n_binary, ${FileSystemUtils.formatFileSize(preview.size)}_`);
+        } else if (preview && preview.lines.length > 0) {
+            tooltip.appendMarkdown('\n\n---\n');
+            tooltip.appendCodeblock(preview.lines.join('\n'), BackupPreviewReader.getLanguageId(element.relativePath));
+
+            if (preview.truncated) {
+                tooltip.appendMarkdown(`_First ${preview.lines.length} line(s) of the newest backup_`);
+            }
+        }
+
+        return tooltip;
     }
 
     /**
-     * Creates tooltip for files
+     * Creates the plain-text details at the top of a file's tooltip
      */
-    private createFileTooltip(element: DeletedItem, status: FileStatusInfo): string {
+    private createFileDetails(element: DeletedItem, status: FileStatusInfo, preview: BackupPreview | null): string {
         let tooltip = `Deleted: ${element.deletionTime.toLocaleString()}\nPath: ${element.relativePath}\nBackup: ${element.backupPath || 'N/A'}`;
+
+        if (preview) {
+            const revisionCount = element.revisions?.length ?? 1;
+            tooltip += `\nSize: ${FileSystemUtils.formatFileSize(preview.size)} · ${revisionCount} ${revisionCount === 1 ? 'revision' : 'revisions'}`;
+        }
+
+        if (element.ignoredBy) {
+            tooltip += `\nIgnored by ${element.ignoredBy}`;
+        }
+
+        if (element.gitStatus) {
+            tooltip += element.gitStatus === 'tracked'
+                ? '\nGit: in HEAD, can also be restored from git'
+                : '\nGit: not in HEAD, only local history has it';
+        }
         
         if (status.fileExists) {
             tooltip += STATUS_INDICATORS.EXISTS_SUFFIX;
@@ -237,6 +731,20 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
      */
     private createFileDescription(element: DeletedItem, status: FileStatusInfo): string {
         let description = element.deletionTime.toLocaleDateString();
+        const location = path.dirname(element.relativePath);
+
+        // Without the folder hierarchy, show where the file was
+        if (this.groupingMode !== 'folder' && location !== '.') {
+            description = `${location} · ${description}`;
+        }
+
+        if (element.gitStatus) {
+            description = `${description} · ${GIT_STATUS_LABELS[element.gitStatus]}`;
+        }
+
+        if (element.movedTo) {
+            description = `${description} · moved to ${this.getMovedToLabel(element)}`;
+        }
         
         if (status.hasIssues) {
             description = STATUS_INDICATORS.WARNING + description;
@@ -245,6 +753,16 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
         return description;
     }
 
+    /**
+     * Gets where a moved file went, relative to its workspace folder when it stayed inside it
+     */
+    private getMovedToLabel(element: DeletedItem): string {
+        const movedToPath = element.movedTo!.fsPath;
+        const relativePath = element.workspaceRoot ? PathIdentity.relative(element.workspaceRoot, movedToPath) : null;
+
+        return relativePath || movedToPath;
+    }
+
     /**
      * Sets appropriate icon for files
      */
@@ -264,6 +782,39 @@ export class DeletedItemsProvider implements vscode.TreeDataProvider<DeletedItem
     private notifyTreeChanged(): void {
         this.onDidChangeTreeDataEmitter.fire();
     }
+
+    /**
+     * Refreshes only the changed subtrees, or the whole tree if the root changed.
+     * While filtering, the view shows pruned copies of the nodes, so the whole tree is refreshed.
+     */
+    private notifyNodesChanged(changedNodes: Set<DeletedItem | undefined>): void {
+        if (changedNodes.size === 0) {
+            return;
+        }
+
+        if (changedNodes.has(undefined) || this.filter) {
+            this.notifyTreeChanged();
+            return;
+        }
+
+        for (const node of changedNodes) {
+            this.onDidChangeTreeDataEmitter.fire(node);
+        }
+    }
+}
+
+/**
+ * A list of organized items together with the node owning it
+ */
+interface TreeContainer {
+    /** Items at the top of the container */
+    items: DeletedItem[];
+
+    /** Group node owning the items, or undefined for the tree root */
+    node: DeletedItem | undefined;
+
+    /** Workspace folder the items are organized relative to */
+    workspaceRoot: string;
 }
 
 /**
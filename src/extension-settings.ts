@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { IgnoredItemsDisplay, MovedItemsDisplay } from './types';
+import {
+    CONFIGURATION_SECTION,
+    INITIAL_ACTIVATION_DELAY_MS,
+    MAX_SCAN_DEPTH,
+    REFRESH_DEBOUNCE_DELAY_MS,
+    SCAN_LOCATIONS,
+    SETTINGS
+} from './constants';
+
+/**
+ * A backup location group that can be switched on or off
+ */
+export type ScanLocation = typeof SCAN_LOCATIONS[keyof typeof SCAN_LOCATIONS];
+
+/** Settings whose change makes the current scan result stale */
+const SCAN_AFFECTING_SETTINGS = [
+    SETTINGS.ADDITIONAL_USER_DATA_DIRECTORIES,
+    SETTINGS.MAX_SCAN_DEPTH,
+    SETTINGS.SCAN_LOCATIONS,
+    SETTINGS.IGNORE_PATTERNS,
+    SETTINGS.USE_GITIGNORE,
+    SETTINGS.USE_FILES_EXCLUDE,
+    SETTINGS.IGNORED_ITEMS,
+    SETTINGS.MOVED_ITEMS
+];
+
+/**
+ * Reads the extension's configuration.
+ *
+ * Values are read from the workspace configuration on every call, so changes
+ * take effect immediately; onDidChange lets callers react to them as well.
+ */
+export class ExtensionSettings {
+
+    /**
+     * Maximum directory depth to recurse into when scanning storage folders
+     */
+    static getMaxScanDepth(): number {
+        return this.getNonNegativeInteger(SETTINGS.MAX_SCAN_DEPTH, MAX_SCAN_DEPTH);
+    }
+
+    /**
+     * Delay used to batch file watcher events into a single refresh
+     */
+    static getRefreshDebounceDelay(): number {
+        return this.getNonNegativeInteger(SETTINGS.REFRESH_DEBOUNCE_DELAY, REFRESH_DEBOUNCE_DELAY_MS);
+    }
+
+    /**
+     * Delay between activation and the first automatic scan
+     */
+    static getInitialScanDelay(): number {
+        return this.getNonNegativeInteger(SETTINGS.INITIAL_SCAN_DELAY, INITIAL_ACTIVATION_DELAY_MS);
+    }
+
+    /**
+     * Backup location groups that should be scanned
+     */
+    static getScanLocations(): ScanLocation[] {
+        const knownLocations: string[] = Object.values(SCAN_LOCATIONS);
+        const configured = this.getConfiguration().get<unknown[]>(SETTINGS.SCAN_LOCATIONS, knownLocations);
+
+        if (!Array.isArray(configured)) {
+            return Object.values(SCAN_LOCATIONS);
+        }
+
+        return configured.filter((location): location is ScanLocation =>
+            typeof location === 'string' && knownLocations.includes(location)
+        );
+    }
+
+    /**
+     * Checks whether a backup location group is enabled
+     */
+    static isScanLocationEnabled(location: ScanLocation): boolean {
+        return this.getScanLocations().includes(location);
+    }
+
+    /**
+     * User-configured VS Code user-data directories to scan in addition to the detected ones
+     */
+    static getAdditionalUserDataDirectories(): string[] {
+        return this.getStringList(SETTINGS.ADDITIONAL_USER_DATA_DIRECTORIES);
+    }
+
+    /**
+     * Globs of workspace files to keep shadow backups of; empty when shadow backups are off
+     */
+    static getShadowBackupPatterns(): string[] {
+        return this.getStringList(SETTINGS.SHADOW_BACKUP_PATTERNS);
+    }
+
+    /**
+     * Extra ignore patterns, in .gitignore syntax, relative to each workspace folder
+     */
+    static getIgnorePatterns(): string[] {
+        return this.getStringList(SETTINGS.IGNORE_PATTERNS);
+    }
+
+    /**
+     * Whether the workspace's .gitignore files decide which deleted items are ignored
+     */
+    static shouldUseGitIgnore(): boolean {
+        return this.getConfiguration().get<boolean>(SETTINGS.USE_GITIGNORE, true) !== false;
+    }
+
+    /**
+     * Whether the files.exclude setting decides which deleted items are ignored
+     */
+    static shouldUseFilesExclude(): boolean {
+        return this.getConfiguration().get<boolean>(SETTINGS.USE_FILES_EXCLUDE, true) !== false;
+    }
+
+    /**
+     * Whether ignored items are hidden or shown in a collapsed "Ignored" group
+     */
+    static getIgnoredItemsDisplay(): IgnoredItemsDisplay {
+        return this.getConfiguration().get<unknown>(SETTINGS.IGNORED_ITEMS, 'group') === 'hide' ? 'hide' : 'group';
+    }
+
+    /**
+     * Whether files whose content was found elsewhere in the workspace are shown as moved or hidden
+     */
+    static getMovedItemsDisplay(): MovedItemsDisplay {
+        return this.getConfiguration().get<unknown>(SETTINGS.MOVED_ITEMS, 'show') === 'hide' ? 'hide' : 'show';
+    }
+
+    /**
+     * Whether restored files should be opened in an editor
+     */
+    static shouldOpenRestoredFiles(): boolean {
+        return this.getConfiguration().get<boolean>(SETTINGS.OPEN_RESTORED_FILES, true) !== false;
+    }
+
+    /**
+     * Subscribes to changes of this extension's settings
+     */
+    static onDidChange(listener: (event: vscode.ConfigurationChangeEvent) => void): vscode.Disposable {
+        return vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(CONFIGURATION_SECTION)) {
+                listener(event);
+            }
+        });
+    }
+
+    /**
+     * Checks whether a configuration change requires rescanning
+     */
+    static affectsScan(event: vscode.ConfigurationChangeEvent): boolean {
+        return SCAN_AFFECTING_SETTINGS.some(setting =>
+            event.affectsConfiguration(`${CONFIGURATION_SECTION}.${setting}`)
+        );
+    }
+
+    /**
+     * Checks whether a configuration change alters which files get shadow backups
+     */
+    static affectsShadowBackups(event: vscode.ConfigurationChangeEvent): boolean {
+        return event.affectsConfiguration(`${CONFIGURATION_SECTION}.${SETTINGS.SHADOW_BACKUP_PATTERNS}`);
+    }
+
+    /**
+     * Reads a list of strings, dropping blank and non-string entries
+     */
+    private static getStringList(setting: string): string[] {
+        const configured = this.getConfiguration().get<unknown[]>(setting, []);
+
+        if (!Array.isArray(configured)) {
+            return [];
+        }
+
+        return configured
+            .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+            .map(value => value.trim());
+    }
+
+    /**
+     * Reads a numeric setting, falling back to the default for invalid values
+     */
+    private static getNonNegativeInteger(setting: string, defaultValue: number): number {
+        const value = this.getConfiguration().get<unknown>(setting, defaultValue);
+
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            return defaultValue;
+        }
+
+        return Math.floor(value);
+    }
+
+    /**
+     * Gets this extension's configuration section
+     */
+    private static getConfiguration(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
+    }
+}
@@ -1,24 +1,76 @@
 import * as vscode from 'vscode';
 import { DeletedItemsProvider } from './deleted-items-provider';
 import { FileWatcherManager } from './file-watcher-manager';
-import { FileRestorer } from './file-restorer';
-import { PROGRESS_COMPLETE_PERCENT, INITIAL_ACTIVATION_DELAY_MS } from './constants';
+import { FileRestorer, RestoreOptions } from './file-restorer';
+import { RevisionPicker } from './revision-picker';
+import { BackupContentProvider } from './backup-content-provider';
+import { BackupComparer } from './backup-comparer';
+import { UserDataLocator } from './user-data-locator';
+import { ConflictResolver } from './conflict-resolver';
+import { RestoreTransaction } from './restore-transaction';
+import { RestoreHistory } from './restore-history';
+import { ScanIndex } from './scan-index';
+import { DeletedFolderStore } from './deleted-folder-store';
+import { ShadowBackupStore } from './shadow-backup-store';
+import { FilterPrompt } from './filter-prompt';
+import { ItemFilter } from './item-filter';
+import { GitIntegration } from './git-integration';
+import { MoveDetector } from './move-detector';
+import { GitRestorePicker } from './git-restore-picker';
+import { ItemExporter } from './item-exporter';
+import { ScanReport } from './scan-report';
+import { DeletedItemsFileSystem } from './deleted-items-file-system';
+import { DeletedItem, GroupingMode, RestoreOutcome, RestoreSummary } from './types';
+import { ExtensionSettings } from './extension-settings';
+import {
+	BACKUP_URI_SCHEME,
+	DELETED_FOLDERS_FILENAME,
+	DELETED_ITEMS_MOUNT_NAME,
+	DELETED_ITEMS_URI_SCHEME,
+	GROUPING_MODE_STATE_KEY,
+	SCAN_INDEX_FILENAME,
+	SHADOW_BACKUPS_FOLDER
+} from './constants';
 
 // Activation: wire up providers, watchers and commands using focused modules
 export function activate(context: vscode.ExtensionContext) {
 	console.log('Restore Folder extension is now active! (refactored)');
 
-	const deletedItemsProvider = new DeletedItemsProvider();
+	const userDataLocator = new UserDataLocator(vscode.env.appName, context.globalStorageUri.fsPath);
+	const scanIndex = new ScanIndex(vscode.Uri.joinPath(context.globalStorageUri, SCAN_INDEX_FILENAME).fsPath);
+	const deletedFolderStore = new DeletedFolderStore(vscode.Uri.joinPath(context.globalStorageUri, DELETED_FOLDERS_FILENAME).fsPath);
+	const shadowBackupStore = new ShadowBackupStore(vscode.Uri.joinPath(context.globalStorageUri, SHADOW_BACKUPS_FOLDER).fsPath);
+	const gitIntegration = new GitIntegration();
+	const deletedItemsProvider = new DeletedItemsProvider(userDataLocator, scanIndex, deletedFolderStore, shadowBackupStore, gitIntegration, new MoveDetector());
+	const restoreHistory = new RestoreHistory();
+
+	// Restore the grouping chosen in this workspace; also sets the context key driving the toggle buttons
+	void deletedItemsProvider.setGroupingMode(context.workspaceState.get<GroupingMode>(GROUPING_MODE_STATE_KEY, 'folder'));
 
 	const treeView = vscode.window.createTreeView('deletedItems', {
 		treeDataProvider: deletedItemsProvider,
 		canSelectMany: true
 	});
 
-	// File watcher manager will trigger provider.refresh() when needed
-	const fileWatcherManager = new FileWatcherManager(async () => {
-		await deletedItemsProvider.refresh();
-	});
+	// Read-only virtual documents for previewing backup content
+	const backupContentRegistration = vscode.workspace.registerTextDocumentContentProvider(
+		BACKUP_URI_SCHEME,
+		new BackupContentProvider()
+	);
+
+	// Read-only file system mirroring the deleted hierarchy, rebuilt whenever the tree changes
+	const deletedItemsFileSystem = new DeletedItemsFileSystem(() => deletedItemsProvider.getSelectedItems());
+	const deletedItemsFileSystemRegistration = vscode.workspace.registerFileSystemProvider(
+		DELETED_ITEMS_URI_SCHEME,
+		deletedItemsFileSystem,
+		{ isCaseSensitive: true, isReadonly: true }
+	);
+	const treeChangeWatcher = deletedItemsProvider.onDidChangeTreeData(() => deletedItemsFileSystem.refresh());
+
+	// File watcher manager passes the created and deleted URIs on for incremental updates
+	const fileWatcherManager = new FileWatcherManager(async (changes) => {
+		await deletedItemsProvider.applyFileChanges(changes);
+	}, deletedFolderStore, shadowBackupStore, context.workspaceState);
 
 	// Setup watchers immediately and when workspace folders change
 	fileWatcherManager.setupFileWatchers();
@@ -26,28 +78,75 @@ export function activate(context: vscode.ExtensionContext) {
 		fileWatcherManager.setupFileWatchers();
 	});
 
+	// Rescan when settings that change what is scanned are edited; other settings are read live
+	const settingsWatcher = ExtensionSettings.onDidChange(async (event) => {
+		if (ExtensionSettings.affectsShadowBackups(event)) {
+			fileWatcherManager.setupFileWatchers();
+		}
+
+		if (ExtensionSettings.affectsScan(event)) {
+			await deletedItemsProvider.refresh();
+		}
+	});
+
 	// Auto-scan shortly after activation to let VS Code finish loading
 	if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
 		setTimeout(async () => {
 			await deletedItemsProvider.refresh();
-		}, INITIAL_ACTIVATION_DELAY_MS);
+		}, ExtensionSettings.getInitialScanDelay());
 	}
 
 	// Commands
 	const listDeletedCommand = vscode.commands.registerCommand('minouris-local-history-restore.listDeleted', async () => {
-		await vscode.window.withProgress({
+		const cancelled = await vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
 			title: 'Scanning for deleted files...',
-			cancellable: false
-		}, async (progress) => {
-			await deletedItemsProvider.refresh();
-			progress.report({ increment: PROGRESS_COMPLETE_PERCENT });
+			cancellable: true
+		}, async (progress, token) => {
+			await deletedItemsProvider.refresh({
+				token,
+				onProgress: update => progress.report({
+					increment: update.increment,
+					message: `${update.directoriesScanned} folders scanned, ${update.itemsFound} deleted items found`
+				})
+			});
+			return token.isCancellationRequested;
 		});
 
+		if (cancelled) {
+			vscode.window.showInformationMessage('Scan cancelled; showing the previous results');
+			return;
+		}
+
 		await vscode.commands.executeCommand('deletedItems.focus');
 		vscode.window.showInformationMessage(`Found ${deletedItemsProvider.getSelectedItems().length} deleted items`);
 	});
 
+	const showScanReportCommand = vscode.commands.registerCommand('minouris-local-history-restore.showScanReport', async () => {
+		if (!deletedItemsProvider.getLastScan()) {
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Scanning for deleted files...'
+			}, () => deletedItemsProvider.refresh());
+		}
+
+		const scan = deletedItemsProvider.getLastScan();
+		if (!scan) {
+			vscode.window.showWarningMessage('No scan has completed yet. Open a workspace folder and refresh the Deleted Items view.');
+			return;
+		}
+
+		const format = await vscode.window.showQuickPick(['Markdown', 'JSON'], {
+			placeHolder: `Show the report of the scan completed ${scan.completedAt.toLocaleString()} as...`
+		});
+		if (!format) {return;}
+
+		const document = await vscode.workspace.openTextDocument(format === 'JSON'
+			? { language: 'json', content: ScanReport.toJson(scan) }
+			: { language: 'markdown', content: ScanReport.toMarkdown(scan) });
+		await vscode.window.showTextDocument(document);
+	});
+
 	const restoreSelectedCommand = vscode.commands.registerCommand('minouris-local-history-restore.restoreSelected', async () => {
 		const selectedItems = treeView.selection;
 		if (!selectedItems || selectedItems.length === 0) {
@@ -66,23 +165,28 @@ export function activate(context: vscode.ExtensionContext) {
 			title: 'Restoring files...',
 			cancellable: false
 		}, async (progress) => {
-			let restored = 0;
+			const options = { conflictResolver: new ConflictResolver(true), transaction: new RestoreTransaction() };
+			const totals: RestoreSummary = { restored: 0, skipped: 0, failed: 0 };
 
 			for (const item of selectedItems) {
 				try {
 					if (item.isDirectory) {
-						await FileRestorer.restoreFolder(item);
+						const summary = await FileRestorer.restoreFolder(item, options);
+						totals.restored += summary.restored;
+						totals.skipped += summary.skipped;
+						totals.failed += summary.failed;
 					} else {
-						await FileRestorer.restoreItem(item);
+						totals[await FileRestorer.restoreItem(item, options)]++;
 					}
-					restored++;
-					progress.report({ increment: (100 / selectedItems.length), message: `Restored ${item.relativePath}` });
 				} catch (error) {
+					totals.failed++;
 					vscode.window.showErrorMessage(`Failed to restore ${item.relativePath}: ${error}`);
 				}
+				progress.report({ increment: (100 / selectedItems.length), message: `Processed ${item.relativePath}` });
 			}
 
-			vscode.window.showInformationMessage(`Successfully restored ${restored} item(s)`);
+			await restoreHistory.record(options.transaction);
+			showRestoreSummary('Restore complete', totals);
 			await deletedItemsProvider.refresh();
 		});
 	});
@@ -90,18 +194,19 @@ export function activate(context: vscode.ExtensionContext) {
 	const restoreItemCommand = vscode.commands.registerCommand('minouris-local-history-restore.restoreItem', async (item: any) => {
 		if (!item) {return;}
 
+		const transaction = new RestoreTransaction();
 		try {
 			if (item.isDirectory) {
-				await FileRestorer.restoreFolder(item);
-				const count = item.children?.length || 0;
-				vscode.window.showInformationMessage(`Restored folder "${item.relativePath}" with ${count} file(s)`);
-			} else {
-				await FileRestorer.restoreItem(item);
+				const summary = await FileRestorer.restoreFolder(item, { conflictResolver: new ConflictResolver(true), transaction });
+				showRestoreSummary(`Restored folder "${item.relativePath}"`, summary);
+			} else if (await restoreFileFromChosenSource(item, gitIntegration, { conflictResolver: new ConflictResolver(false), transaction }) === 'restored') {
 				vscode.window.showInformationMessage(`Restored ${item.relativePath}`);
 			}
 			await deletedItemsProvider.refresh();
 		} catch (error) {
 			vscode.window.showErrorMessage(`Failed to restore ${item.relativePath}: ${error}`);
+		} finally {
+			await restoreHistory.record(transaction);
 		}
 	});
 
@@ -112,29 +217,226 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 
 		const count = folderItem.children?.length || 0;
+		const folderName = folderItem.group?.label ?? folderItem.relativePath;
 		const confirmation = await vscode.window.showQuickPick(['Yes', 'No'], {
-			placeHolder: `Restore entire folder "${folderItem.relativePath}" with ${count} file(s)?`
+			placeHolder: `Restore entire folder "${folderName}" with ${count} file(s)?`
 		});
 
 		if (confirmation !== 'Yes') {return;}
 
+		const transaction = new RestoreTransaction();
+		try {
+			const summary = await FileRestorer.restoreFolder(folderItem, { conflictResolver: new ConflictResolver(true), transaction });
+			showRestoreSummary(`Restored folder "${folderName}"`, summary);
+			await deletedItemsProvider.refresh();
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to restore folder "${folderName}": ${error}`);
+		} finally {
+			await restoreHistory.record(transaction);
+		}
+	});
+
+	const restoreVersionCommand = vscode.commands.registerCommand('minouris-local-history-restore.restoreVersion', async (item: DeletedItem) => {
+		if (!item || item.isDirectory) {return;}
+
+		if (!item.revisions?.length) {
+			vscode.window.showWarningMessage(`No stored versions found for ${item.relativePath}`);
+			return;
+		}
+
+		const revision = await RevisionPicker.pickRevision(item);
+		if (!revision) {return;}
+
+		const transaction = new RestoreTransaction();
+		try {
+			const outcome = await FileRestorer.restoreRevision(item, revision, { conflictResolver: new ConflictResolver(false), transaction });
+			if (outcome === 'restored') {
+				vscode.window.showInformationMessage(`Restored ${item.relativePath} from version of ${revision.timestamp.toLocaleString()}`);
+			}
+			await deletedItemsProvider.refresh();
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to restore ${item.relativePath}: ${error}`);
+		} finally {
+			await restoreHistory.record(transaction);
+		}
+	});
+
+	const compareWithBackupCommand = vscode.commands.registerCommand('minouris-local-history-restore.compareWithBackup', async (item: DeletedItem) => {
+		if (!item || item.isDirectory) {return;}
+
+		try {
+			await BackupComparer.compareWithBackup(item);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to compare ${item.relativePath} with its backup: ${error}`);
+		}
+	});
+
+	const openReadOnlyCommand = vscode.commands.registerCommand('minouris-local-history-restore.openReadOnly', async (item: DeletedItem) => {
+		if (!item || item.isDirectory) {return;}
+
+		try {
+			await vscode.commands.executeCommand('vscode.open', DeletedItemsFileSystem.createUri(item));
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to open ${item.relativePath}: ${error}`);
+		}
+	});
+
+	const mountDeletedItemsCommand = vscode.commands.registerCommand('minouris-local-history-restore.mountDeletedItems', () => {
+		const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+		if (workspaceFolders.some(folder => folder.uri.scheme === DELETED_ITEMS_URI_SCHEME)) {
+			vscode.window.showInformationMessage('Deleted items are already mounted as a workspace folder');
+			return;
+		}
+
+		const added = vscode.workspace.updateWorkspaceFolders(workspaceFolders.length, 0, {
+			uri: DeletedItemsFileSystem.getRootUri(),
+			name: DELETED_ITEMS_MOUNT_NAME
+		});
+		if (!added) {
+			vscode.window.showErrorMessage('Failed to add the deleted items to the workspace');
+		}
+	});
+
+	const restoreToCommand = vscode.commands.registerCommand('minouris-local-history-restore.restoreTo', async (item: DeletedItem) => {
+		if (!item) {return;}
+
+		const destination = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+			openLabel: 'Restore Here',
+			title: `Restore "${item.relativePath}" to...`
+		});
+		if (!destination?.length) {return;}
+
+		const options = { conflictResolver: new ConflictResolver(item.isDirectory), transaction: new RestoreTransaction(), destinationRoot: destination[0] };
 		try {
-			await FileRestorer.restoreFolder(folderItem);
-			vscode.window.showInformationMessage(`Successfully restored folder "${folderItem.relativePath}" with ${count} file(s)`);
+			if (item.isDirectory) {
+				const summary = await FileRestorer.restoreFolder(item, options);
+				showRestoreSummary(`Restored folder "${item.relativePath}" to ${destination[0].fsPath}`, summary);
+			} else if (await FileRestorer.restoreItem(item, options) === 'restored') {
+				vscode.window.showInformationMessage(`Restored ${item.relativePath} to ${destination[0].fsPath}`);
+			}
 			await deletedItemsProvider.refresh();
 		} catch (error) {
-			vscode.window.showErrorMessage(`Failed to restore folder "${folderItem.relativePath}": ${error}`);
+			vscode.window.showErrorMessage(`Failed to restore ${item.relativePath} to ${destination[0].fsPath}: ${error}`);
+		} finally {
+			await restoreHistory.record(options.transaction);
+		}
+	});
+
+	// Context menu commands receive the clicked item and, with multi-select, every selected item
+	const exportSelectedCommand = vscode.commands.registerCommand('minouris-local-history-restore.exportSelected', async (item?: DeletedItem, selectedItems?: DeletedItem[]) => {
+		const items = selectedItems?.length ? selectedItems : item ? [item] : [...treeView.selection];
+		if (items.length === 0) {
+			vscode.window.showWarningMessage('No items selected for export');
+			return;
+		}
+
+		const workspaceUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const defaultName = `deleted-items-${new Date().toISOString().slice(0, 10)}.zip`;
+		const targetUri = await vscode.window.showSaveDialog({
+			defaultUri: workspaceUri ? vscode.Uri.joinPath(workspaceUri, '..', defaultName) : undefined,
+			filters: { 'Zip archive': ['zip'], 'Tar archive': ['tar.gz', 'tgz', 'tar'] },
+			saveLabel: 'Export',
+			title: `Export ${items.length} item(s) to...`
+		});
+		if (!targetUri) {return;}
+
+		try {
+			const summary = await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: 'Exporting deleted items...'
+			}, () => ItemExporter.exportItems(items, targetUri));
+
+			const skipped = summary.skipped > 0 ? `, skipped ${summary.skipped} file(s) without a readable backup` : '';
+			vscode.window.showInformationMessage(`Exported ${summary.exported} file(s) to ${targetUri.fsPath}${skipped}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to export to ${targetUri.fsPath}: ${error}`);
+		}
+	});
+
+	const undoLastRestoreCommand = vscode.commands.registerCommand('minouris-local-history-restore.undoLastRestore', async () => {
+		const transaction = await restoreHistory.takeLast();
+		if (!transaction) {
+			vscode.window.showInformationMessage('There is no restore to undo');
+			return;
+		}
+
+		const confirmation = await vscode.window.showWarningMessage(
+			`Undo the last restore (${transaction.getChangeCount()} change(s))? Restored files will be moved to the trash and overwritten files put back; files edited since the restore are kept.`,
+			{ modal: true },
+			'Undo'
+		);
+
+		if (confirmation !== 'Undo') {
+			await restoreHistory.record(transaction);
+			return;
+		}
+
+		try {
+			const editedFiles = await transaction.rollback();
+			if (editedFiles.length === 0) {
+				vscode.window.showInformationMessage('Last restore undone');
+			} else {
+				vscode.window.showWarningMessage(
+					`Last restore undone, except ${editedFiles.length} file(s) edited since the restore, which were kept: ${editedFiles.map(uri => uri.fsPath).join(', ')}`
+				);
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to fully undo the last restore: ${error}`);
 		}
+		await deletedItemsProvider.refresh();
+	});
+
+	const filterCommand = vscode.commands.registerCommand('minouris-local-history-restore.filter', async () => {
+		const filter = await FilterPrompt.promptForFilter(deletedItemsProvider.getFilter(), deletedItemsProvider.getFileTypes());
+		if (!filter) {return;}
+
+		await deletedItemsProvider.setFilter(filter);
+		treeView.description = ItemFilter.isActive(filter) ? ItemFilter.describe(filter) : undefined;
+	});
+
+	const clearFilterCommand = vscode.commands.registerCommand('minouris-local-history-restore.clearFilter', async () => {
+		await deletedItemsProvider.setFilter(undefined);
+		treeView.description = undefined;
 	});
 
+	// Grouping toggle: each command is shown in the view title while the previous mode in the cycle is active
+	const setGroupingMode = async (mode: GroupingMode) => {
+		await deletedItemsProvider.setGroupingMode(mode);
+		await context.workspaceState.update(GROUPING_MODE_STATE_KEY, mode);
+	};
+	const groupByFolderCommand = vscode.commands.registerCommand('minouris-local-history-restore.groupByFolder', () => setGroupingMode('folder'));
+	const groupBySessionCommand = vscode.commands.registerCommand('minouris-local-history-restore.groupBySession', () => setGroupingMode('session'));
+	const showAsListCommand = vscode.commands.registerCommand('minouris-local-history-restore.showAsList', () => setGroupingMode('flat'));
+
 	// Register disposables
 	context.subscriptions.push(
 		listDeletedCommand,
+		showScanReportCommand,
 		restoreSelectedCommand,
 		restoreItemCommand,
 		restoreFolderCommand,
+		restoreVersionCommand,
+		compareWithBackupCommand,
+		openReadOnlyCommand,
+		mountDeletedItemsCommand,
+		restoreToCommand,
+		exportSelectedCommand,
+		undoLastRestoreCommand,
+		filterCommand,
+		clearFilterCommand,
+		groupByFolderCommand,
+		groupBySessionCommand,
+		showAsListCommand,
+		backupContentRegistration,
+		deletedItemsFileSystemRegistration,
+		treeChangeWatcher,
 		treeView,
-		workspaceFolderWatcher
+		workspaceFolderWatcher,
+		settingsWatcher
 	);
 
 	// Also include file watcher disposables
@@ -144,6 +446,42 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push({ dispose: () => fileWatcherManager.dispose() });
 }
 
+// Formats restore counts for user-facing messages
+function describeRestoreSummary(summary: RestoreSummary): string {
+	const skipped = summary.skipped > 0 ? `, skipped ${summary.skipped} existing file(s)` : '';
+	const failed = summary.failed > 0 ? `, ${summary.failed} failed` : '';
+	return `${summary.restored} file(s) restored${skipped}${failed}`;
+}
+
+// Shows the outcome of a restore, as a warning when anything failed
+function showRestoreSummary(title: string, summary: RestoreSummary): void {
+	const message = `${title}: ${describeRestoreSummary(summary)}`;
+
+	if (summary.failed > 0) {
+		vscode.window.showWarningMessage(message);
+	} else {
+		vscode.window.showInformationMessage(message);
+	}
+}
+
+// Restores a file, first asking whether to use the git HEAD or the local-history version when git can restore it too
+async function restoreFileFromChosenSource(item: DeletedItem, gitIntegration: GitIntegration, options: RestoreOptions): Promise<RestoreOutcome> {
+	if (item.gitStatus !== 'tracked') {
+		return FileRestorer.restoreItem(item, options);
+	}
+
+	const source = await GitRestorePicker.pickSource(item, async () => {
+		await BackupComparer.compareWithGitHead(item, await gitIntegration.toHeadUri(item.uri));
+	});
+
+	if (source === 'gitHead') {
+		const content = await gitIntegration.readHeadContent(item.uri);
+		return FileRestorer.restoreContent(item, content, 'git HEAD', options);
+	}
+
+	return source === 'localHistory' ? FileRestorer.restoreItem(item, options) : 'skipped';
+}
+
 export function deactivate() {
 	// nothing to clean up explicitly - disposables are managed via context.subscriptions
 }
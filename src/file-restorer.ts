@@ -1,6 +1,26 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { DeletedItem } from './types';
+import { BackupRevision, DeletedItem, RestoreOutcome, RestoreSummary } from './types';
+import { ConflictResolver } from './conflict-resolver';
+import { RestoreTransaction } from './restore-transaction';
+import { BackupComparer } from './backup-comparer';
+import { FileSystemUtils } from './file-system-utils';
+import { PathIdentity } from './path-identity';
+import { ExtensionSettings } from './extension-settings';
+
+/**
+ * Options shared by all restore operations
+ */
+export interface RestoreOptions {
+    /** Decides what to do when a file already exists at the target path; overwrites if omitted */
+    conflictResolver?: ConflictResolver;
+
+    /** Records created and overwritten paths so the restore can be undone */
+    transaction?: RestoreTransaction;
+
+    /** Restores under this folder (keeping each item's relative path) instead of the original location */
+    destinationRoot?: vscode.Uri;
+}
 
 /**
  * Handles restoration of deleted files and folders
@@ -10,114 +30,260 @@ export class FileRestorer {
     /**
      * Restores a single deleted item (file or empty directory)
      */
-    static async restoreItem(item: DeletedItem): Promise<void> {
+    static async restoreItem(item: DeletedItem, options: RestoreOptions = {}): Promise<RestoreOutcome> {
+        const targetItem = this.remapToDestination(item, options);
+
+        if (targetItem.isDirectory) {
+            await this.restoreEmptyDirectory(targetItem, options);
+            return 'restored';
+        }
+
+        return this.restoreFile(targetItem, options);
+    }
+
+    /**
+     * Restores a deleted file from a specific revision instead of the newest backup
+     */
+    static async restoreRevision(item: DeletedItem, revision: BackupRevision, options: RestoreOptions = {}): Promise<RestoreOutcome> {
         if (item.isDirectory) {
-            await this.restoreEmptyDirectory(item);
-        } else {
-            await this.restoreFile(item);
+            throw new Error('Only files can be restored from a specific revision');
         }
+
+        return this.restoreFile({ ...this.remapToDestination(item, options), backupPath: revision.path }, options);
     }
 
     /**
-     * Recursively restores a folder and all its contents
+     * Restores a deleted file with content from another source, such as its git HEAD version
      */
-    static async restoreFolder(folderItem: DeletedItem): Promise<void> {
+    static async restoreContent(item: DeletedItem, content: Uint8Array, source: string, options: RestoreOptions = {}): Promise<RestoreOutcome> {
+        if (item.isDirectory) {
+            throw new Error('Only files can be restored from other content');
+        }
+
+        return this.writeRestoredFile(this.remapToDestination(item, options), async () => content, source, options);
+    }
+
+    /**
+     * Recursively restores a folder and all its contents. Items that fail are counted in the
+     * summary rather than stopping the restore, so the files restored before them are reported too.
+     */
+    static async restoreFolder(folderItem: DeletedItem, options: RestoreOptions = {}): Promise<RestoreSummary> {
         if (!folderItem.isDirectory || !folderItem.children) {
             throw new Error('Invalid folder item for restoration');
         }
 
-        const restorationResult = await this.restoreFolderContents(folderItem);
-        
-        if (restorationResult.failed > 0) {
-            throw new Error(
-                `Restored ${restorationResult.restored} items, but ${restorationResult.failed} items failed to restore`
-            );
-        }
+        const restorationResult = await this.restoreFolderContents(folderItem, options);
 
-        console.log(`Successfully restored folder "${folderItem.relativePath}" with ${restorationResult.restored} files`);
+        console.log(
+            `Restored folder "${folderItem.relativePath}": ${restorationResult.restored} files restored, ` +
+            `${restorationResult.skipped} skipped, ${restorationResult.failed} failed`
+        );
+        return restorationResult;
     }
 
     /**
-     * Restores a file from its backup
+     * Restores a file from its backup, consulting the conflict resolver if the target exists
      */
-    private static async restoreFile(item: DeletedItem): Promise<void> {
-        if (!item.backupPath) {
+    private static async restoreFile(item: DeletedItem, options: RestoreOptions): Promise<RestoreOutcome> {
+        const backupPath = item.backupPath;
+
+        if (!backupPath) {
             throw new Error(`No backup path available for ${item.relativePath}`);
         }
 
-        await this.ensureDirectoryExists(item.uri);
+        return this.writeRestoredFile(item, () => this.readBackupContent(backupPath), backupPath, options);
+    }
+
+    /**
+     * Writes restored content to the item's path, consulting the conflict resolver first so
+     * the content is only read when it will be written
+     */
+    private static async writeRestoredFile(
+        item: DeletedItem,
+        readContent: () => Promise<Uint8Array>,
+        source: string,
+        options: RestoreOptions
+    ): Promise<RestoreOutcome> {
+        const targetUri = await this.resolveTargetUri(item, options);
+
+        if (!targetUri) {
+            console.log(`Skipped restoring ${item.relativePath}: target already exists`);
+            return 'skipped';
+        }
+
+        await this.ensureDirectoryExists(targetUri, options);
         
-        const backupContent = await this.readBackupContent(item.backupPath);
-        await vscode.workspace.fs.writeFile(item.uri, backupContent);
+        const content = await readContent();
+        const previousContent = await this.capturePreviousContent(targetUri, options);
+        await vscode.workspace.fs.writeFile(targetUri, content);
+        this.recordWrite(targetUri, content, previousContent, options);
         
-        console.log(`Restored file ${item.relativePath} from ${item.backupPath}`);
+        console.log(`Restored file ${item.relativePath} from ${source} to ${targetUri.fsPath}`);
         
-        await this.attemptToOpenRestoredFile(item.uri);
+        await this.attemptToOpenRestoredFile(targetUri);
+        return 'restored';
+    }
+
+    /**
+     * Determines where a file should be written, or null if it should not be restored
+     */
+    private static async resolveTargetUri(item: DeletedItem, options: RestoreOptions): Promise<vscode.Uri | null> {
+        if (!options.conflictResolver || !await FileSystemUtils.uriExists(item.uri)) {
+            return item.uri;
+        }
+
+        const action = await options.conflictResolver.resolve(item);
+
+        switch (action) {
+            case 'overwrite':
+                return item.uri;
+            case 'keepBoth':
+                return FileSystemUtils.createRestoredCopyUri(item.uri);
+            case 'compare':
+                await BackupComparer.compareWithBackup(item);
+                return null;
+            default:
+                return null;
+        }
     }
 
     /**
      * Creates an empty directory structure
      */
-    private static async restoreEmptyDirectory(item: DeletedItem): Promise<void> {
-        await vscode.workspace.fs.createDirectory(item.uri);
+    private static async restoreEmptyDirectory(item: DeletedItem, options: RestoreOptions): Promise<void> {
+        await this.createDirectoryTracked(item.uri, options);
         console.log(`Created directory ${item.relativePath}`);
     }
 
     /**
-     * Restores all contents of a folder recursively
+     * Restores all contents of a folder recursively, counting the files restored, skipped and failed.
+     * Folders that are created along the way are not counted, but a folder that cannot be created is.
      */
-    private static async restoreFolderContents(folderItem: DeletedItem): Promise<{ restored: number; failed: number }> {
+    private static async restoreFolderContents(folderItem: DeletedItem, options: RestoreOptions): Promise<RestoreSummary> {
+        const summary: RestoreSummary = { restored: 0, skipped: 0, failed: 0 };
+
         if (!folderItem.children) {
-            return { restored: 0, failed: 0 };
+            return summary;
         }
 
-        let restored = 0;
-        let failed = 0;
-
-        // First create the folder itself
-        try {
-            await this.restoreItem(folderItem);
-            restored++;
-        } catch (error) {
-            console.error(`Failed to create folder ${folderItem.relativePath}:`, error);
-            failed++;
+        // First create the folder itself (group nodes have no folder of their own)
+        if (!folderItem.group) {
+            try {
+                await this.restoreItem(folderItem, options);
+            } catch (error) {
+                console.error(`Failed to create folder ${folderItem.relativePath}:`, error);
+                summary.failed++;
+            }
         }
 
-        // Then restore all child items
-        for (const childItem of folderItem.children) {
+        // Then restore all child items, each remapped against the destination root if one is set
+        for (const child of folderItem.children) {
             try {
+                const childItem = this.remapToDestination(child, options);
+
                 if (childItem.isDirectory && childItem.children) {
-                    const childResult = await this.restoreFolderContents(childItem);
-                    restored += childResult.restored;
-                    failed += childResult.failed;
+                    const childResult = await this.restoreFolderContents(childItem, options);
+                    summary.restored += childResult.restored;
+                    summary.skipped += childResult.skipped;
+                    summary.failed += childResult.failed;
+                } else if (childItem.isDirectory) {
+                    await this.restoreItem(childItem, options);
                 } else {
-                    await this.restoreItem(childItem);
-                    restored++;
+                    const outcome = await this.restoreItem(childItem, options);
+                    summary[outcome]++;
                 }
             } catch (error) {
-                console.error(`Failed to restore ${childItem.relativePath}:`, error);
-                failed++;
+                console.error(`Failed to restore ${child.relativePath}:`, error);
+                summary.failed++;
             }
         }
 
-        return { restored, failed };
+        return summary;
+    }
+
+    /**
+     * Returns a copy of the item pointing at its relative path under the destination root, if one is set.
+     * Throws if the relative path would lead outside the destination root.
+     */
+    private static remapToDestination(item: DeletedItem, options: RestoreOptions): DeletedItem {
+        if (!options.destinationRoot) {
+            return item;
+        }
+
+        const segments = item.relativePath.split(/[\\/]/).filter(segment => segment.length > 0);
+        const targetUri = vscode.Uri.joinPath(options.destinationRoot, ...segments);
+
+        if (!PathIdentity.isInside(targetUri.fsPath, options.destinationRoot.fsPath)) {
+            throw new Error(`${item.relativePath} lies outside the destination ${options.destinationRoot.fsPath}`);
+        }
+
+        return { ...item, uri: targetUri };
     }
 
     /**
      * Ensures the parent directory exists for a file
      */
-    private static async ensureDirectoryExists(fileUri: vscode.Uri): Promise<void> {
-        const targetDir = path.dirname(fileUri.fsPath);
-        const directoryUri = vscode.Uri.file(targetDir);
+    private static async ensureDirectoryExists(fileUri: vscode.Uri, options: RestoreOptions): Promise<void> {
+        const directoryUri = vscode.Uri.joinPath(fileUri, '..');
         
         try {
-            await vscode.workspace.fs.createDirectory(directoryUri);
+            await this.createDirectoryTracked(directoryUri, options);
         } catch (error) {
             // Directory might already exist, which is fine
             console.log(`Directory creation info: ${error}`);
         }
     }
 
+    /**
+     * Creates a directory (and missing parents), recording which ones did not exist before
+     */
+    private static async createDirectoryTracked(directoryUri: vscode.Uri, options: RestoreOptions): Promise<void> {
+        const missingDirectories = options.transaction ? await this.findMissingDirectories(directoryUri) : [];
+
+        await vscode.workspace.fs.createDirectory(directoryUri);
+
+        for (const directory of missingDirectories) {
+            options.transaction?.recordCreatedDirectory(directory);
+        }
+    }
+
+    /**
+     * Lists the directory and any of its ancestors that do not exist yet
+     */
+    private static async findMissingDirectories(directoryUri: vscode.Uri): Promise<vscode.Uri[]> {
+        const missing: vscode.Uri[] = [];
+        let current = directoryUri;
+
+        while (!await FileSystemUtils.uriExists(current) && path.posix.dirname(current.path) !== current.path) {
+            missing.push(current);
+            current = vscode.Uri.joinPath(current, '..');
+        }
+
+        return missing;
+    }
+
+    /**
+     * Reads what a file contained before it is overwritten, when the restore is being recorded
+     */
+    private static async capturePreviousContent(targetUri: vscode.Uri, options: RestoreOptions): Promise<Uint8Array | null> {
+        if (!options.transaction || !await FileSystemUtils.uriExists(targetUri)) {
+            return null;
+        }
+
+        return vscode.workspace.fs.readFile(targetUri);
+    }
+
+    /**
+     * Records a completed write as either a created or an overwritten file
+     */
+    private static recordWrite(targetUri: vscode.Uri, content: Uint8Array, previousContent: Uint8Array | null, options: RestoreOptions): void {
+        if (previousContent) {
+            options.transaction?.recordOverwrittenFile(targetUri, previousContent, content);
+        } else {
+            options.transaction?.recordCreatedFile(targetUri, content);
+        }
+    }
+
     /**
      * Reads the backup file content
      */
@@ -130,9 +296,13 @@ export class FileRestorer {
     }
 
     /**
-     * Attempts to open the restored file in VS Code (optional)
+     * Attempts to open the restored file in VS Code (optional, see the openRestoredFiles setting)
      */
     private static async attemptToOpenRestoredFile(fileUri: vscode.Uri): Promise<void> {
+        if (!ExtensionSettings.shouldOpenRestoredFiles()) {
+            return;
+        }
+
         try {
             await vscode.commands.executeCommand('vscode.open', fileUri);
         } catch (error) {
@@ -171,6 +341,10 @@ export class FileRestorer {
             };
         }
 
+        if (folderItem.folderSnapshot) {
+            return { canRestore: true };
+        }
+
         if (!folderItem.children || folderItem.children.length === 0) {
             return { 
                 canRestore: false, 
@@ -1,7 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { PLATFORM_PATHS, URI_SCHEMES } from './constants';
+import * as vscode from 'vscode';
+import { PlatformPaths } from './types';
+import { PathIdentity } from './path-identity';
+import {
+    BACKUP_DIRECTORIES,
+    BYTES_PER_KILOBYTE,
+    DEFAULT_PRODUCT_FOLDER,
+    DELETED_ITEMS_URI_SCHEME,
+    FILE_SIZE_UNITS,
+    PLATFORM_PATHS,
+    RESTORED_COPY_SUFFIX,
+    SERVER_FOLDERS,
+    URI_SCHEMES,
+    USER_DATA_FOLDERS
+} from './constants';
 
 /**
  * Utility functions for file system operations and path handling
@@ -9,58 +23,73 @@ import { PLATFORM_PATHS, URI_SCHEMES } from './constants';
 export class FileSystemUtils {
     
     /**
-     * Gets the platform-specific global backup path for VS Code
+     * Gets the platform-specific default user-data "User" directories for a product.
+     * On Linux this includes the remote server's data directory.
      */
-    static getGlobalBackupPath(): string | null {
-        const platform = os.platform();
+    static getDefaultUserDataDirectories(productFolder: string = DEFAULT_PRODUCT_FOLDER): string[] {
         const homedir = os.homedir();
+        const desktopUserDirectory = path.join(
+            homedir,
+            ...FileSystemUtils.getPlatformPaths().APP_DATA,
+            productFolder,
+            USER_DATA_FOLDERS.USER
+        );
 
-        switch (platform) {
-            case 'win32':
-                return path.join(homedir, ...PLATFORM_PATHS.WIN32.CODE_USER_DATA, 'History');
-            case 'darwin':
-                return path.join(homedir, ...PLATFORM_PATHS.DARWIN.CODE_USER_DATA, 'History');
-            default: // linux and others
-                return path.join(homedir, ...PLATFORM_PATHS.LINUX.CODE_USER_DATA, 'History');
+        const serverFolder = SERVER_FOLDERS[productFolder];
+        if (os.platform() !== 'linux' || !serverFolder) {
+            return [desktopUserDirectory];
         }
+
+        return [
+            desktopUserDirectory,
+            path.join(homedir, serverFolder, USER_DATA_FOLDERS.SERVER_DATA, USER_DATA_FOLDERS.USER)
+        ];
     }
 
     /**
-     * Gets all possible VS Code backup locations for the current platform
+     * Gets the global local-history path inside a user-data directory
      */
-    static getVSCodeBackupLocations(): string[] {
-        const platform = os.platform();
-        const homedir = os.homedir();
+    static getGlobalBackupPath(userDataDirectory: string = FileSystemUtils.getDefaultUserDataDirectories()[0]): string | null {
+        return path.join(userDataDirectory, USER_DATA_FOLDERS.HISTORY);
+    }
+
+    /**
+     * Gets the storage locations that may hold backups inside the given user-data directories
+     */
+    static getVSCodeBackupLocations(userDataDirectories: readonly string[] = FileSystemUtils.getDefaultUserDataDirectories()): string[] {
         const locations: string[] = [];
 
-        switch (platform) {
-            case 'linux':
-                locations.push(
-                    path.join(homedir, ...PLATFORM_PATHS.LINUX.WORKSPACE_STORAGE),
-                    path.join(homedir, ...PLATFORM_PATHS.LINUX.GLOBAL_STORAGE),
-                    path.join(homedir, ...PLATFORM_PATHS.LINUX.CODE_USER_DATA, 'logs'),
-                    path.join(homedir, ...PLATFORM_PATHS.LINUX.CODE_USER_DATA, 'CachedExtensions'),
-                    path.join(homedir, ...PLATFORM_PATHS.LINUX.VSCODE_SERVER_HISTORY!),
-                    path.join(homedir, ...PLATFORM_PATHS.LINUX.VSCODE_SERVER_WORKSPACE!)
-                );
-                break;
-            case 'darwin':
-                locations.push(
-                    path.join(homedir, ...PLATFORM_PATHS.DARWIN.WORKSPACE_STORAGE),
-                    path.join(homedir, ...PLATFORM_PATHS.DARWIN.GLOBAL_STORAGE)
-                );
-                break;
-            case 'win32':
+        for (const userDataDirectory of userDataDirectories) {
+            locations.push(
+                path.join(userDataDirectory, USER_DATA_FOLDERS.WORKSPACE_STORAGE),
+                path.join(userDataDirectory, USER_DATA_FOLDERS.GLOBAL_STORAGE)
+            );
+
+            if (os.platform() === 'linux') {
                 locations.push(
-                    path.join(homedir, ...PLATFORM_PATHS.WIN32.WORKSPACE_STORAGE),
-                    path.join(homedir, ...PLATFORM_PATHS.WIN32.GLOBAL_STORAGE)
+                    path.join(userDataDirectory, BACKUP_DIRECTORIES.LOGS),
+                    path.join(userDataDirectory, BACKUP_DIRECTORIES.CACHED_EXTENSIONS)
                 );
-                break;
+            }
         }
 
         return locations;
     }
 
+    /**
+     * Gets the path segments for the current platform
+     */
+    private static getPlatformPaths(): PlatformPaths {
+        switch (os.platform()) {
+            case 'win32':
+                return PLATFORM_PATHS.WIN32;
+            case 'darwin':
+                return PLATFORM_PATHS.DARWIN;
+            default: // linux and others
+                return PLATFORM_PATHS.LINUX;
+        }
+    }
+
     /**
      * Normalizes a URI by removing scheme prefixes and decoding
      */
@@ -79,6 +108,34 @@ export class FileSystemUtils {
         return normalizedPath;
     }
 
+    /**
+     * Turns an entries.json resource into a URI, keeping the scheme and authority of remote
+     * resources such as vscode-remote://ssh-remote+host/home/me/file.ts. Plain paths become file URIs.
+     */
+    static resourceToUri(resource: string): vscode.Uri {
+        const hasScheme = /^[a-z][\w+.-]+:/i.test(resource) && !/^[a-z]:[\\/]/i.test(resource);
+        return hasScheme ? vscode.Uri.parse(resource) : vscode.Uri.file(resource);
+    }
+
+    /**
+     * Checks whether two URIs are served by the same file system: same scheme and authority
+     */
+    static isSameFileSystem(a: vscode.Uri, b: vscode.Uri): boolean {
+        return a.scheme === b.scheme && a.authority.toLowerCase() === b.authority.toLowerCase();
+    }
+
+    /**
+     * Checks if a resource exists through VS Code's file system, so remote resources are checked on the remote side
+     */
+    static async uriExists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Safely checks if a file exists without throwing
      */
@@ -125,10 +182,64 @@ export class FileSystemUtils {
     }
 
     /**
-     * Checks if a path is within the given workspace directory
+     * Asynchronously checks if a file exists without throwing
+     */
+    static async fileExistsAsync(filePath: string): Promise<boolean> {
+        try {
+            await fs.promises.access(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Asynchronously reads a directory without throwing
+     */
+    static async readDirectoryAsync(directoryPath: string): Promise<fs.Dirent[]> {
+        try {
+            return await fs.promises.readdir(directoryPath, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Asynchronously reads a JSON file and parses it, returning null on failure
+     */
+    static async readJsonFileAsync<T>(filePath: string): Promise<T | null> {
+        try {
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            return JSON.parse(content) as T;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Asynchronously gets file stats without throwing
+     */
+    static async getFileStatsAsync(filePath: string): Promise<fs.Stats | null> {
+        try {
+            return await fs.promises.stat(filePath);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Gets the open workspace folders whose deleted items are tracked, leaving out
+     * the Deleted Items folder when it is mounted in the workspace
+     */
+    static getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+        return (vscode.workspace.workspaceFolders ?? []).filter(folder => folder.uri.scheme !== DELETED_ITEMS_URI_SCHEME);
+    }
+
+    /**
+     * Checks if a path is within the given workspace directory, segment by segment and with the platform's case rules
      */
     static isPathInWorkspace(filePath: string, workspacePath: string): boolean {
-        return filePath.startsWith(workspacePath);
+        return PathIdentity.isInside(filePath, workspacePath);
     }
 
     /**
@@ -137,25 +248,44 @@ export class FileSystemUtils {
     static extractOriginalPathFromBackup(backupPath: string, workspacePath: string): string | null {
         try {
             const content = fs.readFileSync(backupPath, 'utf8');
-            const lines = content.split('\n').slice(0, 10); // Check first 10 lines only
-            
-            for (const line of lines) {
-                if (line.includes(URI_SCHEMES.FILE)) {
-                    const match = line.match(/file:\/\/([^"'\s]+)/);
-                    if (match) {
-                        return decodeURIComponent(match[1]);
-                    }
-                }
-            }
-            
-            // Fallback: construct path from backup structure
-            const fileName = path.basename(path.dirname(backupPath));
-            return path.join(workspacePath, fileName);
+            return FileSystemUtils.findOriginalPathInBackupContent(content, backupPath, workspacePath);
         } catch {
             return null;
         }
     }
 
+    /**
+     * Asynchronously extracts the original file path from a backup file
+     */
+    static async extractOriginalPathFromBackupAsync(backupPath: string, workspacePath: string): Promise<string | null> {
+        try {
+            const content = await fs.promises.readFile(backupPath, 'utf8');
+            return FileSystemUtils.findOriginalPathInBackupContent(content, backupPath, workspacePath);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Looks for a file:// URI near the top of a backup, falling back to the backup folder name
+     */
+    private static findOriginalPathInBackupContent(content: string, backupPath: string, workspacePath: string): string {
+        const lines = content.split('\n').slice(0, 10); // Check first 10 lines only
+
+        for (const line of lines) {
+            if (line.includes(URI_SCHEMES.FILE)) {
+                const match = line.match(/file:\/\/([^"'\s]+)/);
+                if (match) {
+                    return decodeURIComponent(match[1]);
+                }
+            }
+        }
+
+        // Fallback: construct path from backup structure
+        const fileName = path.basename(path.dirname(backupPath));
+        return path.join(workspacePath, fileName);
+    }
+
     /**
      * Sorts backup files by modification time (newest first)
      */
@@ -169,4 +299,40 @@ export class FileSystemUtils {
             return statB.mtime.getTime() - statA.mtime.getTime();
         });
     }
+
+    /**
+     * Formats a byte count as a short human-readable size (e.g. "42 KB")
+     */
+    static formatFileSize(bytes: number): string {
+        let size = bytes;
+        let unitIndex = 0;
+
+        while (size >= BYTES_PER_KILOBYTE && unitIndex < FILE_SIZE_UNITS.length - 1) {
+            size /= BYTES_PER_KILOBYTE;
+            unitIndex++;
+        }
+
+        const rounded = unitIndex === 0 ? size : Math.round(size * 10) / 10;
+        return `${rounded} ${FILE_SIZE_UNITS[unitIndex]}`;
+    }
+
+    /**
+     * Builds a free sibling URI such as "name (restored).ext", checking through VS Code's file system
+     */
+    static async createRestoredCopyUri(uri: vscode.Uri): Promise<vscode.Uri> {
+        const directory = path.posix.dirname(uri.path);
+        const extension = path.posix.extname(uri.path);
+        const baseName = path.posix.basename(uri.path, extension);
+
+        let candidate = uri.with({ path: path.posix.join(directory, `${baseName}${RESTORED_COPY_SUFFIX}${extension}`) });
+        let counter = 2;
+
+        while (await FileSystemUtils.uriExists(candidate)) {
+            const numberedSuffix = RESTORED_COPY_SUFFIX.replace(')', ` ${counter})`);
+            candidate = uri.with({ path: path.posix.join(directory, `${baseName}${numberedSuffix}${extension}`) });
+            counter++;
+        }
+
+        return candidate;
+    }
 }
\ No newline at end of file
@@ -1,5 +1,12 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { REFRESH_DEBOUNCE_DELAY_MS } from './constants';
+import { ExtensionSettings } from './extension-settings';
+import { FileChangeBatch } from './types';
+import { DeletedFolderStore } from './deleted-folder-store';
+import { ShadowBackupStore } from './shadow-backup-store';
+import { FileSystemUtils } from './file-system-utils';
+import { IgnoreRules } from './ignore-rules';
+import { GITIGNORE_FILENAME, SHADOW_BACKUP_MAX_EXISTING_FILES, SHADOW_BACKUP_PATTERNS_STATE_KEY } from './constants';
 
 /**
  * Manages file system watchers and debounced refresh operations
@@ -7,11 +14,35 @@ import { REFRESH_DEBOUNCE_DELAY_MS } from './constants';
 export class FileWatcherManager {
     private fileWatchers: vscode.FileSystemWatcher[] = [];
     private refreshTimer: NodeJS.Timeout | null = null;
-    private pendingRefresh = false;
-    private refreshCallback: () => Promise<void>;
+    private readonly pendingChanges = new Map<string, PendingChange>();
+    private refreshCallback: (changes: FileChangeBatch) => Promise<void>;
+    private readonly willDeleteSubscription: vscode.Disposable | undefined;
+    private readonly shadowBackupStore: ShadowBackupStore | undefined;
+    private readonly workspaceState: vscode.Memento | undefined;
+    private shadowBackupPatterns: Set<string>;
 
-    constructor(refreshCallback: () => Promise<void>) {
+    /**
+     * @param refreshCallback Receives the files created and deleted during each debounce window
+     * @param deletedFolderStore Records a snapshot of each folder just before VS Code deletes it
+     * @param shadowBackupStore Keeps copies of files matching the shadow backup patterns as they are created and changed
+     * @param workspaceState Remembers across sessions which shadow backup patterns already had their existing files copied
+     */
+    constructor(
+        refreshCallback: (changes: FileChangeBatch) => Promise<void>,
+        deletedFolderStore?: DeletedFolderStore,
+        shadowBackupStore?: ShadowBackupStore,
+        workspaceState?: vscode.Memento
+    ) {
         this.refreshCallback = refreshCallback;
+        this.shadowBackupStore = shadowBackupStore;
+        this.workspaceState = workspaceState;
+        this.shadowBackupPatterns = new Set(workspaceState?.get<string[]>(SHADOW_BACKUP_PATTERNS_STATE_KEY, []) ?? []);
+
+        if (deletedFolderStore) {
+            this.willDeleteSubscription = vscode.workspace.onWillDeleteFiles(event => {
+                event.waitUntil(deletedFolderStore.recordFolderDeletions(event.files));
+            });
+        }
     }
 
     /**
@@ -33,6 +64,7 @@ export class FileWatcherManager {
     dispose(): void {
         this.cleanupTimer();
         this.cleanupExistingWatchers();
+        this.willDeleteSubscription?.dispose();
     }
 
     /**
@@ -43,12 +75,20 @@ export class FileWatcherManager {
     }
 
     /**
-     * Triggers a debounced refresh operation
+     * Remembers a change for the next refresh; a later event for the same path replaces an earlier one
+     */
+    private recordChange(uri: vscode.Uri, kind: PendingChange['kind']): void {
+        this.pendingChanges.set(uri.toString(), { uri, kind });
+        this.triggerDebouncedRefresh();
+    }
+
+    /**
+     * Triggers a debounced refresh operation, restarting the delay on every event
      */
     private triggerDebouncedRefresh(): void {
         this.cancelExistingTimer();
         
-        if (this.shouldSkipRefresh()) {
+        if (!this.hasWorkspaceFolders()) {
             return;
         }
 
@@ -59,15 +99,16 @@ export class FileWatcherManager {
      * Creates file watchers for all workspace folders
      */
     private createWatchersForWorkspaceFolders(): void {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        
-        if (!workspaceFolders) {
-            return;
-        }
+        const shadowBackupPatterns = new Set<string>();
 
-        for (const folder of workspaceFolders) {
+        for (const folder of FileSystemUtils.getWorkspaceFolders()) {
             this.createWatcherForFolder(folder);
+            this.createGitIgnoreWatcher(folder);
+            this.createShadowBackupWatchers(folder, shadowBackupPatterns);
         }
+
+        this.shadowBackupPatterns = shadowBackupPatterns;
+        void this.workspaceState?.update(SHADOW_BACKUP_PATTERNS_STATE_KEY, [...shadowBackupPatterns]);
     }
 
     /**
@@ -81,18 +122,77 @@ export class FileWatcherManager {
         this.fileWatchers.push(watcher);
     }
 
+    /**
+     * Creates a watcher that makes the folder's ignore rules be read again when a .gitignore file changes
+     */
+    private createGitIgnoreWatcher(folder: vscode.WorkspaceFolder): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, `**/${GITIGNORE_FILENAME}`));
+        const invalidate = () => IgnoreRules.invalidate(folder.uri);
+
+        watcher.onDidCreate(invalidate);
+        watcher.onDidChange(invalidate);
+        watcher.onDidDelete(invalidate);
+        this.fileWatchers.push(watcher);
+    }
+
+    /**
+     * Creates a watcher per shadow backup pattern that copies matching files as they are created
+     * or changed. When a pattern is turned on, the files that already match are copied too.
+     *
+     * @param activePatterns Collects the patterns in use, so the next setup, in this session or a later one, knows which ones are new
+     */
+    private createShadowBackupWatchers(folder: vscode.WorkspaceFolder, activePatterns: Set<string>): void {
+        const store = this.shadowBackupStore;
+
+        if (!store) {
+            return;
+        }
+
+        for (const glob of ExtensionSettings.getShadowBackupPatterns()) {
+            const pattern = new vscode.RelativePattern(folder, glob);
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, false, true);
+
+            watcher.onDidCreate(uri => void store.captureFile(uri));
+            watcher.onDidChange(uri => void store.captureFile(uri));
+            this.fileWatchers.push(watcher);
+
+            const key = `${folder.uri.toString()}|${glob}`;
+            activePatterns.add(key);
+            if (!this.shadowBackupPatterns.has(key)) {
+                void this.captureExistingFiles(store, folder, pattern);
+            }
+        }
+    }
+
+    /**
+     * Copies the files that already match a shadow backup pattern, up to a limit, leaving out
+     * those excluded by files.exclude or hidden by the ignore rules
+     */
+    private async captureExistingFiles(store: ShadowBackupStore, folder: vscode.WorkspaceFolder, pattern: vscode.RelativePattern): Promise<void> {
+        try {
+            const exclude = IgnoreRules.getFilesExcludeGlob(folder.uri);
+            const found = await vscode.workspace.findFiles(pattern, exclude, SHADOW_BACKUP_MAX_EXISTING_FILES);
+            const ignoreRules = await IgnoreRules.load(folder.uri);
+            const uris = found.filter(uri => !ignoreRules.findIgnoringRule(path.posix.relative(folder.uri.path, uri.path)));
+
+            await store.captureFiles(uris);
+        } catch (error) {
+            console.warn(`Could not capture shadow backups for ${pattern.pattern}:`, error);
+        }
+    }
+
     /**
      * Sets up event handlers for file watcher
      */
     private setupWatcherEventHandlers(watcher: vscode.FileSystemWatcher): void {
         watcher.onDidDelete((uri) => {
             console.log(`File deleted: ${uri.fsPath}`);
-            this.triggerDebouncedRefresh();
+            this.recordChange(uri, 'deleted');
         });
 
         watcher.onDidCreate((uri) => {
             console.log(`File created: ${uri.fsPath}`);
-            this.triggerDebouncedRefresh();
+            this.recordChange(uri, 'created');
         });
     }
 
@@ -111,8 +211,8 @@ export class FileWatcherManager {
         if (this.refreshTimer) {
             clearTimeout(this.refreshTimer);
             this.refreshTimer = null;
-            this.pendingRefresh = false;
         }
+        this.pendingChanges.clear();
     }
 
     /**
@@ -125,41 +225,46 @@ export class FileWatcherManager {
     }
 
     /**
-     * Checks if refresh should be skipped
-     */
-    private shouldSkipRefresh(): boolean {
-        return this.pendingRefresh || !this.hasWorkspaceFolders();
-    }
-
-    /**
-     * Schedules a debounced refresh
+     * Schedules a debounced refresh with the changes collected so far
      */
     private scheduleRefresh(): void {
-        this.pendingRefresh = true;
-        
         this.refreshTimer = setTimeout(async () => {
+            this.refreshTimer = null;
+
             try {
-                await this.refreshCallback();
+                await this.refreshCallback(this.takePendingChanges());
             } catch (error) {
                 console.error('Debounced refresh failed:', error);
-            } finally {
-                this.resetRefreshState();
             }
-        }, REFRESH_DEBOUNCE_DELAY_MS);
+        }, ExtensionSettings.getRefreshDebounceDelay());
     }
 
     /**
-     * Resets the refresh state after completion
+     * Returns the collected changes as a batch and starts a new collection
      */
-    private resetRefreshState(): void {
-        this.pendingRefresh = false;
-        this.refreshTimer = null;
+    private takePendingChanges(): FileChangeBatch {
+        const changes: FileChangeBatch = { created: [], deleted: [] };
+
+        for (const change of this.pendingChanges.values()) {
+            changes[change.kind].push(change.uri);
+        }
+
+        this.pendingChanges.clear();
+        return changes;
     }
 
     /**
      * Checks if workspace folders exist
      */
     private hasWorkspaceFolders(): boolean {
-        return !!(vscode.workspace.workspaceFolders?.length);
+        return FileSystemUtils.getWorkspaceFolders().length > 0;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * The latest event seen for a path during the current debounce window
+ */
+interface PendingChange {
+    uri: vscode.Uri;
+    kind: keyof FileChangeBatch;
+}
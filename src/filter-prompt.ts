@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { DeletedItemsFilter } from './types';
+import { GlobMatcher } from './glob-matcher';
+import { FILTER_DATE_RANGES, NO_EXTENSION_LABEL } from './constants';
+
+/**
+ * Quick Pick entry carrying the date range it represents
+ */
+interface DateRangePickItem extends vscode.QuickPickItem {
+    withinMs: number | undefined;
+}
+
+/**
+ * Quick Pick entry carrying the file type it represents
+ */
+interface FileTypePickItem extends vscode.QuickPickItem {
+    fileType: string;
+}
+
+/**
+ * Asks the user for the criteria of the Deleted Items filter
+ */
+export class FilterPrompt {
+
+    /**
+     * Prompts for a text or glob query, a date range and file types, starting from the current filter.
+     * Returns undefined if the user cancels any step.
+     */
+    static async promptForFilter(current: DeletedItemsFilter | undefined, fileTypes: readonly string[]): Promise<DeletedItemsFilter | undefined> {
+        const query = await vscode.window.showInputBox({
+            title: 'Filter Deleted Items',
+            prompt: 'Text contained in the path, or a glob such as src/**/*.ts. Leave empty to match any path.',
+            value: current?.query ?? '',
+            validateInput: value => GlobMatcher.isGlob(value) && !GlobMatcher.isValid(value.trim(), true)
+                ? 'This glob is not valid, e.g. a character class range such as [z-a] is reversed'
+                : undefined
+        });
+
+        if (query === undefined) {
+            return undefined;
+        }
+
+        const dateRange = await this.pickDateRange(current);
+        if (!dateRange) {
+            return undefined;
+        }
+
+        const selectedTypes = await this.pickFileTypes(current, fileTypes);
+        if (!selectedTypes) {
+            return undefined;
+        }
+
+        return {
+            query: query.trim() || undefined,
+            deletedWithinMs: dateRange.withinMs,
+            fileTypes: selectedTypes.length > 0 ? selectedTypes : undefined
+        };
+    }
+
+    /**
+     * Lets the user choose how recently items must have been deleted
+     */
+    private static async pickDateRange(current: DeletedItemsFilter | undefined): Promise<DateRangePickItem | undefined> {
+        const items: DateRangePickItem[] = FILTER_DATE_RANGES.map(range => ({
+            label: range.label,
+            description: range.withinMs === current?.deletedWithinMs ? 'current' : undefined,
+            withinMs: range.withinMs
+        }));
+
+        return vscode.window.showQuickPick(items, {
+            title: 'Filter Deleted Items',
+            placeHolder: 'Show items deleted...'
+        });
+    }
+
+    /**
+     * Lets the user choose file types; choosing none matches every type
+     */
+    private static async pickFileTypes(current: DeletedItemsFilter | undefined, fileTypes: readonly string[]): Promise<string[] | undefined> {
+        if (fileTypes.length === 0) {
+            return [];
+        }
+
+        const items: FileTypePickItem[] = fileTypes.map(fileType => ({
+            label: fileType || NO_EXTENSION_LABEL,
+            picked: current?.fileTypes?.includes(fileType) ?? false,
+            fileType
+        }));
+
+        const selection = await vscode.window.showQuickPick(items, {
+            title: 'Filter Deleted Items',
+            placeHolder: 'Select file types to show, or none for all types',
+            canPickMany: true
+        });
+
+        return selection?.map(item => item.fileType);
+    }
+}
@@ -0,0 +1,48 @@
+import * as vscode from 'vscode';
+
+/**
+ * The subset of the built-in Git extension's API (version 1) used by this extension.
+ * See extensions/git/src/api/git.d.ts in the VS Code repository for the full API.
+ */
+
+/**
+ * Exports of the `vscode.git` extension
+ */
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+/**
+ * Entry point to the open Git repositories
+ */
+export interface GitAPI {
+    readonly repositories: Repository[];
+    getRepository(uri: vscode.Uri): Repository | null;
+    toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+/**
+ * A Git repository opened by the Git extension
+ */
+export interface Repository {
+    readonly rootUri: vscode.Uri;
+    readonly state: RepositoryState;
+    buffer(ref: string, path: string): Promise<Buffer>;
+}
+
+/**
+ * Current state of a repository
+ */
+export interface RepositoryState {
+    readonly indexChanges: Change[];
+    readonly workingTreeChanges: Change[];
+}
+
+/**
+ * A changed path in the index or working tree
+ */
+export interface Change {
+    readonly uri: vscode.Uri;
+    readonly status: number;
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { GitAPI, GitExtension, Repository } from './git-api';
+import { GitTrackingStatus } from './types';
+import { PathIdentity } from './path-identity';
+import { GIT_DELETED_STATUSES, GIT_EXTENSION_ID, GIT_HEAD_REF } from './constants';
+
+/**
+ * Asks the built-in Git extension which deleted files git can restore and reads their HEAD versions.
+ * Everything degrades to "not in a repository" when the Git extension is missing or disabled.
+ */
+export class GitIntegration {
+    private apiPromise: Promise<GitAPI | undefined> | undefined;
+
+    /**
+     * Determines for each file whether it is still in HEAD. A deleted file git can restore shows
+     * up as a deleted change in its repository; files outside any repository get no entry.
+     * The returned map is keyed by file system path.
+     */
+    async getTrackingStatus(uris: readonly vscode.Uri[]): Promise<Map<string, GitTrackingStatus>> {
+        const statuses = new Map<string, GitTrackingStatus>();
+        const api = await this.getAPI();
+
+        if (!api || uris.length === 0) {
+            return statuses;
+        }
+
+        const deletedPaths = new Map<Repository, Set<string>>();
+
+        for (const uri of uris) {
+            const repository = api.getRepository(uri);
+
+            if (!repository) {
+                continue;
+            }
+
+            if (!deletedPaths.has(repository)) {
+                deletedPaths.set(repository, this.getDeletedPaths(repository));
+            }
+
+            statuses.set(uri.fsPath, deletedPaths.get(repository)!.has(PathIdentity.toKey(uri.fsPath)) ? 'tracked' : 'untracked');
+        }
+
+        return statuses;
+    }
+
+    /**
+     * Reads a file's content in HEAD
+     */
+    async readHeadContent(uri: vscode.Uri): Promise<Uint8Array> {
+        const repository = (await this.getAPI())?.getRepository(uri);
+
+        if (!repository) {
+            throw new Error(`${uri.fsPath} is not in a git repository`);
+        }
+
+        return repository.buffer(GIT_HEAD_REF, uri.fsPath);
+    }
+
+    /**
+     * Creates a URI that opens a file's HEAD version in an editor or diff view
+     */
+    async toHeadUri(uri: vscode.Uri): Promise<vscode.Uri> {
+        const api = await this.getAPI();
+
+        if (!api) {
+            throw new Error('The Git extension is not available');
+        }
+
+        return api.toGitUri(uri, GIT_HEAD_REF);
+    }
+
+    /**
+     * Lists the path keys of the files a repository reports as deleted, staged or not
+     */
+    private getDeletedPaths(repository: Repository): Set<string> {
+        const changes = [...repository.state.workingTreeChanges, ...repository.state.indexChanges];
+
+        return new Set(changes
+            .filter(change => GIT_DELETED_STATUSES.includes(change.status))
+            .map(change => PathIdentity.toKey(change.uri.fsPath)));
+    }
+
+    /**
+     * Gets the Git extension's API, activating the extension on first use.
+     * A failed lookup is retried next time, in case git gets enabled later.
+     */
+    private getAPI(): Promise<GitAPI | undefined> {
+        this.apiPromise ??= this.loadAPI().then(api => {
+            if (!api) {
+                this.apiPromise = undefined;
+            }
+            return api;
+        });
+        return this.apiPromise;
+    }
+
+    /**
+     * Loads the API, or resolves to undefined if the Git extension is missing or disabled
+     */
+    private async loadAPI(): Promise<GitAPI | undefined> {
+        const extension = vscode.extensions.getExtension<GitExtension>(GIT_EXTENSION_ID);
+
+        if (!extension) {
+            return undefined;
+        }
+
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            return gitExtension.enabled ? gitExtension.getAPI(1) : undefined;
+        } catch (error) {
+            console.log(`Git extension unavailable: ${error}`);
+            return undefined;
+        }
+    }
+}
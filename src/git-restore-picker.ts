@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { DeletedItem, RestoreSource } from './types';
+
+/**
+ * Quick Pick entry carrying the action it represents
+ */
+interface SourcePickItem extends vscode.QuickPickItem {
+    action: RestoreSource | 'compare';
+}
+
+/**
+ * Lets the user choose between the git HEAD and local-history versions of a file git can restore
+ */
+export class GitRestorePicker {
+
+    /**
+     * Asks which version to restore. Choosing the comparison runs `compare` and asks again.
+     * Returns undefined if the user cancels.
+     */
+    static async pickSource(item: DeletedItem, compare: () => Promise<void>): Promise<RestoreSource | undefined> {
+        const items = this.createPickItems(item);
+
+        for (;;) {
+            const selection = await vscode.window.showQuickPick(items, {
+                title: `Restore ${item.relativePath}`,
+                placeHolder: 'This file is also tracked in git. Which version should be restored?'
+            });
+
+            if (selection?.action !== 'compare') {
+                return selection?.action;
+            }
+
+            await compare();
+        }
+    }
+
+    /**
+     * Creates the entries for both versions and the comparison
+     */
+    private static createPickItems(item: DeletedItem): SourcePickItem[] {
+        const items: SourcePickItem[] = [
+            {
+                label: '$(history) Local history',
+                description: item.deletionTime.toLocaleString(),
+                detail: 'The newest version saved in local history, usually the state just before deletion',
+                action: 'localHistory'
+            },
+            {
+                label: '$(git-commit) Git HEAD',
+                detail: 'The version in the last commit',
+                action: 'gitHead'
+            }
+        ];
+
+        if (item.backupPath) {
+            items.push({
+                label: '$(diff) Compare Git HEAD with local history',
+                action: 'compare'
+            });
+        }
+
+        return items;
+    }
+}
@@ -0,0 +1,155 @@
+import { GLOB_CACHE_MAX_ENTRIES } from './constants';
+
+/**
+ * Matches slash-separated paths against glob patterns.
+ *
+ * Supports `*` (within a segment), `**` (any number of segments), `?`,
+ * character classes such as `[a-z]` or `[!a-z]`, and alternatives such as `{ts,js}`.
+ * A `{` without a matching `}` or a `[` without a closing `]` is literal text.
+ */
+export class GlobMatcher {
+    private static readonly cache = new Map<string, RegExp | null>();
+
+    /**
+     * Checks whether a query uses any glob syntax
+     */
+    static isGlob(query: string): boolean {
+        return /[*?[\]{}]/.test(query);
+    }
+
+    /**
+     * Checks whether a glob compiles, e.g. that its character classes hold valid ranges
+     */
+    static isValid(glob: string, ignoreCase = false): boolean {
+        return this.tryToRegExp(glob, ignoreCase) !== null;
+    }
+
+    /**
+     * Checks whether a slash-separated path matches the glob.
+     * A glob without a slash is matched against the last path segment only.
+     * Throws a SyntaxError if the glob does not compile.
+     */
+    static matches(filePath: string, glob: string, ignoreCase = false): boolean {
+        const normalizedPath = filePath.replace(/\\/g, '/');
+        const target = glob.includes('/') ? normalizedPath : normalizedPath.split('/').pop() ?? '';
+
+        return this.toRegExp(glob, ignoreCase).test(target);
+    }
+
+    /**
+     * Converts a glob to an anchored regular expression, caching the result.
+     * With `braceAlternatives` off, braces are literal text, as in .gitignore files.
+     * Throws a SyntaxError if the glob does not compile.
+     */
+    static toRegExp(glob: string, ignoreCase = false, braceAlternatives = true): RegExp {
+        const regExp = this.tryToRegExp(glob, ignoreCase, braceAlternatives);
+
+        if (!regExp) {
+            throw new SyntaxError(`Invalid glob: ${glob}`);
+        }
+
+        return regExp;
+    }
+
+    /**
+     * Converts a glob to an anchored regular expression, or returns null if it does not compile.
+     * Results are cached, dropping the oldest entries once the cache is full.
+     */
+    private static tryToRegExp(glob: string, ignoreCase: boolean, braceAlternatives = true): RegExp | null {
+        const key = `${ignoreCase ? 'i' : 's'}${braceAlternatives ? 'b' : 'l'}:${glob}`;
+        const cached = this.cache.get(key);
+
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let regExp: RegExp | null;
+        try {
+            regExp = new RegExp(`^${this.translate(glob.replace(/^\/+/, ''), braceAlternatives)}$`, ignoreCase ? 'i' : '');
+        } catch {
+            regExp = null;
+        }
+
+        if (this.cache.size >= GLOB_CACHE_MAX_ENTRIES) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+        this.cache.set(key, regExp);
+
+        return regExp;
+    }
+
+    /**
+     * Translates glob syntax to regular expression source
+     */
+    private static translate(glob: string, braceAlternatives: boolean): string {
+        const pairedBraces = braceAlternatives ? this.findPairedBraces(glob) : new Set<number>();
+        let source = '';
+        let braceDepth = 0;
+
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+
+            if (char === '*' && glob[i + 1] === '*') {
+                const atSegmentStart = i === 0 || glob[i - 1] === '/';
+                const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+                i++;
+
+                if (atSegmentStart && glob[i + 1] === '/') {
+                    source += '(?:.*/)?';
+                    i++;
+                } else {
+                    source += atSegmentStart && atSegmentEnd ? '.*' : '[^/]*';
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else if (char === '[') {
+                const end = glob.indexOf(']', i + 1);
+
+                if (end === -1) {
+                    source += '\\[';
+                } else {
+                    const members = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                    source += `[${members}]`;
+                    i = end;
+                }
+            } else if (char === '{' && pairedBraces.has(i)) {
+                braceDepth++;
+                source += '(?:';
+            } else if (char === '}' && pairedBraces.has(i)) {
+                braceDepth--;
+                source += ')';
+            } else if (char === ',' && braceDepth > 0) {
+                source += '|';
+            } else {
+                source += char.replace(/[.+^$()|\\\]{}]/g, '\\$&');
+            }
+        }
+
+        return source;
+    }
+
+    /**
+     * Finds the positions of braces that open or close an alternative, skipping character classes
+     */
+    private static findPairedBraces(glob: string): Set<number> {
+        const paired = new Set<number>();
+        const open: number[] = [];
+
+        for (let i = 0; i < glob.length; i++) {
+            const classEnd = glob[i] === '[' ? glob.indexOf(']', i + 1) : -1;
+
+            if (classEnd !== -1) {
+                i = classEnd;
+            } else if (glob[i] === '{') {
+                open.push(i);
+            } else if (glob[i] === '}' && open.length > 0) {
+                paired.add(open.pop()!);
+                paired.add(i);
+            }
+        }
+
+        return paired;
+    }
+}
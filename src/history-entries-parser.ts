@@ -0,0 +1,124 @@
+import { BackupEntry, HistoryEntry } from './types';
+
+/**
+ * Result of parsing an entries.json file
+ */
+export interface ParsedHistoryEntries {
+    /** Parsed metadata, or null if the file itself is unusable */
+    backupEntry: BackupEntry | null;
+
+    /** Problems found in the file or in individual entries */
+    errors: string[];
+}
+
+/**
+ * Parses and validates VS Code's local history entries.json schema
+ */
+export class HistoryEntriesParser {
+
+    /**
+     * Parses raw entries.json content, collecting errors for malformed parts
+     */
+    static parse(raw: unknown, sourcePath: string): ParsedHistoryEntries {
+        if (!this.isRecord(raw)) {
+            return this.failure(`Malformed ${sourcePath}: expected a JSON object`);
+        }
+
+        if (typeof raw.resource !== 'string' || raw.resource.length === 0) {
+            return this.failure(`Malformed ${sourcePath}: missing "resource"`);
+        }
+
+        if (raw.version !== undefined && typeof raw.version !== 'number') {
+            return this.failure(`Malformed ${sourcePath}: "version" must be a number`);
+        }
+
+        if (raw.entries !== undefined && !Array.isArray(raw.entries)) {
+            return this.failure(`Malformed ${sourcePath}: "entries" must be an array`);
+        }
+
+        const errors: string[] = [];
+        const entries = this.parseEntries(raw.entries ?? [], sourcePath, errors);
+
+        return {
+            backupEntry: {
+                version: raw.version ?? 1,
+                resource: raw.resource,
+                entries
+            },
+            errors
+        };
+    }
+
+    /**
+     * Parses the entries array, skipping and reporting malformed entries
+     */
+    private static parseEntries(rawEntries: unknown[], sourcePath: string, errors: string[]): HistoryEntry[] {
+        const entries: HistoryEntry[] = [];
+
+        rawEntries.forEach((rawEntry, index) => {
+            const problem = this.findEntryProblem(rawEntry);
+
+            if (problem) {
+                errors.push(`Malformed history entry ${index} in ${sourcePath}: ${problem}`);
+                return;
+            }
+
+            entries.push(this.toHistoryEntry(rawEntry as Record<string, unknown>));
+        });
+
+        return entries;
+    }
+
+    /**
+     * Describes why a raw entry is malformed, or returns null if it is valid
+     */
+    private static findEntryProblem(rawEntry: unknown): string | null {
+        if (!this.isRecord(rawEntry)) {
+            return 'expected an object';
+        }
+
+        if (typeof rawEntry.id !== 'string' || rawEntry.id.length === 0) {
+            return 'missing "id"';
+        }
+
+        if (typeof rawEntry.timestamp !== 'number' || !Number.isFinite(rawEntry.timestamp)) {
+            return 'missing or invalid "timestamp"';
+        }
+
+        if (rawEntry.source !== undefined && typeof rawEntry.source !== 'string') {
+            return '"source" must be a string';
+        }
+
+        if (rawEntry.sourceDescription !== undefined && typeof rawEntry.sourceDescription !== 'string') {
+            return '"sourceDescription" must be a string';
+        }
+
+        return null;
+    }
+
+    /**
+     * Converts a validated raw entry into a typed history entry
+     */
+    private static toHistoryEntry(rawEntry: Record<string, unknown>): HistoryEntry {
+        return {
+            id: rawEntry.id as string,
+            timestamp: rawEntry.timestamp as number,
+            source: rawEntry.source as string | undefined,
+            sourceDescription: rawEntry.sourceDescription as string | undefined
+        };
+    }
+
+    /**
+     * Builds a result for a file that cannot be used at all
+     */
+    private static failure(error: string): ParsedHistoryEntries {
+        return { backupEntry: null, errors: [error] };
+    }
+
+    /**
+     * Checks whether a value is a plain JSON object
+     */
+    private static isRecord(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
@@ -0,0 +1,299 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GlobMatcher } from './glob-matcher';
+import { ExtensionSettings } from './extension-settings';
+import { GITIGNORE_FILENAME, GITIGNORE_MAX_FILES, GITIGNORE_SEARCH_EXCLUDE } from './constants';
+
+/**
+ * A single ignore pattern together with where it came from
+ */
+interface IgnoreRule {
+    /** Folder the pattern is relative to, relative to the workspace folder ('' for the folder itself) */
+    baseDirectory: string;
+
+    /** The glob, without the negation prefix and the trailing slash, compiled once when the rule is read */
+    regExp: RegExp;
+
+    /** True for "!pattern" lines, which re-include what earlier rules ignored */
+    negated: boolean;
+
+    /** True for "pattern/" lines, which only match directories */
+    directoryOnly: boolean;
+
+    /** True if the glob is matched against the whole relative path rather than any single name */
+    anchored: boolean;
+
+    /** Where the rule came from, with the original pattern, e.g. ".gitignore: dist/" */
+    description: string;
+}
+
+/**
+ * Rules loaded for a workspace folder, with the settings they were read from
+ */
+interface LoadedRules {
+    settingsKey: string;
+    rules: Promise<IgnoreRules>;
+}
+
+/**
+ * Ignore rules of one workspace folder, combined from files.exclude, the folder's
+ * .gitignore files and the extension's ignorePatterns setting.
+ *
+ * Like git, the last matching rule wins and a path inside an ignored folder stays
+ * ignored. Later sources override earlier ones: deeper .gitignore files override
+ * shallower ones, and ignorePatterns overrides everything.
+ *
+ * Loaded rules are kept per workspace folder until a .gitignore file changes or the
+ * settings they were read from differ.
+ */
+export class IgnoreRules {
+    private static readonly loaded = new Map<string, LoadedRules>();
+    private readonly rules: IgnoreRule[];
+    private readonly skippedRules: string[];
+
+    private constructor(rules: IgnoreRule[], skippedRules: string[]) {
+        this.rules = rules;
+        this.skippedRules = skippedRules;
+    }
+
+    /**
+     * Gets the rules for a workspace folder from the sources enabled in the settings, reusing
+     * the rules loaded before unless they were invalidated or the settings changed since.
+     * .gitignore files are read through VS Code's file system, so remote folders work too.
+     */
+    static async load(workspaceFolder: string | vscode.Uri): Promise<IgnoreRules> {
+        const workspaceUri = typeof workspaceFolder === 'string' ? vscode.Uri.file(workspaceFolder) : workspaceFolder;
+        const key = workspaceUri.toString();
+        const settingsKey = this.getSettingsKey(workspaceUri);
+        const cached = this.loaded.get(key);
+
+        if (cached?.settingsKey === settingsKey) {
+            return cached.rules;
+        }
+
+        const loaded: LoadedRules = { settingsKey, rules: this.read(workspaceUri) };
+        this.loaded.set(key, loaded);
+
+        try {
+            return await loaded.rules;
+        } catch (error) {
+            if (this.loaded.get(key) === loaded) {
+                this.loaded.delete(key);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Forgets the loaded rules of a workspace folder, or of every folder, so the next load reads them again
+     */
+    static invalidate(workspaceFolder?: vscode.Uri): void {
+        if (workspaceFolder) {
+            this.loaded.delete(workspaceFolder.toString());
+        } else {
+            this.loaded.clear();
+        }
+    }
+
+    /**
+     * Combines the enabled globs of the files.exclude setting into one glob for excluding them from a
+     * file search, or returns undefined if none is enabled
+     */
+    static getFilesExcludeGlob(workspaceUri: vscode.Uri): string | undefined {
+        const globs = Object.entries(this.getFilesExclude(workspaceUri))
+            .filter(([, enabled]) => enabled === true)
+            .map(([glob]) => glob);
+
+        return globs.length > 0 ? `{${globs.join(',')}}` : undefined;
+    }
+
+    /**
+     * Reads the rules for a workspace folder from the sources enabled in the settings
+     */
+    private static async read(workspaceUri: vscode.Uri): Promise<IgnoreRules> {
+        const rules: IgnoreRule[] = [];
+        const skippedRules: string[] = [];
+
+        if (ExtensionSettings.shouldUseFilesExclude()) {
+            rules.push(...this.readFilesExclude(workspaceUri, skippedRules));
+        }
+
+        if (ExtensionSettings.shouldUseGitIgnore()) {
+            rules.push(...await this.readGitIgnoreFiles(workspaceUri, skippedRules));
+        }
+
+        rules.push(...this.parseGitIgnore(ExtensionSettings.getIgnorePatterns().join('\n'), '', 'ignorePatterns', skippedRules));
+
+        return new IgnoreRules(rules, skippedRules);
+    }
+
+    /**
+     * Describes the rules that were left out because their pattern does not compile, e.g. ".gitignore: foo["
+     */
+    getSkippedRules(): string[] {
+        return [...this.skippedRules];
+    }
+
+    /**
+     * Describes the rule ignoring a path relative to the workspace folder, or returns undefined if it is not ignored
+     */
+    findIgnoringRule(relativePath: string): string | undefined {
+        const segments = relativePath.split(/[\\/]/).filter(segment => segment.length > 0);
+
+        for (let length = 1; length <= segments.length; length++) {
+            const candidate = segments.slice(0, length).join('/');
+            const rule = this.findLastMatch(candidate, length < segments.length);
+
+            if (rule && !rule.negated) {
+                return rule.description;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Finds the last rule matching a path, which decides whether it is ignored
+     */
+    private findLastMatch(candidate: string, isDirectory: boolean): IgnoreRule | undefined {
+        for (let index = this.rules.length - 1; index >= 0; index--) {
+            const rule = this.rules[index];
+
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+
+            const relativeToBase = this.relativeToBase(candidate, rule.baseDirectory);
+
+            if (relativeToBase !== undefined && this.matchesRule(relativeToBase, rule)) {
+                return rule;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Makes a path relative to a rule's folder, or returns undefined if it lies outside it
+     */
+    private relativeToBase(candidate: string, baseDirectory: string): string | undefined {
+        if (!baseDirectory) {
+            return candidate;
+        }
+
+        return candidate.startsWith(`${baseDirectory}/`) ? candidate.slice(baseDirectory.length + 1) : undefined;
+    }
+
+    /**
+     * Matches a path against a rule's glob, as a whole path or by its last name
+     */
+    private matchesRule(relativePath: string, rule: IgnoreRule): boolean {
+        return rule.regExp.test(rule.anchored ? relativePath : relativePath.split('/').pop() ?? '');
+    }
+
+    /**
+     * Combines the settings the rules are read from, to tell when loaded rules are out of date
+     */
+    private static getSettingsKey(workspaceUri: vscode.Uri): string {
+        return JSON.stringify([
+            ExtensionSettings.shouldUseFilesExclude() && vscode.workspace.getConfiguration('files', workspaceUri).get('exclude', {}),
+            ExtensionSettings.shouldUseGitIgnore(),
+            ExtensionSettings.getIgnorePatterns()
+        ]);
+    }
+
+    /**
+     * Reads the enabled globs of the files.exclude setting for a workspace folder
+     */
+    private static readFilesExclude(workspaceUri: vscode.Uri, skippedRules: string[]): IgnoreRule[] {
+        const rules: IgnoreRule[] = [];
+
+        for (const [glob, enabled] of Object.entries(this.getFilesExclude(workspaceUri))) {
+            const description = `files.exclude: ${glob}`;
+            const regExp = enabled === true ? this.compile(glob, true, description, skippedRules) : undefined;
+
+            if (regExp) {
+                rules.push({ baseDirectory: '', regExp, negated: false, directoryOnly: false, anchored: true, description });
+            }
+        }
+
+        return rules;
+    }
+
+    /**
+     * Reads the files.exclude setting of a workspace folder
+     */
+    private static getFilesExclude(workspaceUri: vscode.Uri): Record<string, unknown> {
+        return vscode.workspace.getConfiguration('files', workspaceUri).get<Record<string, unknown>>('exclude', {}) ?? {};
+    }
+
+    /**
+     * Reads the .gitignore files in a workspace folder, shallowest first, leaving out those of dependencies
+     */
+    private static async readGitIgnoreFiles(workspaceUri: vscode.Uri, skippedRules: string[]): Promise<IgnoreRule[]> {
+        const pattern = new vscode.RelativePattern(workspaceUri, `**/${GITIGNORE_FILENAME}`);
+        const gitIgnoreFiles = (await vscode.workspace.findFiles(pattern, GITIGNORE_SEARCH_EXCLUDE, GITIGNORE_MAX_FILES))
+            .map(uri => path.posix.relative(workspaceUri.path, uri.path))
+            .sort((a, b) => a.split('/').length - b.split('/').length);
+
+        const contents = await Promise.all(gitIgnoreFiles.map(async relativeFile => {
+            try {
+                const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceUri, relativeFile));
+                return new TextDecoder().decode(content);
+            } catch {
+                return '';
+            }
+        }));
+
+        return gitIgnoreFiles.flatMap((relativeFile, index) => {
+            const baseDirectory = path.posix.dirname(relativeFile);
+            return this.parseGitIgnore(contents[index], baseDirectory === '.' ? '' : baseDirectory, relativeFile, skippedRules);
+        });
+    }
+
+    /**
+     * Parses .gitignore syntax, skipping blank lines and comments.
+     * Braces are literal text, as in git; patterns that do not compile are added to `skippedRules`.
+     */
+    private static parseGitIgnore(content: string, baseDirectory: string, source: string, skippedRules: string[]): IgnoreRule[] {
+        const rules: IgnoreRule[] = [];
+
+        for (const rawLine of content.split(/\r?\n/)) {
+            const line = rawLine.trimEnd();
+
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const negated = line.startsWith('!');
+            let glob = (negated ? line.slice(1) : line).replace(/^\\(?=[#!])/, '');
+            const directoryOnly = glob.endsWith('/');
+            glob = glob.replace(/\/+$/, '');
+
+            if (!glob) {
+                continue;
+            }
+
+            const description = `${source}: ${line}`;
+            const regExp = this.compile(glob.replace(/^\//, ''), false, description, skippedRules);
+
+            if (regExp) {
+                rules.push({ baseDirectory, regExp, negated, directoryOnly, anchored: glob.includes('/'), description });
+            }
+        }
+
+        return rules;
+    }
+
+    /**
+     * Compiles a rule's glob, or records the rule as skipped and returns undefined if it does not compile
+     */
+    private static compile(glob: string, braceAlternatives: boolean, description: string, skippedRules: string[]): RegExp | undefined {
+        try {
+            return GlobMatcher.toRegExp(glob, false, braceAlternatives);
+        } catch {
+            skippedRules.push(description);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ArchiveEntry, DeletedItem, ExportManifest, ExportSummary } from './types';
+import { ArchiveWriter } from './archive-writer';
+import { EXPORT_MANIFEST_FILENAME, EXPORT_MANIFEST_VERSION } from './constants';
+
+/**
+ * Writes deleted items into an archive without touching the workspace
+ */
+export class ItemExporter {
+
+    /**
+     * Exports the newest backup of each selected file, and of every file in selected folders,
+     * into an archive at the target. Files keep their relative paths; when they come from several
+     * workspace folders, each path starts with its folder's name. A manifest describing every
+     * file is added at the root of the archive.
+     */
+    static async exportItems(items: readonly DeletedItem[], targetUri: vscode.Uri, now = new Date()): Promise<ExportSummary> {
+        const files = this.collectFiles(items);
+        const prefixWithFolder = new Set(files.map(file => file.workspaceRoot)).size > 1;
+        const manifest: ExportManifest = { version: EXPORT_MANIFEST_VERSION, exportedAt: now.toISOString(), items: [], skipped: [] };
+        const entries: ArchiveEntry[] = [];
+
+        for (const file of files) {
+            if (!file.backupPath) {
+                manifest.skipped.push({ originalPath: file.uri.fsPath, reason: 'No backup path available' });
+                continue;
+            }
+
+            try {
+                const content = await vscode.workspace.fs.readFile(vscode.Uri.file(file.backupPath));
+                const archivePath = this.getArchivePath(file, prefixWithFolder);
+
+                entries.push({ path: archivePath, content, modifiedTime: file.deletionTime });
+                manifest.items.push({
+                    archivePath,
+                    originalPath: file.uri.fsPath,
+                    backupPath: file.backupPath,
+                    deletionTime: file.deletionTime.toISOString()
+                });
+            } catch (error) {
+                manifest.skipped.push({ originalPath: file.uri.fsPath, reason: `Failed to read backup file: ${error}` });
+            }
+        }
+
+        entries.push({
+            path: EXPORT_MANIFEST_FILENAME,
+            content: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'),
+            modifiedTime: now
+        });
+
+        const archive = ArchiveWriter.create(entries, ArchiveWriter.getFormatFromPath(targetUri.fsPath));
+        await vscode.workspace.fs.writeFile(targetUri, archive);
+
+        return { exported: manifest.items.length, skipped: manifest.skipped.length };
+    }
+
+    /**
+     * Collects the files among the items and inside folder subtrees, each file once
+     */
+    private static collectFiles(items: readonly DeletedItem[]): DeletedItem[] {
+        const files = new Map<string, DeletedItem>();
+
+        const visit = (item: DeletedItem) => {
+            if (!item.isDirectory) {
+                files.set(item.uri.fsPath, item);
+            }
+
+            item.children?.forEach(visit);
+        };
+
+        items.forEach(visit);
+        return [...files.values()];
+    }
+
+    /**
+     * Gets the slash-separated path of a file inside the archive
+     */
+    private static getArchivePath(file: DeletedItem, prefixWithFolder: boolean): string {
+        const relativePath = file.relativePath.split(path.sep).join('/');
+
+        return prefixWithFolder && file.workspaceRoot
+            ? `${path.basename(file.workspaceRoot)}/${relativePath}`
+            : relativePath;
+    }
+}
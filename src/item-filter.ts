@@ -0,0 +1,89 @@
+import * as path from 'path';
+import { DeletedItem, DeletedItemsFilter } from './types';
+import { GlobMatcher } from './glob-matcher';
+import { FILTER_DATE_RANGES, NO_EXTENSION_LABEL } from './constants';
+
+/**
+ * Decides which deleted items match the filter of the Deleted Items view
+ */
+export class ItemFilter {
+
+    /**
+     * Checks whether the filter has any criteria set
+     */
+    static isActive(filter: DeletedItemsFilter | undefined): filter is DeletedItemsFilter {
+        return !!filter && (!!filter.query || filter.deletedWithinMs !== undefined || !!filter.fileTypes?.length);
+    }
+
+    /**
+     * Checks whether an item meets every criterion of the filter
+     */
+    static matches(item: DeletedItem, filter: DeletedItemsFilter, now = Date.now()): boolean {
+        return this.matchesQuery(item, filter.query)
+            && this.matchesDateRange(item, filter.deletedWithinMs, now)
+            && this.matchesFileType(item, filter.fileTypes);
+    }
+
+    /**
+     * Gets the file type an item is filtered by: its lower-case extension, or '' if it has none
+     */
+    static getFileType(item: DeletedItem): string {
+        return path.extname(item.relativePath).toLowerCase();
+    }
+
+    /**
+     * Describes the filter in a short line for the view's description
+     */
+    static describe(filter: DeletedItemsFilter): string {
+        const parts: string[] = [];
+
+        if (filter.query) {
+            parts.push(`"${filter.query}"`);
+        }
+
+        const dateRange = FILTER_DATE_RANGES.find(range => range.withinMs === filter.deletedWithinMs);
+        if (filter.deletedWithinMs !== undefined && dateRange) {
+            parts.push(dateRange.label.toLowerCase());
+        }
+
+        if (filter.fileTypes?.length) {
+            parts.push(filter.fileTypes.map(type => type || NO_EXTENSION_LABEL).join(', '));
+        }
+
+        return `Filtered: ${parts.join('; ')}`;
+    }
+
+    /**
+     * Matches the relative path against a glob, or checks that it contains the text.
+     * A query that does not compile as a glob is matched as text.
+     */
+    private static matchesQuery(item: DeletedItem, query: string | undefined): boolean {
+        if (!query) {
+            return true;
+        }
+
+        if (GlobMatcher.isGlob(query) && GlobMatcher.isValid(query, true)) {
+            return GlobMatcher.matches(item.relativePath, query, true);
+        }
+
+        return item.relativePath.toLowerCase().includes(query.toLowerCase());
+    }
+
+    /**
+     * Checks that the item was deleted recently enough
+     */
+    private static matchesDateRange(item: DeletedItem, withinMs: number | undefined, now: number): boolean {
+        return withinMs === undefined || now - item.deletionTime.getTime() <= withinMs;
+    }
+
+    /**
+     * Checks that a file has one of the selected extensions; folders never match a type filter
+     */
+    private static matchesFileType(item: DeletedItem, fileTypes: string[] | undefined): boolean {
+        if (!fileTypes?.length) {
+            return true;
+        }
+
+        return !item.isDirectory && fileTypes.includes(this.getFileType(item));
+    }
+}
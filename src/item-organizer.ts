@@ -1,15 +1,23 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { DeletedItem } from './types';
+import { DELETION_SESSION_GAP_MS } from './constants';
+import { PathIdentity } from './path-identity';
 
 /**
- * Organizes deleted items into a hierarchical folder structure for tree display
+ * Organizes deleted items for tree display: as a folder hierarchy, as deletion sessions or as a flat list
  */
 export class ItemOrganizer {
     private readonly workspaceRoot: string;
+    private readonly workspaceUri: vscode.Uri;
 
-    constructor(workspaceRoot: string) {
+    /**
+     * @param workspaceRoot File system path of the workspace folder the items are relative to
+     * @param workspaceUri The workspace folder's URI, which folder nodes are created under; needed for remote folders
+     */
+    constructor(workspaceRoot: string, workspaceUri: vscode.Uri = vscode.Uri.file(workspaceRoot)) {
         this.workspaceRoot = workspaceRoot;
+        this.workspaceUri = workspaceUri;
     }
 
     /**
@@ -28,21 +36,211 @@ export class ItemOrganizer {
     }
 
     /**
-     * Creates folder items for all directory paths found in deleted items
+     * Groups items into deletion sessions: runs of items deleted no more than
+     * DELETION_SESSION_GAP_MS apart, most recent session first
+     */
+    organizeItemsBySession(deletedItems: DeletedItem[], now = new Date()): DeletedItem[] {
+        const newestFirst = [...deletedItems].sort((a, b) => b.deletionTime.getTime() - a.deletionTime.getTime());
+        const sessions: DeletedItem[][] = [];
+
+        for (const item of newestFirst) {
+            const session = sessions[sessions.length - 1];
+            const previous = session?.[session.length - 1];
+
+            if (previous && previous.deletionTime.getTime() - item.deletionTime.getTime() <= DELETION_SESSION_GAP_MS) {
+                session.push(item);
+            } else {
+                sessions.push([item]);
+            }
+        }
+
+        return sessions.map(session => this.createSessionItem(session, now));
+    }
+
+    /**
+     * Lists items without any grouping, sorted like the items of a folder
+     */
+    organizeItemsFlat(deletedItems: DeletedItem[]): DeletedItem[] {
+        return this.sortItems([...deletedItems]);
+    }
+
+    /**
+     * Inserts a deleted file into an organized tree in place, creating missing folders
+     * and keeping folder timestamps and sort order up to date.
+     * Returns the folder whose children changed, or null if the top-level list changed.
+     */
+    insertItem(topLevelItems: DeletedItem[], item: DeletedItem): DeletedItem | null {
+        const chain = this.findFolderChain(topLevelItems, path.dirname(item.relativePath), true) ?? [];
+        const lists = this.getChildLists(topLevelItems, chain);
+
+        // Existing folders always have children, so the first empty one was just created
+        const firstCreatedFolder = chain.findIndex(folder => folder.children?.length === 0);
+        const changedLevel = firstCreatedFolder >= 0 ? firstCreatedFolder : chain.length;
+
+        lists[chain.length].push(item);
+
+        return this.getChangedNode(chain, this.updateAncestors(chain, lists, changedLevel));
+    }
+
+    /**
+     * Removes an item from an organized tree in place, dropping folders left empty.
+     * Returns the folder whose children changed, or null if the top-level list changed
+     * or the item could not be found.
+     */
+    removeItem(topLevelItems: DeletedItem[], item: DeletedItem): DeletedItem | null {
+        const chain = this.findFolderChain(topLevelItems, path.dirname(item.relativePath), false);
+
+        if (!chain) {
+            return null;
+        }
+
+        const lists = this.getChildLists(topLevelItems, chain);
+        const index = lists[chain.length].indexOf(item);
+
+        if (index < 0) {
+            return null;
+        }
+
+        lists[chain.length].splice(index, 1);
+
+        let changedLevel = chain.length;
+        while (changedLevel > 0 && lists[changedLevel].length === 0) {
+            const parentList = lists[changedLevel - 1];
+            parentList.splice(parentList.indexOf(chain[changedLevel - 1]), 1);
+            changedLevel--;
+        }
+
+        chain.length = changedLevel;
+        lists.length = changedLevel + 1;
+
+        return this.getChangedNode(chain, this.updateAncestors(chain, lists, changedLevel));
+    }
+
+    /**
+     * Copies an organized tree keeping only the items that match and the folders leading to them.
+     * A folder without children is kept only if it matches itself. The original tree is not changed.
+     */
+    static pruneItems(items: DeletedItem[], predicate: (item: DeletedItem) => boolean): DeletedItem[] {
+        const pruned: DeletedItem[] = [];
+
+        for (const item of items) {
+            if (!item.isDirectory) {
+                if (predicate(item)) {
+                    pruned.push(item);
+                }
+                continue;
+            }
+
+            const children = ItemOrganizer.pruneItems(item.children ?? [], predicate);
+
+            if (children.length > 0) {
+                pruned.push({ ...item, children, deletionTime: ItemOrganizer.getLatestDeletionTime(children) });
+            } else if (!item.children?.length && !item.group && predicate(item)) {
+                pruned.push(item);
+            }
+        }
+
+        return pruned;
+    }
+
+    /**
+     * Walks the folder nodes leading to a directory, optionally creating missing ones.
+     * Returns null if a folder is missing and may not be created.
+     */
+    private findFolderChain(topLevelItems: DeletedItem[], dirPath: string, createMissing: boolean): DeletedItem[] | null {
+        const chain: DeletedItem[] = [];
+
+        if (this.isRootDirectory(dirPath)) {
+            return chain;
+        }
+
+        let currentPath = '';
+        for (const segment of dirPath.split(path.sep)) {
+            currentPath = currentPath ? path.join(currentPath, segment) : segment;
+            const siblings = chain.length > 0 ? chain[chain.length - 1].children ?? [] : topLevelItems;
+            let folder = siblings.find(sibling => sibling.isDirectory && PathIdentity.equals(sibling.relativePath, currentPath));
+
+            if (!folder) {
+                if (!createMissing) {
+                    return null;
+                }
+                folder = this.createFolderItem(currentPath);
+                siblings.push(folder);
+            }
+
+            chain.push(folder);
+        }
+
+        return chain;
+    }
+
+    /**
+     * Gets the list holding each folder of a chain, followed by the last folder's children
+     */
+    private getChildLists(topLevelItems: DeletedItem[], chain: DeletedItem[]): DeletedItem[][] {
+        return [topLevelItems, ...chain.map(folder => folder.children ?? [])];
+    }
+
+    /**
+     * Recomputes folder timestamps up a chain and re-sorts each level.
+     * Returns the highest level whose list changed, starting from `changedLevel`.
+     */
+    private updateAncestors(chain: DeletedItem[], lists: DeletedItem[][], changedLevel: number): number {
+        let highestChanged = changedLevel;
+        this.sortItems(lists[chain.length]);
+
+        for (let level = chain.length - 1; level >= 0; level--) {
+            chain[level].deletionTime = ItemOrganizer.getLatestDeletionTime(chain[level].children ?? []);
+
+            const previousOrder = [...lists[level]];
+            this.sortItems(lists[level]);
+
+            if (lists[level].some((entry, index) => entry !== previousOrder[index])) {
+                highestChanged = Math.min(highestChanged, level);
+            }
+        }
+
+        return highestChanged;
+    }
+
+    /**
+     * Maps a changed level to the folder owning it, or null for the top-level list
+     */
+    private getChangedNode(chain: DeletedItem[], level: number): DeletedItem | null {
+        return level === 0 ? null : chain[level - 1];
+    }
+
+    /**
+     * Gets the most recent deletion time among items
+     */
+    private static getLatestDeletionTime(items: DeletedItem[]): Date {
+        return items.reduce(
+            (latest, item) => item.deletionTime > latest ? item.deletionTime : latest,
+            new Date(0)
+        );
+    }
+
+    /**
+     * Creates folder items for all directory paths found in deleted items, keyed by path identity.
+     * Deleted folders that are items themselves are used as the folder node for their path.
      */
     private createFolderMap(deletedItems: DeletedItem[]): Map<string, DeletedItem> {
         const folderMap = new Map<string, DeletedItem>();
         const allPaths = this.extractAllDirectoryPaths(deletedItems);
 
+        for (const folderItem of deletedItems.filter(item => item.isDirectory)) {
+            folderMap.set(PathIdentity.toKey(folderItem.relativePath), { ...folderItem, children: [] });
+        }
+
         for (const dirPath of allPaths) {
             if (this.shouldCreateFolderItem(dirPath, folderMap)) {
                 const folderItem = this.createFolderItem(dirPath);
-                folderMap.set(dirPath, folderItem);
+                folderMap.set(PathIdentity.toKey(dirPath), folderItem);
             }
         }
 
         this.populateFoldersWithFiles(folderMap, deletedItems);
-        this.updateFolderTimestamps(folderMap);
+        this.updateFolderTimestamps(folderMap, deletedItems);
 
         return folderMap;
     }
@@ -54,7 +252,7 @@ export class ItemOrganizer {
         const allPaths = new Set<string>();
 
         for (const item of deletedItems) {
-            const dirPath = path.dirname(item.relativePath);
+            const dirPath = item.isDirectory ? item.relativePath : path.dirname(item.relativePath);
             
             if (this.isNotRootDirectory(dirPath)) {
                 this.addPathHierarchy(dirPath, allPaths);
@@ -82,7 +280,7 @@ export class ItemOrganizer {
     private extractRootItems(deletedItems: DeletedItem[]): DeletedItem[] {
         return deletedItems.filter(item => {
             const dirPath = path.dirname(item.relativePath);
-            return this.isRootDirectory(dirPath);
+            return !item.isDirectory && this.isRootDirectory(dirPath);
         });
     }
 
@@ -92,17 +290,20 @@ export class ItemOrganizer {
     private buildHierarchy(folderMap: Map<string, DeletedItem>, rootItems: DeletedItem[]): DeletedItem[] {
         const topLevelItems: DeletedItem[] = [...rootItems];
 
-        for (const [folderPath, folderItem] of folderMap.entries()) {
-            const parentPath = path.dirname(folderPath);
+        for (const folderItem of folderMap.values()) {
+            const parentPath = path.dirname(folderItem.relativePath);
             
             if (this.isTopLevelFolder(parentPath, folderMap)) {
-                this.sortChildrenInFolder(folderItem);
                 topLevelItems.push(folderItem);
             } else {
-                this.addFolderToParent(folderPath, folderItem, folderMap);
+                this.addFolderToParent(folderItem.relativePath, folderItem, folderMap);
             }
         }
 
+        for (const folderItem of folderMap.values()) {
+            this.sortChildrenInFolder(folderItem);
+        }
+
         return topLevelItems;
     }
 
@@ -113,8 +314,8 @@ export class ItemOrganizer {
         for (const item of deletedItems) {
             const dirPath = path.dirname(item.relativePath);
             
-            if (this.isNotRootDirectory(dirPath)) {
-                const folderItem = folderMap.get(dirPath);
+            if (!item.isDirectory && this.isNotRootDirectory(dirPath)) {
+                const folderItem = folderMap.get(PathIdentity.toKey(dirPath));
                 
                 if (folderItem?.children) {
                     folderItem.children.push(item);
@@ -124,26 +325,57 @@ export class ItemOrganizer {
     }
 
     /**
-     * Updates folder deletion times to match the latest file deletion
+     * Updates folder deletion times to match the latest deletion anywhere beneath them
      */
-    private updateFolderTimestamps(folderMap: Map<string, DeletedItem>): void {
-        for (const folderItem of folderMap.values()) {
-            if (folderItem.children?.length) {
-                const latestDeletion = this.findLatestDeletionTime(folderItem.children);
-                if (latestDeletion > folderItem.deletionTime) {
-                    folderItem.deletionTime = latestDeletion;
+    private updateFolderTimestamps(folderMap: Map<string, DeletedItem>, deletedItems: DeletedItem[]): void {
+        for (const item of deletedItems) {
+            let dirPath = path.dirname(item.relativePath);
+            let folderItem = folderMap.get(PathIdentity.toKey(dirPath));
+
+            while (folderItem) {
+                if (item.deletionTime > folderItem.deletionTime) {
+                    folderItem.deletionTime = item.deletionTime;
                 }
+                dirPath = path.dirname(dirPath);
+                folderItem = folderMap.get(PathIdentity.toKey(dirPath));
             }
         }
     }
 
     /**
-     * Finds the latest deletion time among child items
+     * Creates the group node for a deletion session, labelled with when it started and its size
      */
-    private findLatestDeletionTime(children: DeletedItem[]): Date {
-        return children.reduce((latest, child) => {
-            return child.deletionTime > latest ? child.deletionTime : latest;
-        }, new Date(0));
+    private createSessionItem(session: DeletedItem[], now: Date): DeletedItem {
+        const start = session[session.length - 1].deletionTime;
+        const count = session.length;
+
+        return {
+            uri: this.workspaceUri,
+            relativePath: '',
+            isDirectory: true,
+            deletionTime: session[0].deletionTime,
+            children: this.sortItems([...session]),
+            workspaceRoot: this.workspaceRoot,
+            group: { kind: 'session', label: `${this.formatSessionTime(start, now)} – ${count} ${count === 1 ? 'file' : 'files'}` }
+        };
+    }
+
+    /**
+     * Formats a session's start as "Today 14:32", "Yesterday 09:05" or a date and time
+     */
+    private formatSessionTime(start: Date, now: Date): string {
+        const time = start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+        const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+
+        if (start.toDateString() === now.toDateString()) {
+            return `Today ${time}`;
+        }
+
+        if (start.toDateString() === yesterday.toDateString()) {
+            return `Yesterday ${time}`;
+        }
+
+        return `${start.toLocaleDateString()} ${time}`;
     }
 
     /**
@@ -151,7 +383,7 @@ export class ItemOrganizer {
      */
     private createFolderItem(dirPath: string): DeletedItem {
         return {
-            uri: vscode.Uri.file(path.join(this.workspaceRoot, dirPath)),
+            uri: vscode.Uri.joinPath(this.workspaceUri, ...dirPath.split(/[\\/]/)),
             relativePath: dirPath,
             isDirectory: true,
             deletionTime: new Date(0), // Will be updated later
@@ -165,7 +397,7 @@ export class ItemOrganizer {
      */
     private addFolderToParent(folderPath: string, folderItem: DeletedItem, folderMap: Map<string, DeletedItem>): void {
         const parentPath = path.dirname(folderPath);
-        const parentFolder = folderMap.get(parentPath);
+        const parentFolder = folderMap.get(PathIdentity.toKey(parentPath));
         
         if (parentFolder?.children) {
             parentFolder.children.push(folderItem);
@@ -173,7 +405,7 @@ export class ItemOrganizer {
     }
 
     /**
-     * Sorts children within a folder (folders first, then files, alphabetically)
+     * Sorts children within a folder (folders first, then most recently deleted)
      */
     private sortChildrenInFolder(folderItem: DeletedItem): void {
         if (folderItem.children) {
@@ -182,7 +414,7 @@ export class ItemOrganizer {
     }
 
     /**
-     * Sorts items with folders first, then files, all alphabetically
+     * Sorts items with folders first, then most recently deleted, then alphabetically
      */
     private sortItems(items: DeletedItem[]): DeletedItem[] {
         return items.sort((a, b) => {
@@ -191,6 +423,12 @@ export class ItemOrganizer {
                 return a.isDirectory ? -1 : 1;
             }
 
+            // Then most recently deleted
+            const timeDifference = b.deletionTime.getTime() - a.deletionTime.getTime();
+            if (timeDifference !== 0) {
+                return timeDifference;
+            }
+
             // Then alphabetically by name
             const nameA = this.getDisplayName(a);
             const nameB = this.getDisplayName(b);
@@ -225,13 +463,13 @@ export class ItemOrganizer {
      * Checks if a folder should be created (not already exists)
      */
     private shouldCreateFolderItem(dirPath: string, folderMap: Map<string, DeletedItem>): boolean {
-        return !folderMap.has(dirPath);
+        return !folderMap.has(PathIdentity.toKey(dirPath));
     }
 
     /**
      * Checks if a folder is top-level (has no parent in our folder map)
      */
     private isTopLevelFolder(parentPath: string, folderMap: Map<string, DeletedItem>): boolean {
-        return this.isRootDirectory(parentPath) || !folderMap.has(parentPath);
+        return this.isRootDirectory(parentPath) || !folderMap.has(PathIdentity.toKey(parentPath));
     }
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DeletedItem } from './types';
+import {
+    MOVE_DETECTION_MAX_SEARCH_RESULTS,
+    MOVE_DETECTION_MAX_TRACKED_FILES,
+    MOVE_DETECTION_NAMES_PER_SEARCH,
+    MOVE_DETECTION_WINDOW_MS
+} from './constants';
+
+/** File names that can be put in a glob as they are */
+const GLOB_SAFE_NAME = /^[^{}[\]*?,!\\/]+$/;
+
+/**
+ * Finds deleted files that were really moved or renamed: their newest backup has the same
+ * content as a file created recently elsewhere in the workspace.
+ *
+ * Candidates are the files the watchers saw being created, plus files found by searching
+ * the workspace for the deleted files' names whose creation time is recent. Sizes are
+ * compared first, so only files of matching size are read and hashed.
+ */
+export class MoveDetector {
+    private readonly createdFiles = new Map<string, RecordedFile>();
+
+    /**
+     * Remembers files reported created by the file watchers, as candidates for where deleted files went
+     */
+    recordCreatedFiles(uris: readonly vscode.Uri[], now: number = Date.now()): void {
+        for (const uri of uris) {
+            this.createdFiles.delete(uri.toString());
+            this.createdFiles.set(uri.toString(), { uri, createdAt: now });
+        }
+
+        this.forgetOldFiles(now);
+    }
+
+    /**
+     * Finds where deleted files moved to among the recorded created files and recently created
+     * files of the same name in the given workspace folders. Returns the new location of each moved file.
+     */
+    async findMoves(items: readonly DeletedItem[], workspaceFolders: readonly vscode.Uri[], now: number = Date.now()): Promise<Map<DeletedItem, vscode.Uri>> {
+        const files = this.getComparableFiles(items);
+
+        if (files.length === 0) {
+            return new Map();
+        }
+
+        this.forgetOldFiles(now);
+        const candidates = new Map<string, vscode.Uri>();
+
+        for (const uri of await this.searchFilesNamedLike(files, workspaceFolders)) {
+            candidates.set(uri.toString(), uri);
+        }
+        for (const recorded of this.createdFiles.values()) {
+            candidates.set(recorded.uri.toString(), recorded.uri);
+        }
+
+        return this.matchCandidates(files, [...candidates.values()], now);
+    }
+
+    /**
+     * Finds where deleted files moved to among the given newly created files only
+     */
+    async findMovesAmong(items: readonly DeletedItem[], createdFiles: readonly vscode.Uri[]): Promise<Map<DeletedItem, vscode.Uri>> {
+        const files = this.getComparableFiles(items);
+
+        if (files.length === 0 || createdFiles.length === 0) {
+            return new Map();
+        }
+
+        return this.matchCandidates(files, createdFiles, undefined);
+    }
+
+    /**
+     * Gets the deleted files that have a backup to compare and are not known to have moved yet
+     */
+    private getComparableFiles(items: readonly DeletedItem[]): DeletedItem[] {
+        return items.filter(item => !item.isDirectory && item.backupPath && !item.movedTo);
+    }
+
+    /**
+     * Compares candidate files with the newest backup of each deleted file.
+     * Without a time, every candidate counts as recently created.
+     */
+    private async matchCandidates(files: DeletedItem[], candidateUris: readonly vscode.Uri[], now: number | undefined): Promise<Map<DeletedItem, vscode.Uri>> {
+        const moves = new Map<DeletedItem, vscode.Uri>();
+        const deletedUris = new Set(files.map(item => item.uri.toString()));
+        const backupSizes = new Map<DeletedItem, Promise<number | undefined>>();
+        const backupHashes = new Map<DeletedItem, Promise<string | undefined>>();
+
+        for (const uri of candidateUris.filter(candidate => !deletedUris.has(candidate.toString()))) {
+            const stat = await this.statRecentFile(uri, now);
+            if (!stat) {
+                continue;
+            }
+
+            let candidateHash: Promise<string | undefined> | undefined;
+
+            for (const item of files.filter(file => !moves.has(file))) {
+                if (!backupSizes.has(item)) {
+                    backupSizes.set(item, fs.promises.stat(item.backupPath!).then(stats => stats.size, () => undefined));
+                }
+
+                if (await backupSizes.get(item) !== stat.size) {
+                    continue;
+                }
+
+                candidateHash ??= this.hashContent(() => vscode.workspace.fs.readFile(uri));
+                if (!backupHashes.has(item)) {
+                    backupHashes.set(item, this.hashContent(() => fs.promises.readFile(item.backupPath!)));
+                }
+
+                const hash = await candidateHash;
+                if (hash !== undefined && hash === await backupHashes.get(item)) {
+                    moves.set(item, uri);
+                    break;
+                }
+            }
+        }
+
+        return moves;
+    }
+
+    /**
+     * Gets the stats of a non-empty file, if it was created within the detection window
+     */
+    private async statRecentFile(uri: vscode.Uri, now: number | undefined): Promise<vscode.FileStat | undefined> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            const isFile = (stat.type & vscode.FileType.File) === vscode.FileType.File;
+            const isRecent = now === undefined || this.createdFiles.has(uri.toString()) || stat.ctime >= now - MOVE_DETECTION_WINDOW_MS;
+
+            return isFile && stat.size > 0 && isRecent ? stat : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Searches the workspace folders for files named like any of the deleted files, honouring files.exclude
+     */
+    private async searchFilesNamedLike(files: readonly DeletedItem[], workspaceFolders: readonly vscode.Uri[]): Promise<vscode.Uri[]> {
+        const names = [...new Set(files.map(item => path.basename(item.relativePath)))].filter(name => GLOB_SAFE_NAME.test(name));
+        const found: vscode.Uri[] = [];
+
+        for (let start = 0; start < names.length; start += MOVE_DETECTION_NAMES_PER_SEARCH) {
+            const batch = names.slice(start, start + MOVE_DETECTION_NAMES_PER_SEARCH);
+            const pattern = batch.length === 1 ? `**/${batch[0]}` : `**/{${batch.join(',')}}`;
+
+            for (const folder of workspaceFolders) {
+                found.push(...await vscode.workspace.findFiles(new vscode.RelativePattern(folder, pattern), undefined, MOVE_DETECTION_MAX_SEARCH_RESULTS));
+            }
+        }
+
+        return found;
+    }
+
+    /**
+     * Drops recorded files older than the detection window, and the oldest beyond the tracking limit
+     */
+    private forgetOldFiles(now: number): void {
+        for (const [key, recorded] of this.createdFiles) {
+            if (recorded.createdAt < now - MOVE_DETECTION_WINDOW_MS || this.createdFiles.size > MOVE_DETECTION_MAX_TRACKED_FILES) {
+                this.createdFiles.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Hashes file content for comparison, or returns undefined if it cannot be read
+     */
+    private async hashContent(read: () => Thenable<Uint8Array>): Promise<string | undefined> {
+        try {
+            return crypto.createHash('sha256').update(await read()).digest('hex');
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * A file the watchers saw being created
+ */
+interface RecordedFile {
+    uri: vscode.Uri;
+
+    /** When the creation was reported, in milliseconds */
+    createdAt: number;
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Decides whether two file system paths name the same location, and whether one lies inside another.
+ * Follows the case sensitivity and separator rules of the platform, so `C:/Work/app` and `c:\work\app\`
+ * are the same folder on Windows, and compares whole segments, so `/work/app-old` is not inside `/work/app`.
+ */
+export class PathIdentity {
+    /**
+     * Checks whether paths on a platform are case-sensitive; Windows and macOS file systems are not by default
+     */
+    static isCaseSensitive(platform: NodeJS.Platform = process.platform): boolean {
+        return platform !== 'win32' && platform !== 'darwin';
+    }
+
+    /**
+     * Normalizes a path for the platform: resolves `.` and `..` segments, unifies separators
+     * and drops any trailing separator, keeping drive letters and UNC shares as the root
+     */
+    static normalize(filePath: string, platform: NodeJS.Platform = process.platform): string {
+        const pathApi = this.getPathApi(platform);
+        const normalized = pathApi.normalize(platform === 'win32' ? filePath.replace(/\//g, '\\') : filePath);
+        const root = pathApi.parse(normalized).root;
+
+        return normalized.length > root.length && normalized.endsWith(pathApi.sep)
+            ? normalized.slice(0, -1)
+            : normalized;
+    }
+
+    /**
+     * Gets a key that is equal for every spelling of the same path, for use in maps and sets
+     */
+    static toKey(filePath: string, platform: NodeJS.Platform = process.platform): string {
+        return this.foldCase(this.normalize(filePath, platform), platform);
+    }
+
+    /**
+     * Checks whether two paths name the same location
+     */
+    static equals(a: string, b: string, platform: NodeJS.Platform = process.platform): boolean {
+        return this.toKey(a, platform) === this.toKey(b, platform);
+    }
+
+    /**
+     * Checks whether a path is the given folder or lies beneath it, comparing whole segments
+     */
+    static isInside(filePath: string, folderPath: string, platform: NodeJS.Platform = process.platform): boolean {
+        const file = this.split(filePath, platform);
+        const folder = this.split(folderPath, platform);
+
+        if (this.foldCase(file.root, platform) !== this.foldCase(folder.root, platform)
+            || folder.segments.length > file.segments.length) {
+            return false;
+        }
+
+        return folder.segments.every((segment, index) =>
+            this.foldCase(segment, platform) === this.foldCase(file.segments[index], platform));
+    }
+
+    /**
+     * Gets a path relative to a folder, keeping the path's own spelling of each segment.
+     * Returns an empty string for the folder itself, or null if the path lies outside it.
+     */
+    static relative(folderPath: string, filePath: string, platform: NodeJS.Platform = process.platform): string | null {
+        if (!this.isInside(filePath, folderPath, platform)) {
+            return null;
+        }
+
+        const segments = this.split(filePath, platform).segments;
+        return segments.slice(this.split(folderPath, platform).segments.length).join(this.getPathApi(platform).sep);
+    }
+
+    /**
+     * Resolves symbolic links in a path. Segments that do not exist, such as a deleted file,
+     * are kept as they are below the deepest ancestor that does.
+     */
+    static async canonicalize(filePath: string): Promise<string> {
+        const normalized = this.normalize(filePath);
+
+        try {
+            return await fs.promises.realpath(normalized);
+        } catch {
+            const parent = path.dirname(normalized);
+
+            if (parent === normalized) {
+                return normalized;
+            }
+
+            return path.join(await this.canonicalize(parent), path.basename(normalized));
+        }
+    }
+
+    /**
+     * Splits a normalized path into its root and its non-empty segments
+     */
+    private static split(filePath: string, platform: NodeJS.Platform): { root: string; segments: string[] } {
+        const pathApi = this.getPathApi(platform);
+        const normalized = this.normalize(filePath, platform);
+        const root = pathApi.parse(normalized).root;
+
+        return {
+            root,
+            segments: normalized.slice(root.length).split(pathApi.sep).filter(segment => segment.length > 0)
+        };
+    }
+
+    /**
+     * Lower-cases a path on platforms whose file systems ignore case
+     */
+    private static foldCase(value: string, platform: NodeJS.Platform): string {
+        return this.isCaseSensitive(platform) ? value : value.toLowerCase();
+    }
+
+    /**
+     * Gets Node's path functions for a platform
+     */
+    private static getPathApi(platform: NodeJS.Platform): path.PlatformPath {
+        return platform === 'win32' ? path.win32 : path.posix;
+    }
+}
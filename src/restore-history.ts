@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { RestoreTransaction } from './restore-transaction';
+import { CONTEXT_KEYS } from './constants';
+
+/**
+ * Keeps the most recent restore transaction so it can be undone
+ */
+export class RestoreHistory {
+    private lastTransaction: RestoreTransaction | undefined;
+
+    /**
+     * Remembers a finished restore run, ignoring runs that changed nothing
+     */
+    async record(transaction: RestoreTransaction): Promise<void> {
+        if (transaction.isEmpty()) {
+            return;
+        }
+
+        this.lastTransaction = transaction;
+        await this.updateContext();
+    }
+
+    /**
+     * Removes and returns the most recent restore run, if any
+     */
+    async takeLast(): Promise<RestoreTransaction | undefined> {
+        const transaction = this.lastTransaction;
+        this.lastTransaction = undefined;
+        await this.updateContext();
+        return transaction;
+    }
+
+    /**
+     * Updates the context key controlling the undo button's visibility
+     */
+    private async updateContext(): Promise<void> {
+        await vscode.commands.executeCommand('setContext', CONTEXT_KEYS.CAN_UNDO_RESTORE, !!this.lastTransaction);
+    }
+}
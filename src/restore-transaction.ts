@@ -0,0 +1,157 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * A file the restore wrote, with a hash of what it wrote to tell whether it was edited since
+ */
+interface RestoredFile {
+    uri: vscode.Uri;
+    restoredHash: string;
+}
+
+/**
+ * A file that was overwritten during a restore, with what it contained before
+ */
+interface OverwrittenFile extends RestoredFile {
+    previousContent: Uint8Array;
+}
+
+/**
+ * Records the filesystem changes made by one restore run so they can be rolled back
+ */
+export class RestoreTransaction {
+    private readonly createdFiles: RestoredFile[] = [];
+    private readonly overwrittenFiles: OverwrittenFile[] = [];
+    private readonly createdDirectories: vscode.Uri[] = [];
+
+    /**
+     * Records a file that did not exist before the restore, with the content the restore wrote
+     */
+    recordCreatedFile(uri: vscode.Uri, restoredContent: Uint8Array): void {
+        this.createdFiles.push({ uri, restoredHash: this.hash(restoredContent) });
+    }
+
+    /**
+     * Records a file that was replaced, keeping its previous content and the content the restore wrote
+     */
+    recordOverwrittenFile(uri: vscode.Uri, previousContent: Uint8Array, restoredContent: Uint8Array): void {
+        this.overwrittenFiles.push({ uri, previousContent, restoredHash: this.hash(restoredContent) });
+    }
+
+    /**
+     * Records a directory that the restore created
+     */
+    recordCreatedDirectory(uri: vscode.Uri): void {
+        this.createdDirectories.push(uri);
+    }
+
+    /**
+     * Checks whether the transaction recorded any change
+     */
+    isEmpty(): boolean {
+        return this.getChangeCount() === 0;
+    }
+
+    /**
+     * Number of files and directories touched by the restore
+     */
+    getChangeCount(): number {
+        return this.createdFiles.length + this.overwrittenFiles.length + this.createdDirectories.length;
+    }
+
+    /**
+     * Reverts every recorded change: moves created files to the trash, puts back overwritten
+     * content, then removes created directories that are empty again. Files edited since the
+     * restore are left as they are and returned; files removed since then need no undoing.
+     */
+    async rollback(): Promise<vscode.Uri[]> {
+        const failures: string[] = [];
+        const editedFiles: vscode.Uri[] = [];
+
+        for (const file of this.createdFiles) {
+            await this.attempt(failures, file.uri, async () => {
+                if (await this.isUnchangedSinceRestore(file, editedFiles)) {
+                    await vscode.workspace.fs.delete(file.uri, { useTrash: true });
+                }
+            });
+        }
+
+        for (const file of this.overwrittenFiles) {
+            await this.attempt(failures, file.uri, async () => {
+                if (await this.isUnchangedSinceRestore(file, editedFiles)) {
+                    await vscode.workspace.fs.writeFile(file.uri, file.previousContent);
+                }
+            });
+        }
+
+        for (const uri of this.getDirectoriesDeepestFirst()) {
+            await this.attempt(failures, uri, () => this.removeDirectoryIfEmpty(uri));
+        }
+
+        if (failures.length > 0) {
+            throw new Error(`Could not undo ${failures.length} change(s): ${failures.join('; ')}`);
+        }
+
+        return editedFiles;
+    }
+
+    /**
+     * Checks that a restored file still holds what the restore wrote, adding it to `editedFiles` if not.
+     * A file that no longer exists counts as changed but is not reported.
+     */
+    private async isUnchangedSinceRestore(file: RestoredFile, editedFiles: vscode.Uri[]): Promise<boolean> {
+        let content: Uint8Array;
+
+        try {
+            content = await vscode.workspace.fs.readFile(file.uri);
+        } catch {
+            return false;
+        }
+
+        if (this.hash(content) !== file.restoredHash) {
+            editedFiles.push(file.uri);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Hashes file content to compare it later without keeping it
+     */
+    private hash(content: Uint8Array): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    /**
+     * Orders created directories so children are removed before their parents
+     */
+    private getDirectoriesDeepestFirst(): vscode.Uri[] {
+        const depth = (uri: vscode.Uri) => uri.fsPath.split(path.sep).length;
+        return [...this.createdDirectories].sort((a, b) => depth(b) - depth(a));
+    }
+
+    /**
+     * Deletes a directory only if nothing else has been put in it
+     */
+    private async removeDirectoryIfEmpty(uri: vscode.Uri): Promise<void> {
+        const entries = await vscode.workspace.fs.readDirectory(uri);
+
+        if (entries.length === 0) {
+            await vscode.workspace.fs.delete(uri, { recursive: false, useTrash: false });
+        }
+    }
+
+    /**
+     * Runs a rollback step, recording rather than throwing on failure
+     */
+    private async attempt(failures: string[], uri: vscode.Uri, step: () => Thenable<void> | Promise<void>): Promise<void> {
+        try {
+            await step();
+        } catch (error) {
+            console.error(`Failed to undo restore of ${uri.fsPath}:`, error);
+            failures.push(`${uri.fsPath}: ${error}`);
+        }
+    }
+}
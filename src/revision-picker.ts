@@ -0,0 +1,54 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BackupRevision, DeletedItem } from './types';
+import { FileSystemUtils } from './file-system-utils';
+
+/**
+ * Quick Pick entry carrying the revision it represents
+ */
+interface RevisionPickItem extends vscode.QuickPickItem {
+    revision: BackupRevision;
+}
+
+/**
+ * Lets the user choose which stored revision of a deleted file to restore
+ */
+export class RevisionPicker {
+
+    /**
+     * Shows a Quick Pick of the item's revisions and returns the chosen one
+     */
+    static async pickRevision(item: DeletedItem): Promise<BackupRevision | undefined> {
+        const revisions = item.revisions ?? [];
+
+        if (revisions.length === 0) {
+            return undefined;
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            revisions.map((revision, index) => this.createPickItem(revision, index)),
+            {
+                placeHolder: `Select a version of ${item.relativePath} to restore`,
+                matchOnDescription: true,
+                matchOnDetail: true
+            }
+        );
+
+        return selection?.revision;
+    }
+
+    /**
+     * Creates the Quick Pick entry describing a single revision
+     */
+    private static createPickItem(revision: BackupRevision, index: number): RevisionPickItem {
+        const label = revision.timestamp.toLocaleString();
+        const size = FileSystemUtils.formatFileSize(revision.size);
+
+        return {
+            label: index === 0 ? `${label} (newest)` : label,
+            description: size,
+            detail: revision.source ?? path.basename(revision.path),
+            revision
+        };
+    }
+}
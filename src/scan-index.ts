@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IndexedHistoryFolder } from './types';
+import { FileSystemUtils } from './file-system-utils';
+import { PathIdentity } from './path-identity';
+import { HistoryEntriesParser } from './history-entries-parser';
+import { SCAN_INDEX_VERSION } from './constants';
+
+/**
+ * On-disk form of the scan index
+ */
+interface ScanIndexFile {
+    version: number;
+    folders: Record<string, IndexedHistoryFolder>;
+}
+
+/**
+ * Persistent cache of parsed history folders, keyed by folder path.
+ *
+ * A folder's record is reused for as long as its entries.json keeps the same
+ * modification time, so refreshes only re-parse folders that changed. Records
+ * for folders that were not seen during a scan are dropped when it is committed.
+ * Each full scan tracks the folders it visits in its own set, so scans may overlap.
+ */
+export class ScanIndex {
+    private readonly indexFilePath: string;
+    private folders = new Map<string, IndexedHistoryFolder>();
+    private loaded = false;
+    private dirty = false;
+
+    /**
+     * @param indexFilePath JSON file the index is read from and written to
+     */
+    constructor(indexFilePath: string) {
+        this.indexFilePath = indexFilePath;
+    }
+
+    /**
+     * Loads the index from disk once; a missing, corrupt or outdated file starts an empty index,
+     * and malformed folder records are dropped so those folders are parsed again
+     */
+    async load(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+
+        this.loaded = true;
+        this.folders = await this.readIndexFile();
+    }
+
+    /**
+     * Starts a full scan, returning the set of folders it visits, to pass to lookup, update and commit
+     */
+    beginScan(): Set<string> {
+        return new Set<string>();
+    }
+
+    /**
+     * Gets the cached record for a folder if its entries.json is unchanged, noting the folder as visited by the scan
+     */
+    lookup(folderPath: string, entriesMtime: number, visitedFolders?: Set<string>): IndexedHistoryFolder | undefined {
+        visitedFolders?.add(folderPath);
+        const record = this.folders.get(folderPath);
+
+        return record?.entriesMtime === entriesMtime ? record : undefined;
+    }
+
+    /**
+     * Checks whether a folder has a record, whatever its entries.json modification time
+     */
+    has(folderPath: string): boolean {
+        return this.folders.has(folderPath);
+    }
+
+    /**
+     * Finds the folders whose resource is one of the given paths or lies beneath one of them
+     */
+    findFoldersForResources(resourcePaths: readonly string[]): string[] {
+        const wanted = new Set(resourcePaths.map(resourcePath => PathIdentity.toKey(resourcePath)));
+        const matches: string[] = [];
+
+        for (const [folderPath, record] of this.folders) {
+            if (record.backupEntry && this.isAtOrBelowAny(FileSystemUtils.normalizeUriPath(record.backupEntry.resource), wanted)) {
+                matches.push(folderPath);
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Stores or replaces the record for a folder, noting the folder as visited by the scan
+     */
+    update(folderPath: string, record: IndexedHistoryFolder, visitedFolders?: Set<string>): void {
+        visitedFolders?.add(folderPath);
+        this.folders.set(folderPath, record);
+        this.dirty = true;
+    }
+
+    /**
+     * Drops folders a full scan did not visit and writes the index if it changed
+     */
+    async commit(visitedFolders: Set<string>): Promise<void> {
+        for (const folderPath of [...this.folders.keys()]) {
+            if (!visitedFolders.has(folderPath)) {
+                this.folders.delete(folderPath);
+                this.dirty = true;
+            }
+        }
+
+        await this.save();
+    }
+
+    /**
+     * Writes the index if it changed, keeping folders that were not visited
+     */
+    async save(): Promise<void> {
+        if (!this.dirty) {
+            return;
+        }
+
+        await this.writeIndexFile();
+        this.dirty = false;
+    }
+
+    /**
+     * Checks whether a path or one of its ancestors has its key in the set
+     */
+    private isAtOrBelowAny(resourcePath: string, pathKeys: Set<string>): boolean {
+        let current = PathIdentity.toKey(resourcePath);
+
+        while (!pathKeys.has(current)) {
+            const parent = path.dirname(current);
+            if (parent === current) {
+                return false;
+            }
+            current = parent;
+        }
+
+        return true;
+    }
+
+    /**
+     * Reads the index file, ignoring anything that is not a current-version index
+     */
+    private async readIndexFile(): Promise<Map<string, IndexedHistoryFolder>> {
+        try {
+            const content = await fs.promises.readFile(this.indexFilePath, 'utf8');
+            const parsed = JSON.parse(content) as Partial<ScanIndexFile>;
+
+            if (parsed.version !== SCAN_INDEX_VERSION || typeof parsed.folders !== 'object' || !parsed.folders) {
+                return new Map();
+            }
+
+            return new Map(Object.entries(parsed.folders).filter(
+                (entry): entry is [string, IndexedHistoryFolder] => this.isValidRecord(entry[0], entry[1])
+            ));
+        } catch {
+            return new Map();
+        }
+    }
+
+    /**
+     * Checks that a record read from the index file has the shape of an IndexedHistoryFolder
+     */
+    private isValidRecord(folderPath: string, value: unknown): value is IndexedHistoryFolder {
+        if (!this.isObject(value) || typeof value.entriesMtime !== 'number') {
+            return false;
+        }
+
+        const validErrors = Array.isArray(value.errors) && value.errors.every(error => typeof error === 'string');
+        const validEntry = value.backupEntry === null || HistoryEntriesParser.parse(value.backupEntry, folderPath).errors.length === 0;
+        const validRevisions = value.revisions === undefined ||
+            (Array.isArray(value.revisions) && value.revisions.every(revision => this.isValidRevision(revision)));
+
+        return validErrors && validEntry && validRevisions;
+    }
+
+    /**
+     * Checks that a stored revision has the shape of an IndexedRevision
+     */
+    private isValidRevision(value: unknown): boolean {
+        return this.isObject(value) &&
+            typeof value.path === 'string' &&
+            typeof value.timestamp === 'number' &&
+            typeof value.size === 'number' &&
+            (value.source === undefined || typeof value.source === 'string');
+    }
+
+    /**
+     * Checks whether a value is a plain JSON object
+     */
+    private isObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Writes the index file, creating its directory if needed
+     */
+    private async writeIndexFile(): Promise<void> {
+        const indexFile: ScanIndexFile = {
+            version: SCAN_INDEX_VERSION,
+            folders: Object.fromEntries(this.folders)
+        };
+
+        try {
+            await fs.promises.mkdir(path.dirname(this.indexFilePath), { recursive: true });
+            await fs.promises.writeFile(this.indexFilePath, JSON.stringify(indexFile));
+        } catch (error) {
+            console.warn(`Could not write scan index ${this.indexFilePath}:`, error);
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import { CompletedScan, RejectedEntry, RejectionReason } from './types';
+import { REJECTION_REASON_LABELS, SCAN_REPORT_MAX_LISTED_ENTRIES } from './constants';
+
+/**
+ * Formats the result of a scan as a Markdown or JSON report
+ */
+export class ScanReport {
+
+    /**
+     * Creates a JSON report listing every location, rejected entry and error
+     */
+    static toJson(scan: CompletedScan): string {
+        const { result } = scan;
+
+        return JSON.stringify({
+            completedAt: scan.completedAt.toISOString(),
+            workspaceFolders: scan.workspaceFolders,
+            directoriesScanned: result.directoriesScanned,
+            historyFoldersParsed: result.historyFoldersParsed,
+            historyFoldersCached: result.historyFoldersCached,
+            itemsFound: result.items.length,
+            locations: result.locations,
+            rejected: {
+                counts: Object.fromEntries(this.groupByReason(result.rejected).map(([reason, entries]) => [reason, entries.length])),
+                entries: result.rejected
+            },
+            errors: result.errors
+        }, null, 2);
+    }
+
+    /**
+     * Creates a readable Markdown report; long lists of rejected entries are cut short
+     */
+    static toMarkdown(scan: CompletedScan): string {
+        const { result } = scan;
+        const lines = [
+            '# Local History Restore: Scan Report',
+            '',
+            `Completed ${scan.completedAt.toLocaleString()} for ${scan.workspaceFolders.map(folder => this.code(folder)).join(', ')}`,
+            '',
+            '## Summary',
+            '',
+            '| | |',
+            '| --- | ---: |',
+            `| Directories scanned | ${result.directoriesScanned} |`,
+            `| History folders parsed | ${result.historyFoldersParsed} |`,
+            `| History folders reused from the scan index | ${result.historyFoldersCached} |`,
+            `| Deleted items found | ${result.items.length} |`,
+            `| Entries rejected | ${result.rejected.length} |`,
+            `| Errors | ${result.errors.length} |`,
+            '',
+            '## Locations',
+            '',
+            ...this.formatLocations(scan),
+            '',
+            '## Rejected Entries',
+            '',
+            ...this.formatRejected(result.rejected),
+            '## Errors',
+            '',
+            ...(result.errors.length > 0 ? result.errors.map(error => `- ${this.code(error)}`) : ['None']),
+            ''
+        ];
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Formats the scanned locations as a table
+     */
+    private static formatLocations(scan: CompletedScan): string[] {
+        if (scan.result.locations.length === 0) {
+            return ['No locations were scanned. Check the scanLocations setting.'];
+        }
+
+        return [
+            '| Kind | Path | Exists |',
+            '| --- | --- | --- |',
+            ...scan.result.locations.map(location =>
+                `| ${location.kind} | ${this.tableCell(this.code(location.path))} | ${location.exists ? 'yes' : 'no'} |`)
+        ];
+    }
+
+    /**
+     * Formats the rejected entries in one section per reason
+     */
+    private static formatRejected(rejected: readonly RejectedEntry[]): string[] {
+        if (rejected.length === 0) {
+            return ['None', ''];
+        }
+
+        return this.groupByReason(rejected).flatMap(([reason, entries]) => {
+            const listed = entries.slice(0, SCAN_REPORT_MAX_LISTED_ENTRIES).map(entry =>
+                `- ${entry.originalPath ? this.code(entry.originalPath) : '(unknown file)'} in ${this.code(entry.historyFolder)}`);
+
+            if (entries.length > SCAN_REPORT_MAX_LISTED_ENTRIES) {
+                listed.push(`- ...and ${entries.length - SCAN_REPORT_MAX_LISTED_ENTRIES} more; the JSON report lists all of them`);
+            }
+
+            return [`### ${REJECTION_REASON_LABELS[reason]} (${entries.length})`, '', ...listed, ''];
+        });
+    }
+
+    /**
+     * Groups rejected entries by reason, in the order the reasons are declared
+     */
+    private static groupByReason(rejected: readonly RejectedEntry[]): [RejectionReason, RejectedEntry[]][] {
+        const reasons = Object.keys(REJECTION_REASON_LABELS) as RejectionReason[];
+
+        return reasons
+            .map((reason): [RejectionReason, RejectedEntry[]] => [reason, rejected.filter(entry => entry.reason === reason)])
+            .filter(([, entries]) => entries.length > 0);
+    }
+
+    /**
+     * Wraps text in a code span, using double backticks if the text contains one
+     */
+    private static code(text: string): string {
+        return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+    }
+
+    /**
+     * Escapes pipes so the text stays in one table cell
+     */
+    private static tableCell(text: string): string {
+        return text.replace(/\|/g, '\\|');
+    }
+}
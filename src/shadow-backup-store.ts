@@ -0,0 +1,162 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HistoryEntry } from './types';
+import { FileSystemUtils } from './file-system-utils';
+import { HistoryEntriesParser } from './history-entries-parser';
+import {
+    ENTRIES_JSON_FILENAME,
+    SHADOW_BACKUP_FOLDER_NAME_LENGTH,
+    SHADOW_BACKUP_MAX_FILE_SIZE,
+    SHADOW_BACKUP_MAX_REVISIONS,
+    SHADOW_BACKUP_SOURCE
+} from './constants';
+
+/**
+ * Keeps content-addressed copies of workspace files in extension storage.
+ *
+ * The copies are laid out like VS Code's own local history: one folder per file,
+ * holding an entries.json and one copy per revision named after the SHA-256 of its
+ * content, so the scanner can read them as just another history root.
+ */
+export class ShadowBackupStore {
+    private readonly historyDirectory: string;
+    private readonly pendingCaptures = new Map<string, Promise<void>>();
+
+    /**
+     * @param storageDirectory Directory the store keeps its History folder in
+     */
+    constructor(storageDirectory: string) {
+        this.historyDirectory = path.join(storageDirectory, 'History');
+    }
+
+    /**
+     * Gets the directory holding one history folder per backed-up file
+     */
+    getHistoryDirectory(): string {
+        return this.historyDirectory;
+    }
+
+    /**
+     * Copies a file into the store unless its current content is already the newest revision.
+     * Captures of the same file run one after another.
+     */
+    captureFile(uri: vscode.Uri): Promise<void> {
+        const key = uri.toString();
+        const previous = this.pendingCaptures.get(key) ?? Promise.resolve();
+        const capture = previous.then(() => this.copyFile(uri));
+
+        this.pendingCaptures.set(key, capture);
+        void capture.finally(() => {
+            if (this.pendingCaptures.get(key) === capture) {
+                this.pendingCaptures.delete(key);
+            }
+        });
+
+        return capture;
+    }
+
+    /**
+     * Captures several files one at a time
+     */
+    async captureFiles(uris: readonly vscode.Uri[]): Promise<void> {
+        for (const uri of uris) {
+            await this.captureFile(uri);
+        }
+    }
+
+    /**
+     * Writes a new revision for the file if it is small enough and its content changed
+     */
+    private async copyFile(uri: vscode.Uri): Promise<void> {
+        try {
+            const stats = await FileSystemUtils.getFileStatsAsync(uri.fsPath);
+
+            if (!stats?.isFile() || stats.size > SHADOW_BACKUP_MAX_FILE_SIZE) {
+                return;
+            }
+
+            const folder = this.getHistoryFolder(uri);
+            const entries = await this.readEntries(folder);
+            const newest = entries[entries.length - 1];
+
+            if (newest && stats.mtimeMs <= newest.timestamp) {
+                return;
+            }
+
+            const content = await fs.promises.readFile(uri.fsPath);
+            const id = crypto.createHash('sha256').update(content).digest('hex');
+
+            if (newest?.id === id) {
+                return;
+            }
+
+            await fs.promises.mkdir(folder, { recursive: true });
+            await this.writeAtomically(path.join(folder, id), content);
+
+            const updated = [
+                ...entries.filter(entry => entry.id !== id),
+                { id, source: SHADOW_BACKUP_SOURCE, timestamp: Math.round(stats.mtimeMs) }
+            ];
+            await this.writeEntries(folder, uri, updated.slice(-SHADOW_BACKUP_MAX_REVISIONS));
+            await this.removeUnreferencedCopies(folder, updated.slice(0, -SHADOW_BACKUP_MAX_REVISIONS));
+        } catch (error) {
+            console.warn(`Could not keep a shadow backup of ${uri.fsPath}:`, error);
+        }
+    }
+
+    /**
+     * Gets the history folder for a file, named after a hash of its URI
+     */
+    private getHistoryFolder(uri: vscode.Uri): string {
+        const name = crypto.createHash('sha256')
+            .update(uri.toString())
+            .digest('hex')
+            .slice(0, SHADOW_BACKUP_FOLDER_NAME_LENGTH);
+
+        return path.join(this.historyDirectory, name);
+    }
+
+    /**
+     * Reads the entries of a history folder, oldest first; a missing or malformed file yields none
+     */
+    private async readEntries(folder: string): Promise<HistoryEntry[]> {
+        const entriesPath = path.join(folder, ENTRIES_JSON_FILENAME);
+        const raw = await FileSystemUtils.readJsonFileAsync<unknown>(entriesPath);
+
+        if (raw === null) {
+            return [];
+        }
+
+        const entries = HistoryEntriesParser.parse(raw, entriesPath).backupEntry?.entries ?? [];
+        return [...entries].sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    /**
+     * Writes the entries.json of a history folder in VS Code's local history format
+     */
+    private async writeEntries(folder: string, uri: vscode.Uri, entries: HistoryEntry[]): Promise<void> {
+        const content = JSON.stringify({ version: 1, resource: uri.toString(), entries });
+        await this.writeAtomically(path.join(folder, ENTRIES_JSON_FILENAME), content);
+    }
+
+    /**
+     * Deletes the copies of revisions that were trimmed from a history folder
+     */
+    private async removeUnreferencedCopies(folder: string, trimmed: HistoryEntry[]): Promise<void> {
+        await Promise.all(trimmed.map(entry =>
+            fs.promises.rm(path.join(folder, entry.id), { force: true })
+        ));
+    }
+
+    /**
+     * Writes a file through a temporary sibling so readers never see partial content
+     */
+    private async writeAtomically(filePath: string, content: string | Buffer): Promise<void> {
+        const temporaryPath = `${filePath}.tmp`;
+
+        await fs.promises.writeFile(temporaryPath, content);
+        await fs.promises.rename(temporaryPath, filePath);
+    }
+}
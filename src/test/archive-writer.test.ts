@@ -0,0 +1,124 @@
+const { expect } = require('chai');
+const zlib = require('zlib');
+const { ArchiveWriter } = require('../archive-writer');
+
+// Reads the files of a ustar archive back as { path: content }
+const readTar = (archive: Buffer) => {
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive[offset] !== 0) {
+    const field = (start: number, length: number) => archive.subarray(offset + start, offset + start + length).toString('utf8').replace(/\0.*$/s, '');
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    const size = parseInt(field(124, 12), 8);
+
+    files[name] = archive.subarray(offset + 512, offset + 512 + size).toString('utf8');
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  return files;
+};
+
+describe('ArchiveWriter', () => {
+  const entries = [
+    { path: 'src/a.ts', content: Buffer.from('export const a = 1;\n'), modifiedTime: new Date('2024-05-01T10:00:00Z') },
+    { path: `${'deep/'.repeat(30)}b.txt`, content: Buffer.alloc(600, 'b'), modifiedTime: new Date('2024-05-01T10:00:00Z') }
+  ];
+
+  it('picks the format from the file name', () => {
+    expect(ArchiveWriter.getFormatFromPath('/out/x.zip')).to.equal('zip');
+    expect(ArchiveWriter.getFormatFromPath('/out/x.TAR')).to.equal('tar');
+    expect(ArchiveWriter.getFormatFromPath('/out/x.tar.gz')).to.equal('tar.gz');
+    expect(ArchiveWriter.getFormatFromPath('/out/x.tgz')).to.equal('tar.gz');
+    expect(ArchiveWriter.getFormatFromPath('/out/x')).to.equal('zip');
+  });
+
+  it('writes tar archives with valid checksums, long paths and padded content', () => {
+    const archive = ArchiveWriter.create(entries, 'tar');
+
+    expect(archive.length % 512).to.equal(0);
+    expect(readTar(archive)).to.deep.equal({
+      'src/a.ts': 'export const a = 1;\n',
+      [entries[1].path]: 'b'.repeat(600)
+    });
+
+    const storedChecksum = parseInt(archive.subarray(148, 156).toString('ascii'), 8);
+    const header = Buffer.from(archive.subarray(0, 512));
+    header.fill(' ', 148, 156);
+    expect(storedChecksum).to.equal(header.reduce((sum: number, byte: number) => sum + byte, 0));
+  });
+
+  it('gzips tar archives', () => {
+    const archive = ArchiveWriter.create(entries, 'tar.gz');
+
+    expect(readTar(zlib.gunzipSync(archive))['src/a.ts']).to.equal('export const a = 1;\n');
+  });
+
+  it('writes zip archives with deflated entries and a central directory', () => {
+    const archive: Buffer = ArchiveWriter.create(entries, 'zip');
+
+    expect(archive.readUInt32LE(0)).to.equal(0x04034b50);
+    const nameLength = archive.readUInt16LE(26);
+    const compressedSize = archive.readUInt32LE(18);
+    expect(archive.subarray(30, 30 + nameLength).toString()).to.equal('src/a.ts');
+    expect(archive.readUInt32LE(14)).to.equal(zlib.crc32(entries[0].content));
+    expect(zlib.inflateRawSync(archive.subarray(30 + nameLength, 30 + nameLength + compressedSize)).toString()).to.equal('export const a = 1;\n');
+
+    const end = archive.length - 22;
+    expect(archive.readUInt32LE(end)).to.equal(0x06054b50);
+    expect(archive.readUInt16LE(end + 10)).to.equal(2);
+    expect(archive.readUInt32LE(archive.readUInt32LE(end + 16))).to.equal(0x02014b50);
+  });
+});
+
+describe('ItemExporter', () => {
+  const sinon = require('sinon');
+  const vscode = require('vscode');
+  const { ItemExporter } = require('../item-exporter');
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  const file = (workspaceRoot: string, relativePath: string, backupPath?: string) => ({
+    uri: vscode.Uri.file(`${workspaceRoot}/${relativePath}`),
+    relativePath,
+    isDirectory: false,
+    deletionTime: new Date('2024-05-01T10:00:00Z'),
+    backupPath,
+    workspaceRoot
+  });
+
+  it('exports files and folder subtrees once each, with a manifest', async () => {
+    const a = file('/work/app', 'src/a.ts', '/history/1/a');
+    const folder = { ...file('/work/app', 'src'), isDirectory: true, children: [a, file('/work/app', 'src/b.ts')] };
+    sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Buffer.from('content of a'));
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+
+    const summary = await ItemExporter.exportItems([folder, a], vscode.Uri.file('/out/export.tar'), new Date('2024-06-01T00:00:00Z'));
+
+    expect(summary).to.deep.equal({ exported: 1, skipped: 1 });
+    expect(writeFile.firstCall.args[0].fsPath).to.equal('/out/export.tar');
+    const files = readTar(writeFile.firstCall.args[1]);
+    expect(files['src/a.ts']).to.equal('content of a');
+
+    const manifest = JSON.parse(files['local-history-export.json']);
+    expect(manifest.exportedAt).to.equal('2024-06-01T00:00:00.000Z');
+    expect(manifest.items).to.deep.equal([{
+      archivePath: 'src/a.ts',
+      originalPath: '/work/app/src/a.ts',
+      backupPath: '/history/1/a',
+      deletionTime: '2024-05-01T10:00:00.000Z'
+    }]);
+    expect(manifest.skipped).to.deep.equal([{ originalPath: '/work/app/src/b.ts', reason: 'No backup path available' }]);
+  });
+
+  it('prefixes paths with the workspace folder name when items come from several folders', async () => {
+    sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Buffer.from('x'));
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+
+    await ItemExporter.exportItems([file('/work/app', 'a.ts', '/h/a'), file('/work/lib', 'a.ts', '/h/b')], vscode.Uri.file('/out/export.tar'));
+
+    expect(Object.keys(readTar(writeFile.firstCall.args[1]))).to.deep.equal(['app/a.ts', 'lib/a.ts', 'local-history-export.json']);
+  });
+});
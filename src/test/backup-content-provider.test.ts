@@ -0,0 +1,73 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const vscode = require('vscode');
+const { BackupContentProvider } = require('../backup-content-provider');
+const { BackupComparer } = require('../backup-comparer');
+const { FileSystemUtils } = require('../file-system-utils');
+const { BACKUP_URI_SCHEME } = require('../constants');
+
+describe('BackupContentProvider', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  it('serves the content stored at the backup path in the query', async () => {
+    sandbox.stub(vscode.workspace.fs, 'readFile').callsFake(async (uri: any) => {
+      expect(uri.fsPath).to.equal('/history/abc/rev1');
+      return Buffer.from('backup text');
+    });
+
+    const uri = BackupContentProvider.createBackupUri(vscode.Uri.file('/workspace/a.ts'), '/history/abc/rev1');
+    expect(uri.scheme).to.equal(BACKUP_URI_SCHEME);
+    expect(uri.path).to.equal('/workspace/a.ts');
+
+    const content = await new BackupContentProvider().provideTextDocumentContent(uri);
+    expect(content).to.equal('backup text');
+  });
+
+  it('serves an empty document when no backup path is given', async () => {
+    const uri = BackupContentProvider.createEmptyUri(vscode.Uri.file('/workspace/a.ts'));
+    const content = await new BackupContentProvider().provideTextDocumentContent(uri);
+    expect(content).to.equal('');
+  });
+});
+
+describe('BackupComparer', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  const item = { uri: vscode.Uri.file('/workspace/a.ts'), relativePath: 'a.ts', isDirectory: false, backupPath: '/history/abc/rev1' };
+
+  it('diffs against the current file when one exists at the original path', async () => {
+    sandbox.stub(FileSystemUtils, 'uriExists').resolves(true);
+    const execute = sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+    await BackupComparer.compareWithBackup(item);
+
+    const [command, left, right] = execute.firstCall.args;
+    expect(command).to.equal('vscode.diff');
+    expect(left.query).to.equal('/history/abc/rev1');
+    expect(right).to.equal(item.uri);
+  });
+
+  it('diffs against an empty document when nothing exists at the original path', async () => {
+    sandbox.stub(FileSystemUtils, 'uriExists').resolves(false);
+    const execute = sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+    await BackupComparer.compareWithBackup(item);
+
+    const right = execute.firstCall.args[2];
+    expect(right.scheme).to.equal(BACKUP_URI_SCHEME);
+    expect(right.query).to.equal('');
+  });
+
+  it('rejects items without a backup path', async () => {
+    try {
+      await BackupComparer.compareWithBackup({ ...item, backupPath: undefined });
+      throw new Error('expected compareWithBackup to reject');
+    } catch (err: any) {
+      expect(String(err)).to.contain('No backup path');
+    }
+  });
+});
@@ -0,0 +1,80 @@
+const { expect } = require('chai');
+const mockFs = require('mock-fs');
+const vscode = require('vscode');
+const { BackupPreviewReader } = require('../backup-preview-reader');
+const { TOOLTIP_PREVIEW_MAX_BYTES, TOOLTIP_PREVIEW_MAX_LINE_LENGTH } = require('../constants');
+
+describe('BackupPreviewReader', () => {
+  afterEach(() => mockFs.restore());
+
+  it('reads the first lines of a text backup and notes whether more follow', async () => {
+    mockFs({ '/backup/short': 'one\r\ntwo\n', '/backup/long': 'a\nb\nc\nd\n' });
+
+    expect(await BackupPreviewReader.read('/backup/short', 3)).to.deep.equal({ size: 9, binary: false, lines: ['one', 'two'], truncated: false });
+    expect(await BackupPreviewReader.read('/backup/long', 3)).to.deep.equal({ size: 8, binary: false, lines: ['a', 'b', 'c'], truncated: true });
+  });
+
+  it('reads only the start of large backups and cuts long lines', async () => {
+    const longLine = 'x'.repeat(TOOLTIP_PREVIEW_MAX_LINE_LENGTH + 5);
+    mockFs({ '/backup/big': `${longLine}\n${'y'.repeat(TOOLTIP_PREVIEW_MAX_BYTES)}` });
+
+    const preview = await BackupPreviewReader.read('/backup/big');
+
+    expect(preview.lines).to.deep.equal([`${'x'.repeat(TOOLTIP_PREVIEW_MAX_LINE_LENGTH)}…`]);
+    expect(preview.truncated).to.be.true;
+    expect(preview.size).to.equal(longLine.length + 1 + TOOLTIP_PREVIEW_MAX_BYTES);
+  });
+
+  it('detects binary backups and returns null for unreadable ones', async () => {
+    mockFs({ '/backup/image': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]) });
+
+    expect(await BackupPreviewReader.read('/backup/image')).to.deep.equal({ size: 6, binary: true, lines: [], truncated: false });
+    expect(await BackupPreviewReader.read('/backup/missing')).to.be.null;
+  });
+
+  it('maps file extensions to language ids, falling back to plain text', () => {
+    expect(BackupPreviewReader.getLanguageId('src/App.TSX')).to.equal('typescriptreact');
+    expect(BackupPreviewReader.getLanguageId('notes.unknown')).to.equal('');
+  });
+});
+
+describe('DeletedItemsProvider tooltip previews', () => {
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const file = (relativePath: string, backupPath: string, revisions: number) => ({
+    isDirectory: false,
+    relativePath,
+    uri: vscode.Uri.file(`/workspace/${relativePath}`),
+    backupPath,
+    deletionTime: new Date(),
+    revisions: Array.from({ length: revisions }, () => ({ path: backupPath }))
+  });
+  const resolveTooltip = async (item: any) => {
+    const provider = new DeletedItemsProvider();
+    return (await provider.resolveTreeItem(provider.getTreeItem(item), item)).tooltip.value;
+  };
+
+  afterEach(() => mockFs.restore());
+
+  it('leaves file tooltips to be resolved on hover', () => {
+    const provider = new DeletedItemsProvider();
+    expect(provider.getTreeItem(file('a.ts', '/backup/a', 1)).tooltip).to.be.undefined;
+  });
+
+  it('shows the size, revision count and start of the backup in a code block', async () => {
+    mockFs({ '/backup/a': 'const a = 1;\n' });
+
+    const tooltip = await resolveTooltip(file('src/a.ts', '/backup/a', 3));
+
+    expect(tooltip).to.contain('Size: 13 B · 3 revisions');
+    expect(tooltip).to.contain('```typescript\nconst a = 1;\n```');
+  });
+
+  it('describes binary backups instead of previewing them', async () => {
+    mockFs({ '/backup/logo': Buffer.alloc(42 * 1024) });
+
+    const tooltip = await resolveTooltip(file('logo.png', '/backup/logo', 1));
+
+    expect(tooltip).to.contain('binary, 42 KB');
+    expect(tooltip).not.to.contain('```');
+  });
+});
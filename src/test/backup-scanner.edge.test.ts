@@ -29,3 +29,23 @@ describe('BackupScanner edge cases', () => {
     expect(result.items.length).to.equal(0);
   });
 });
+
+describe('BackupScanner settings', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const vscode = require('vscode');
+
+  afterEach(() => { mockFs.restore(); vscode.workspace.settings = {}; });
+
+  it('skips workspace history when that location is disabled', async () => {
+    mockFs({
+      '/workspace/.vscode/history/file-hash': {
+        'entries.json': JSON.stringify({ resource: 'file:///workspace/gone.txt' }),
+        'backup-1': 'content'
+      }
+    });
+
+    vscode.workspace.settings['minouris-local-history-restore.scanLocations'] = ['globalHistory'];
+    const result = await new BackupScanner('/workspace', []).scanAllBackupLocations();
+    expect(result.items).to.have.length(0);
+  });
+});
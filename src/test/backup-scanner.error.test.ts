@@ -8,12 +8,12 @@ describe('BackupScanner error handling', () => {
   beforeEach(() => { sandbox = sinon.createSandbox(); });
   afterEach(() => { sandbox.restore(); });
 
-  it('records errors when readDirectorySafe throws', async () => {
+  it('records errors when readDirectoryAsync rejects', async () => {
     const workspace = '/workspace';
     const scanner = new BackupScanner(workspace);
 
-    sandbox.stub(FileSystemUtils, 'fileExists').returns(true);
-    sandbox.stub(FileSystemUtils, 'readDirectorySafe').throws(new Error('boom'));
+    sandbox.stub(FileSystemUtils, 'fileExistsAsync').resolves(true);
+    sandbox.stub(FileSystemUtils, 'readDirectoryAsync').rejects(new Error('boom'));
 
     try {
       await scanner.scanAllBackupLocations();
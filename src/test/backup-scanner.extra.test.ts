@@ -14,13 +14,11 @@ describe('BackupScanner extra tests', () => {
     const scanner = new BackupScanner(workspace);
 
     // entries.json exists
-  sandbox.stub(FileSystemUtils, 'fileExists').callsFake((p: string) => p.endsWith('entries.json') || p.includes('.vscode'));
-  sandbox.stub(FileSystemUtils, 'readJsonFileSafe').returns({ resource: 'file:///workspace/dir/deleted.txt' });
+  sandbox.stub(FileSystemUtils, 'fileExistsAsync').callsFake(async (p: string) => p.endsWith('entries.json') || p.includes('.vscode'));
+  sandbox.stub(FileSystemUtils, 'readJsonFileAsync').resolves({ resource: 'file:///workspace/dir/deleted.txt' });
   sandbox.stub(FileSystemUtils, 'normalizeUriPath').callsFake((u: string) => '/workspace/dir/deleted.txt');
-  // stub sort/getFileStats through getFileStatsSafe
-  sandbox.stub(FileSystemUtils, 'sortBackupFilesByDate').returns(['b']);
-  sandbox.stub(FileSystemUtils, 'getFileStatsSafe').returns({ mtime: new Date() });
-  sandbox.stub(FileSystemUtils, 'readDirectorySafe').returns([{ name: 'b', isDirectory: () => false, isFile: () => true }]);
+  sandbox.stub(FileSystemUtils, 'getFileStatsAsync').resolves({ mtime: new Date() });
+  sandbox.stub(FileSystemUtils, 'readDirectoryAsync').resolves([{ name: 'b', isDirectory: () => false, isFile: () => true }]);
 
     const result = await scanner.scanAllBackupLocations();
     expect(result).to.have.property('items');
@@ -35,15 +33,17 @@ describe('BackupScanner extra tests', () => {
     // simulate history dir exists
     sandbox.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([workspace + '/.vscode/history']);
     // single stub for fileExists that can vary by arg
-    sandbox.stub(FileSystemUtils, 'fileExists').callsFake((p: string) => {
-      if (p.includes('.vscode')) return true;
+    sandbox.stub(FileSystemUtils, 'fileExistsAsync').callsFake(async (p: string) => {
+      if (p.includes('.vscode')) {
+        return true;
+      }
       return false;
     });
-    // Simulate readDirectorySafe returning a Dirent-like file
+    // Simulate readDirectoryAsync returning a Dirent-like file
     const fakeDirent = { name: 'file1', isDirectory: () => false, isFile: () => true };
-  sandbox.stub(FileSystemUtils, 'readDirectorySafe').returns([fakeDirent]);
-  sandbox.stub(FileSystemUtils, 'getFileStatsSafe').returns({ mtime: new Date() });
-  sandbox.stub(FileSystemUtils, 'extractOriginalPathFromBackup').returns('/workspace/file1');
+  sandbox.stub(FileSystemUtils, 'readDirectoryAsync').resolves([fakeDirent]);
+  sandbox.stub(FileSystemUtils, 'getFileStatsAsync').resolves({ mtime: new Date() });
+  sandbox.stub(FileSystemUtils, 'extractOriginalPathFromBackupAsync').resolves('/workspace/file1');
   sandbox.stub(FileSystemUtils, 'isPathInWorkspace').returns(true);
 
     const result = await scanner.scanAllBackupLocations();
@@ -27,3 +27,549 @@ describe('BackupScanner', () => {
     expect(item.backupPath).to.be.a('string');
   });
 });
+
+describe('BackupScanner revisions', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+
+  afterEach(() => mockFs.restore());
+
+  it('records every revision in the history folder, newest first', async () => {
+    const historyDir = '/workspace/.vscode/history/file-hash';
+
+    mockFs({
+      [historyDir]: {
+        'entries.json': JSON.stringify({ resource: 'file:///workspace/deleted.txt' }),
+        'old': mockFs.file({ content: 'old', mtime: new Date('2024-01-01') }),
+        'new': mockFs.file({ content: 'newer', mtime: new Date('2024-02-01') })
+      }
+    });
+
+    const result = await new BackupScanner('/workspace').scanAllBackupLocations();
+
+    const item = result.items[0];
+    expect(item.revisions.map((r: any) => path.basename(r.path))).to.deep.equal(['new', 'old']);
+    expect(item.revisions[0].size).to.equal(5);
+    expect(item.backupPath).to.equal(item.revisions[0].path);
+  });
+});
+
+describe('BackupScanner entries.json timestamps', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+
+  afterEach(() => mockFs.restore());
+
+  it('uses entry timestamps rather than file mtimes and reports malformed entries', async () => {
+    const historyDir = '/workspace/.vscode/history/file-hash';
+
+    mockFs({
+      [historyDir]: {
+        'entries.json': JSON.stringify({
+          version: 1,
+          resource: 'file:///workspace/deleted.txt',
+          entries: [
+            { id: 'first.txt', source: 'save', timestamp: Date.parse('2024-03-01T00:00:00Z') },
+            { id: 'second.txt', sourceDescription: 'Refactor', timestamp: Date.parse('2024-01-01T00:00:00Z') },
+            { id: 'broken.txt' }
+          ]
+        }),
+        'first.txt': mockFs.file({ content: 'a', mtime: new Date('2020-01-01') }),
+        'second.txt': mockFs.file({ content: 'b', mtime: new Date('2025-01-01') })
+      }
+    });
+
+    const result = await new BackupScanner('/workspace').scanAllBackupLocations();
+
+    const item = result.items[0];
+    expect(item.deletionTime.toISOString()).to.equal('2024-03-01T00:00:00.000Z');
+    expect(item.revisions.map((r: any) => r.source)).to.deep.equal(['save', 'Refactor']);
+    expect(result.errors.some((e: string) => e.includes('entry 2'))).to.be.true;
+  });
+});
+
+describe('BackupScanner multi-root workspaces', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('scans global history once and assigns items to the folder that contains them', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    const locations = sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+
+    mockFs({
+      '/global/History': {
+        'one': {
+          'entries.json': JSON.stringify({ resource: 'file:///work/app/src/a.ts', entries: [{ id: 'r1', timestamp: 1 }] }),
+          'r1': 'a'
+        },
+        'two': {
+          'entries.json': JSON.stringify({ resource: 'file:///work/lib/b.ts', entries: [{ id: 'r1', timestamp: 2 }] }),
+          'r1': 'b'
+        }
+      },
+      '/work/app': {},
+      '/work/lib': {}
+    });
+
+    const result = await new BackupScanner(['/work/app', '/work/lib']).scanAllBackupLocations();
+
+    expect(locations.calledOnce).to.be.true;
+    const byPath = Object.fromEntries(result.items.map((i: any) => [i.relativePath, i.workspaceRoot]));
+    expect(byPath).to.deep.equal({ 'src/a.ts': '/work/app', 'b.ts': '/work/lib' });
+  });
+});
+
+describe('BackupScanner cancellation and progress', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const vscode = require('vscode');
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  function mockGlobalHistory(folderCount: number) {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+
+    const history: any = {};
+    for (let i = 0; i < folderCount; i++) {
+      history[`folder-${i}`] = {
+        'entries.json': JSON.stringify({ resource: `file:///work/app/file-${i}.ts`, entries: [{ id: 'r1', timestamp: i }] }),
+        'r1': 'content'
+      };
+    }
+    mockFs({ '/global/History': history, '/work/app': {} });
+  }
+
+  it('reports incremental progress that adds up to 100%', async () => {
+    mockGlobalHistory(60);
+    const updates: any[] = [];
+
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations({ onProgress: (u: any) => updates.push(u) });
+
+    expect(result.items.length).to.equal(60);
+    expect(updates.length).to.be.greaterThan(3);
+    expect(updates.some(u => u.increment === 0 && u.directoriesScanned > 0)).to.be.true;
+    const total = updates.reduce((sum, u) => sum + u.increment, 0);
+    expect(Math.round(total)).to.equal(100);
+    expect(updates[updates.length - 1].itemsFound).to.equal(60);
+  });
+
+  it('stops with a CancellationError once the token is cancelled', async () => {
+    mockGlobalHistory(60);
+    const source = new vscode.CancellationTokenSource();
+
+    const scan = new BackupScanner('/work/app', ['/user']).scanAllBackupLocations({
+      token: source.token,
+      onProgress: () => source.cancel()
+    });
+
+    let caught: any;
+    try {
+      await scan;
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).to.be.instanceOf(vscode.CancellationError);
+  });
+});
+
+describe('BackupScanner scan index', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const { ScanIndex } = require('../scan-index');
+  const sinon = require('sinon');
+  const fs = require('fs');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('re-parses only history folders whose entries.json changed', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    mockFs({
+      '/global/History': {
+        'one': {
+          'entries.json': mockFs.file({ content: JSON.stringify({ resource: 'file:///work/app/a.ts', entries: [{ id: 'r1', timestamp: 1 }] }), mtime: new Date(1000) }),
+          'r1': 'a'
+        },
+        'two': {
+          'entries.json': mockFs.file({ content: JSON.stringify({ resource: 'file:///work/app/b.ts', entries: [{ id: 'r1', timestamp: 2 }] }), mtime: new Date(1000) }),
+          'r1': 'b'
+        }
+      },
+      '/work/app': {},
+      '/storage': {}
+    });
+    const index = new ScanIndex('/storage/scan-index.json');
+    const first = await new BackupScanner('/work/app', ['/user'], index).scanAllBackupLocations();
+    expect(first.items.length).to.equal(2);
+
+    fs.writeFileSync('/global/History/two/entries.json', JSON.stringify({ resource: 'file:///work/app/c.ts', entries: [{ id: 'r1', timestamp: 3 }] }));
+    const readJson = sinon.spy(FileSystemUtils, 'readJsonFileAsync');
+
+    const second = await new BackupScanner('/work/app', ['/user'], new ScanIndex('/storage/scan-index.json')).scanAllBackupLocations();
+
+    expect(readJson.callCount).to.equal(1);
+    expect(readJson.firstCall.args[0]).to.equal('/global/History/two/entries.json');
+    expect(second.items.map((i: any) => i.relativePath).sort()).to.deep.equal(['a.ts', 'c.ts']);
+    expect(second.items.find((i: any) => i.relativePath === 'a.ts').deletionTime.getTime()).to.equal(1);
+  });
+});
+
+describe('BackupScanner targeted scans', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const { ScanIndex } = require('../scan-index');
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('only reads indexed folders for the deleted paths and folders the index has not seen', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    const folder = (resource: string) => ({
+      'entries.json': JSON.stringify({ resource, entries: [{ id: 'r1', timestamp: 1 }] }),
+      'r1': 'x'
+    });
+    mockFs({
+      '/global/History': {
+        'one': folder('file:///work/app/src/a.ts'),
+        'two': folder('file:///work/app/b.ts')
+      },
+      '/work/app': {},
+      '/storage': {}
+    });
+    const index = new ScanIndex('/storage/scan-index.json');
+    await new BackupScanner('/work/app', ['/user'], index).scanAllBackupLocations();
+
+    require('fs').mkdirSync('/global/History/three');
+    require('fs').writeFileSync('/global/History/three/entries.json', JSON.stringify({ resource: 'file:///work/app/new.ts', entries: [{ id: 'r1', timestamp: 5 }] }));
+    require('fs').writeFileSync('/global/History/three/r1', 'y');
+    const stats = sinon.spy(FileSystemUtils, 'getFileStatsAsync');
+
+    const result = await new BackupScanner('/work/app', ['/user'], index).scanDeletedPaths(['/work/app/src']);
+
+    const entriesRead = stats.getCalls().map((c: any) => c.args[0]).filter((p: string) => p.endsWith('entries.json'));
+    expect(entriesRead.sort()).to.deep.equal(['/global/History/one/entries.json', '/global/History/three/entries.json']);
+    expect(result.items.map((i: any) => i.relativePath).sort()).to.deep.equal(['new.ts', 'src/a.ts']);
+  });
+});
+
+describe('BackupScanner shadow backups', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const { ExtensionSettings } = require('../extension-settings');
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('reads the shadow backup store as another history source', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    mockFs({
+      '/shadow/History/abc': {
+        'entries.json': JSON.stringify({ resource: 'file:///work/app/gen.ts', entries: [{ id: 'h1', source: 'Shadow backup', timestamp: 5 }] }),
+        'h1': 'generated'
+      },
+      '/work/app': {}
+    });
+
+    const result = await new BackupScanner('/work/app', ['/user'], undefined, ['/shadow/History']).scanAllBackupLocations();
+
+    expect(result.items.map((i: any) => i.relativePath)).to.deep.equal(['gen.ts']);
+    expect(result.items[0].revisions[0].source).to.equal('Shadow backup');
+
+    sinon.stub(ExtensionSettings, 'isScanLocationEnabled').callsFake((location: string) => location !== 'shadowBackups');
+    const disabled = await new BackupScanner('/work/app', ['/user'], undefined, ['/shadow/History']).scanAllBackupLocations();
+    expect(disabled.items).to.deep.equal([]);
+  });
+
+  it('leaves the shadow backup store out of the storage folder walk', async () => {
+    const shadowDirectory = '/user/User/globalStorage/publisher.extension/shadow-backups/History';
+    mockFs({
+      [`${shadowDirectory}/abc`]: {
+        'entries.json': JSON.stringify({ resource: 'file:///work/app/gen.ts', entries: [{ id: 'h1', source: 'Shadow backup', timestamp: 5 }] }),
+        'h1': 'generated'
+      },
+      '/work/app': {}
+    });
+    const scan = () => new BackupScanner('/work/app', ['/user/User'], undefined, [shadowDirectory]).scanAllBackupLocations();
+
+    const result = await scan();
+    expect(result.items.map((i: any) => i.relativePath)).to.deep.equal(['gen.ts']);
+
+    sinon.stub(ExtensionSettings, 'isScanLocationEnabled').callsFake((location: string) => location !== 'shadowBackups');
+    const disabled = await scan();
+    expect(disabled.items).to.deep.equal([]);
+  });
+});
+
+describe('BackupScanner ignore rules', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const sinon = require('sinon');
+  const vscode = require('vscode');
+  const { FileSystemUtils } = require('../file-system-utils');
+  const { IgnoreRules } = require('../ignore-rules');
+  const folder = (resource: string) => ({
+    'entries.json': JSON.stringify({ resource, entries: [{ id: 'r1', timestamp: 1 }] }),
+    'r1': 'x'
+  });
+
+  beforeEach(() => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    mockFs({
+      '/global/History': {
+        'one': folder('file:///work/app/dist/bundle.js'),
+        'two': folder('file:///work/app/src/a.ts')
+      },
+      '/work/app/.gitignore': 'dist/\n'
+    });
+    sinon.stub(vscode.workspace, 'findFiles').resolves([vscode.Uri.file('/work/app/.gitignore')]);
+    IgnoreRules.invalidate();
+  });
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); vscode.workspace.settings = {}; });
+
+  it('marks items matched by an ignore rule', async () => {
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations();
+
+    const ignored = result.items.find((i: any) => i.relativePath === 'dist/bundle.js');
+    expect(ignored.ignoredBy).to.equal('.gitignore: dist/');
+    expect(result.items.find((i: any) => i.relativePath === 'src/a.ts').ignoredBy).to.be.undefined;
+  });
+
+  it('leaves ignored items out when they are set to be hidden', async () => {
+    vscode.workspace.settings['minouris-local-history-restore.ignoredItems'] = 'hide';
+
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations();
+
+    expect(result.items.map((i: any) => i.relativePath)).to.deep.equal(['src/a.ts']);
+  });
+
+  it('keeps scanning with the valid rules when a rule is not a valid pattern', async () => {
+    vscode.workspace.settings['minouris-local-history-restore.ignorePatterns'] = ['[z-a].ts'];
+
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations();
+
+    expect(result.items).to.have.length(2);
+    expect(result.items.find((i: any) => i.relativePath === 'dist/bundle.js').ignoredBy).to.equal('.gitignore: dist/');
+    expect(result.errors).to.deep.equal(['Skipped ignore rule that is not a valid pattern in /work/app: ignorePatterns: [z-a].ts']);
+  });
+});
+
+describe('BackupScanner git tracking', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('marks found files with their git status', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    mockFs({
+      '/global/History/abc': {
+        'entries.json': JSON.stringify({ resource: 'file:///work/app/a.ts', entries: [{ id: 'r1', timestamp: 1 }] }),
+        'r1': 'x'
+      },
+      '/work/app': {}
+    });
+    const gitIntegration = { getTrackingStatus: sinon.stub().resolves(new Map([['/work/app/a.ts', 'tracked']])) };
+
+    const result = await new BackupScanner('/work/app', ['/user'], undefined, [], gitIntegration).scanAllBackupLocations();
+
+    expect(result.items[0].gitStatus).to.equal('tracked');
+    expect(gitIntegration.getTrackingStatus.firstCall.args[0].map((uri: any) => uri.fsPath)).to.deep.equal(['/work/app/a.ts']);
+  });
+});
+
+describe('BackupScanner moved files', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const { MoveDetector } = require('../move-detector');
+  const sinon = require('sinon');
+  const vscode = require('vscode');
+  const { FileSystemUtils } = require('../file-system-utils');
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); vscode.workspace.settings = {}; });
+
+  async function scanWithRenamedFile() {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    mockFs({
+      '/global/History/abc': {
+        'entries.json': JSON.stringify({ resource: 'file:///work/app/a.ts', entries: [{ id: 'r1', timestamp: 1 }] }),
+        'r1': 'content'
+      },
+      '/work/app/renamed.ts': 'content'
+    });
+    const moveDetector = new MoveDetector();
+    moveDetector.recordCreatedFiles([vscode.Uri.file('/work/app/renamed.ts')]);
+
+    return new BackupScanner('/work/app', ['/user'], undefined, [], undefined, moveDetector).scanAllBackupLocations();
+  }
+
+  it('marks files whose content was created elsewhere as moved', async () => {
+    const result = await scanWithRenamedFile();
+
+    expect(result.items[0].movedTo.fsPath).to.equal('/work/app/renamed.ts');
+  });
+
+  it('leaves moved files out when they are set to be hidden', async () => {
+    vscode.workspace.settings['minouris-local-history-restore.movedItems'] = 'hide';
+
+    const result = await scanWithRenamedFile();
+
+    expect(result.items).to.deep.equal([]);
+    expect(result.rejected).to.deep.equal([{ historyFolder: path.join('/global/History', 'abc'), originalPath: '/work/app/a.ts', reason: 'moved' }]);
+  });
+});
+
+describe('BackupScanner scan report details', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+  const folder = (resource: string, files: Record<string, string> = { 'r1': 'x' }) => ({
+    'entries.json': JSON.stringify({ resource, entries: [{ id: 'r1', timestamp: 1 }] }),
+    ...files
+  });
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('records scanned locations, parsed folders and why entries were rejected', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns(['/storage/missing']);
+    mockFs({
+      '/global/History': {
+        'deleted': folder('file:///work/app/gone.ts'),
+        'other': folder('file:///elsewhere/x.ts'),
+        'present': folder('file:///work/app/here.ts'),
+        'empty': folder('file:///work/app/lost.ts', {})
+      },
+      '/work/app/here.ts': 'still here'
+    });
+
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations();
+
+    expect(result.items.map((i: any) => i.relativePath)).to.deep.equal(['gone.ts']);
+    expect(result.historyFoldersParsed).to.equal(4);
+    expect(result.locations).to.deep.include({ kind: 'globalHistory', path: '/global/History', exists: true });
+    expect(result.locations).to.deep.include({ kind: 'workspaceHistory', path: '/work/app/.vscode/history', exists: false });
+    expect(result.locations).to.deep.include({ kind: 'storageFolders', path: '/storage/missing', exists: false });
+
+    const reasons = Object.fromEntries(result.rejected.map((entry: any) => [entry.originalPath, entry.reason]));
+    expect(reasons).to.deep.equal({
+      '/elsewhere/x.ts': 'outsideWorkspace',
+      '/work/app/here.ts': 'stillExists',
+      '/work/app/lost.ts': 'noBackupFile'
+    });
+    expect(result.rejected.find((entry: any) => entry.reason === 'noBackupFile').historyFolder).to.equal(path.join('/global/History', 'empty'));
+  });
+
+  it('skips entries whose id leads outside the history folder and rejects folders left without backups', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    const entries = (ids: string[]) => JSON.stringify({ resource: 'file:///work/app/' + ids.length + '.ts', entries: ids.map((id, i) => ({ id, timestamp: i + 1 })) });
+    mockFs({
+      '/global/History': {
+        'mixed': { 'entries.json': entries(['r1', '../secret']), 'r1': 'x' },
+        'unsafe': { 'entries.json': entries(['/global/secret']) }
+      },
+      '/global/secret': 'not a backup'
+    });
+
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations();
+
+    expect(result.items.map((i: any) => i.relativePath)).to.deep.equal(['2.ts']);
+    expect(result.items[0].revisions.map((r: any) => r.path)).to.deep.equal([path.join('/global/History', 'mixed', 'r1')]);
+    expect(result.rejected).to.deep.equal([
+      { historyFolder: path.join('/global/History', 'unsafe'), originalPath: '/work/app/1.ts', reason: 'unsafeEntryId' }
+    ]);
+    expect(result.errors).to.have.members([
+      `Skipped history entry "../secret" in ${path.join('/global/History', 'mixed')}: its id is not a plain file name`,
+      `Skipped history entry "/global/secret" in ${path.join('/global/History', 'unsafe')}: its id is not a plain file name`
+    ]);
+  });
+});
+
+describe('BackupScanner remote workspaces', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const sinon = require('sinon');
+  const vscode = require('vscode');
+  const { FileSystemUtils } = require('../file-system-utils');
+  const folder = (resource: string) => ({
+    'entries.json': JSON.stringify({ resource, entries: [{ id: 'r1', timestamp: 1 }] }),
+    'r1': 'x'
+  });
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('keeps the scheme and authority of remote resources and matches them to remote workspace folders', async () => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+    mockFs({
+      '/global/History': {
+        'remote': folder('vscode-remote://ssh-remote+box/home/me/app/a.ts'),
+        'other-host': folder('vscode-remote://ssh-remote+other/home/me/app/b.ts')
+      }
+    });
+    const workspaceUri = vscode.Uri.parse('vscode-remote://ssh-remote+box/home/me/app');
+
+    const result = await new BackupScanner([workspaceUri], ['/user']).scanAllBackupLocations();
+
+    expect(result.items).to.have.length(1);
+    expect(result.items[0].uri.scheme).to.equal('vscode-remote');
+    expect(result.items[0].uri.authority).to.equal('ssh-remote+box');
+    expect(result.items[0].relativePath).to.equal('a.ts');
+    expect(result.rejected.map((entry: any) => entry.reason)).to.deep.equal(['outsideWorkspace']);
+  });
+});
+
+describe('BackupScanner path identity', () => {
+  const BackupScanner = require('../backup-scanner').BackupScanner;
+  const sinon = require('sinon');
+  const { FileSystemUtils } = require('../file-system-utils');
+  const folder = (resource: string) => ({
+    'entries.json': JSON.stringify({ resource, entries: [{ id: 'r1', timestamp: 1 }] }),
+    'r1': 'x'
+  });
+
+  beforeEach(() => {
+    sinon.stub(FileSystemUtils, 'getGlobalBackupPath').returns('/global/History');
+    sinon.stub(FileSystemUtils, 'getVSCodeBackupLocations').returns([]);
+  });
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('does not treat a sibling folder sharing the workspace name as a prefix as inside it', async () => {
+    mockFs({
+      '/global/History': {
+        'inside': folder('file:///work/app/a.ts'),
+        'sibling': folder('file:///work/app-old/b.ts')
+      },
+      '/work/app': {}
+    });
+
+    const result = await new BackupScanner('/work/app', ['/user']).scanAllBackupLocations();
+
+    expect(result.items.map((item: any) => item.relativePath)).to.deep.equal(['a.ts']);
+    expect(result.rejected).to.deep.include({ historyFolder: '/global/History/sibling', originalPath: '/work/app-old/b.ts', reason: 'outsideWorkspace' });
+  });
+
+  it('matches history recorded under the real path of a workspace opened through a symbolic link', async () => {
+    mockFs({
+      '/global/History': { 'real': folder('file:///data/app/src/a.ts') },
+      '/data/app/src': {},
+      '/links/app': mockFs.symlink({ path: '/data/app' })
+    });
+
+    const result = await new BackupScanner('/links/app', ['/user']).scanAllBackupLocations();
+
+    expect(result.items).to.have.length(1);
+    expect(result.items[0].uri.fsPath).to.equal('/links/app/src/a.ts');
+    expect(result.items[0].relativePath).to.equal('src/a.ts');
+    expect(result.items[0].workspaceRoot).to.equal('/links/app');
+    expect(result.items[0].nativeHistoryEntry.uri.fsPath).to.equal('/data/app/src/a.ts');
+  });
+});
@@ -0,0 +1,36 @@
+const { expect } = require('chai');
+const { ConcurrencyLimiter } = require('../concurrency-limiter');
+
+describe('ConcurrencyLimiter', () => {
+  function delay(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  it('never runs more operations at once than the limit', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => limiter.run(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await delay(5);
+      running--;
+      return n * 10;
+    })));
+
+    expect(peak).to.equal(2);
+    expect(results).to.deep.equal([10, 20, 30, 40, 50]);
+  });
+
+  it('frees the slot when an operation fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    let failed = false;
+    await limiter.run(async () => { throw new Error('boom'); }).catch(() => { failed = true; });
+    const value = await limiter.run(async () => 'next');
+
+    expect(failed).to.be.true;
+    expect(value).to.equal('next');
+  });
+});
@@ -0,0 +1,37 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const vscode = require('vscode');
+const { ConflictResolver } = require('../conflict-resolver');
+
+describe('ConflictResolver', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  const item = { relativePath: 'a.txt', isDirectory: false };
+
+  it('only offers apply-to-all choices for bulk runs', async () => {
+    const quickPick = sandbox.stub(vscode.window, 'showQuickPick').resolves(undefined);
+
+    await new ConflictResolver(false).resolve(item);
+    await new ConflictResolver(true).resolve(item);
+
+    expect(quickPick.firstCall.args[0].some((i: any) => i.applyToAll)).to.be.false;
+    expect(quickPick.secondCall.args[0].some((i: any) => i.applyToAll)).to.be.true;
+  });
+
+  it('treats a dismissed prompt as skip', async () => {
+    sandbox.stub(vscode.window, 'showQuickPick').resolves(undefined);
+    expect(await new ConflictResolver(true).resolve(item)).to.equal('skip');
+  });
+
+  it('remembers an apply-to-all choice for later conflicts', async () => {
+    const quickPick = sandbox.stub(vscode.window, 'showQuickPick').callsFake(async (items: any[]) =>
+      items.find(i => i.action === 'keepBoth' && i.applyToAll));
+    const resolver = new ConflictResolver(true);
+
+    expect(await resolver.resolve(item)).to.equal('keepBoth');
+    expect(await resolver.resolve({ relativePath: 'b.txt', isDirectory: false })).to.equal('keepBoth');
+    expect(quickPick.calledOnce).to.be.true;
+  });
+});
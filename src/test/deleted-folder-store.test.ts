@@ -0,0 +1,68 @@
+const { expect } = require('chai');
+const fs = require('fs');
+const mockFs = require('mock-fs');
+const vscode = require('vscode');
+const { DeletedFolderStore } = require('../deleted-folder-store');
+
+describe('DeletedFolderStore', () => {
+  const storePath = '/storage/deleted-folders.json';
+
+  afterEach(() => mockFs.restore());
+
+  it('snapshots folders about to be deleted and ignores files', async () => {
+    mockFs({
+      '/work/app/build': { 'out.js': 'x', 'empty': {}, 'nested': { 'deep.js': 'y' } },
+      '/work/app/file.txt': 'z'
+    });
+    const store = new DeletedFolderStore(storePath);
+
+    await store.recordFolderDeletions([vscode.Uri.file('/work/app/build'), vscode.Uri.file('/work/app/file.txt')]);
+
+    const stored = JSON.parse(fs.readFileSync(storePath, 'utf8'));
+    expect(stored.map((r: any) => r.path)).to.deep.equal(['/work/app/build']);
+    expect(stored[0].children.map((c: any) => c.relativePath).sort()).to.deep.equal(['empty', 'nested', 'nested/deep.js', 'out.js']);
+  });
+
+  it('returns items for deleted folders and their subfolders inside the workspace', async () => {
+    mockFs({ '/work/app/build': { 'empty': {} } });
+    const store = new DeletedFolderStore(storePath);
+    await store.recordFolderDeletions([vscode.Uri.file('/work/app/build')]);
+    fs.rmSync('/work/app/build', { recursive: true });
+
+    const items = await store.getDeletedFolderItems(['/work/app']);
+
+    expect(items.map((i: any) => i.relativePath)).to.deep.equal(['build', 'build/empty']);
+    expect(items.every((i: any) => i.isDirectory && i.workspaceRoot === '/work/app')).to.be.true;
+    expect(items[0].folderSnapshot.length).to.equal(1);
+    expect(await store.getDeletedFolderItems(['/elsewhere'])).to.deep.equal([]);
+  });
+
+  it('drops records once the folder exists again', async () => {
+    mockFs({ '/work/app/build': {} });
+    const store = new DeletedFolderStore(storePath);
+    await store.recordFolderDeletions([vscode.Uri.file('/work/app/build')]);
+
+    expect(await store.getDeletedFolderItems(['/work/app'])).to.deep.equal([]);
+    expect(JSON.parse(fs.readFileSync(storePath, 'utf8'))).to.deep.equal([]);
+  });
+
+  it('drops malformed records when loading the store file', async () => {
+    const record = { path: '/work/app/build', deletionTime: 1, children: [{ relativePath: 'out', isDirectory: true }] };
+    mockFs({
+      [storePath]: JSON.stringify([
+        record,
+        { ...record, path: '/work/app/dist', children: 'not a list' },
+        { ...record, path: '/work/app/lib', children: [{ relativePath: 7 }] },
+        { ...record, path: '/work/app/tmp', deletionTime: 'yesterday' },
+        { ...record, path: '/work/app/out', uri: 3 },
+        { deletionTime: 1, children: [] },
+        null
+      ]),
+      '/work/app': {}
+    });
+
+    const items = await new DeletedFolderStore(storePath).getDeletedFolderItems(['/work/app']);
+
+    expect(items.map((i: any) => i.relativePath)).to.deep.equal(['build', 'build/out']);
+  });
+});
@@ -0,0 +1,93 @@
+const { expect } = require('chai');
+const mockFs = require('mock-fs');
+const vscode = require('vscode');
+const { DeletedItemsFileSystem } = require('../deleted-items-file-system');
+
+describe('DeletedItemsFileSystem', () => {
+  const file = (workspaceRoot: string, relativePath: string, revisions: string[]) => ({
+    uri: vscode.Uri.file(`${workspaceRoot}/${relativePath}`),
+    relativePath,
+    isDirectory: false,
+    deletionTime: new Date('2024-03-01T10:00:00Z'),
+    backupPath: revisions[0],
+    workspaceRoot,
+    revisions: revisions.map((revisionPath, index) => ({ path: revisionPath, timestamp: new Date(2024, 2, 1 - index), size: 0 }))
+  });
+  const uri = (uriPath: string, query = '') => vscode.Uri.from({ scheme: 'deleted-items', path: uriPath, query });
+  const readText = async (fileSystem: any, target: any) => new TextDecoder().decode(await fileSystem.readFile(target));
+
+  afterEach(() => { mockFs.restore(); vscode.workspace.workspaceFolders = []; });
+
+  it('exposes the deleted hierarchy of a single workspace folder at the root', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    mockFs({ '/backup': { 'a-new': 'newest', 'a-old': 'oldest', 'b': 'bee' } });
+    const fileSystem = new DeletedItemsFileSystem(() => [
+      file('/work/app', 'src/lib/a.ts', ['/backup/a-new', '/backup/a-old']),
+      file('/work/app', 'b.txt', ['/backup/b'])
+    ]);
+
+    expect(fileSystem.readDirectory(uri('/'))).to.have.deep.members([['src', vscode.FileType.Directory], ['b.txt', vscode.FileType.File]]);
+    expect(fileSystem.readDirectory(uri('/src/lib'))).to.deep.equal([['a.ts', vscode.FileType.File]]);
+    expect(await readText(fileSystem, uri('/src/lib/a.ts'))).to.equal('newest');
+
+    const stat = await fileSystem.stat(uri('/src/lib/a.ts'));
+    expect(stat.size).to.equal(6);
+    expect(stat.permissions).to.equal(vscode.FilePermission.Readonly);
+  });
+
+  it('reads older revisions named in the query', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    mockFs({ '/backup': { 'a-new': 'newest', 'a-old': 'oldest' } });
+    const item = file('/work/app', 'a.ts', ['/backup/a-new', '/backup/a-old']);
+    const fileSystem = new DeletedItemsFileSystem(() => [item]);
+
+    const revisionUri = DeletedItemsFileSystem.createUri(item, item.revisions[1]);
+
+    expect(revisionUri.path).to.equal('/a.ts');
+    expect(revisionUri.query).to.equal('revision=a-old');
+    expect(await readText(fileSystem, revisionUri)).to.equal('oldest');
+    await expectFileSystemError(() => fileSystem.readFile(uri('/a.ts', 'revision=unknown')), 'FileNotFound');
+  });
+
+  it('gives each workspace folder its own top-level directory when several are open', () => {
+    vscode.workspace.workspaceFolders = [
+      { uri: vscode.Uri.file('/work/app'), name: 'app' },
+      { uri: vscode.Uri.file('/work/lib'), name: 'lib' },
+      { uri: DeletedItemsFileSystem.getRootUri(), name: 'Deleted Items' }
+    ];
+    const item = file('/work/lib', 'b.ts', ['/backup/b']);
+    const fileSystem = new DeletedItemsFileSystem(() => [item]);
+
+    expect(fileSystem.readDirectory(uri('/'))).to.deep.equal([['lib', vscode.FileType.Directory]]);
+    expect(fileSystem.readDirectory(uri('/lib'))).to.deep.equal([['b.ts', vscode.FileType.File]]);
+    expect(DeletedItemsFileSystem.createUri(item).path).to.equal('/lib/b.ts');
+  });
+
+  it('rebuilds the hierarchy on refresh and refuses every change', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    let items = [file('/work/app', 'a.ts', ['/backup/a'])];
+    const fileSystem = new DeletedItemsFileSystem(() => items);
+    const changes: any[] = [];
+    fileSystem.onDidChangeFile((events: any[]) => changes.push(...events));
+
+    expect(fileSystem.readDirectory(uri('/'))).to.have.length(1);
+    items = [];
+    fileSystem.refresh();
+
+    expect(fileSystem.readDirectory(uri('/'))).to.deep.equal([]);
+    expect(changes.map(change => change.uri.path)).to.deep.equal(['/']);
+    await expectFileSystemError(() => fileSystem.stat(uri('/a.ts')), 'FileNotFound');
+    await expectFileSystemError(() => fileSystem.writeFile(uri('/a.ts'), new Uint8Array(), {}), 'NoPermissions');
+    await expectFileSystemError(() => fileSystem.delete(uri('/a.ts'), {}), 'NoPermissions');
+  });
+
+  async function expectFileSystemError(action: () => unknown, code: string): Promise<void> {
+    let error: any;
+    try {
+      await action();
+    } catch (e) {
+      error = e;
+    }
+    expect(error?.code).to.equal(code);
+  }
+});
@@ -38,7 +38,7 @@ describe('DeletedItemsProvider edge cases', () => {
     await provider.refresh();
     const items = await provider.getChildren();
     expect(items).to.have.lengthOf(1);
-    const ti = provider.getTreeItem(items[0]);
-    expect(ti.tooltip).to.include('Backup: N/A');
+    const ti = await provider.resolveTreeItem(provider.getTreeItem(items[0]), items[0]);
+    expect(ti.tooltip.value).to.include('Backup: N/A');
   });
 });
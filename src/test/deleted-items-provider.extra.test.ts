@@ -31,8 +31,283 @@ describe('DeletedItemsProvider extra tests', () => {
     provider['deletedItems'] = [item];
     provider['organizeItems'] = function() { this['organizedItems'] = [item]; };
 
-    const treeItem = provider.getTreeItem(item);
-    expect(treeItem.tooltip).to.be.a('string');
+    const treeItem = await provider.resolveTreeItem(provider.getTreeItem(item), item);
+    expect(treeItem.tooltip).to.be.instanceOf(vscode.MarkdownString);
     expect(treeItem.description).to.be.a('string');
   });
 });
+
+describe('DeletedItemsProvider multi-root', () => {
+  const vscode = require('vscode');
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+
+  afterEach(() => { sinon.restore(); vscode.workspace.workspaceFolders = []; });
+
+  it('shows one top-level node per workspace folder with items relative to their own root', async () => {
+    vscode.workspace.workspaceFolders = [
+      { uri: vscode.Uri.file('/work/app'), name: 'app' },
+      { uri: vscode.Uri.file('/work/lib'), name: 'lib' },
+      { uri: vscode.Uri.file('/work/empty'), name: 'empty' }
+    ];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [
+      { uri: vscode.Uri.file('/work/app/src/a.ts'), relativePath: 'src/a.ts', isDirectory: false, deletionTime: new Date(), workspaceRoot: '/work/app' },
+      { uri: vscode.Uri.file('/work/lib/b.ts'), relativePath: 'b.ts', isDirectory: false, deletionTime: new Date(), workspaceRoot: '/work/lib' }
+    ], errors: [] });
+
+    const provider = new DeletedItemsProvider();
+    await provider.refresh();
+    const roots = await provider.getChildren();
+
+    expect(roots.map((r: any) => r.group.label)).to.deep.equal(['app', 'lib']);
+    const appChildren = await provider.getChildren(roots[0]);
+    expect(appChildren[0].uri.fsPath).to.equal('/work/app/src');
+    expect(provider.getTreeItem(roots[0]).label).to.equal('app');
+  });
+
+  it('filters the items of every workspace folder', async () => {
+    vscode.workspace.workspaceFolders = [
+      { uri: vscode.Uri.file('/work/app'), name: 'app' },
+      { uri: vscode.Uri.file('/work/lib'), name: 'lib' }
+    ];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [
+      { uri: vscode.Uri.file('/work/app/a.ts'), relativePath: 'a.ts', isDirectory: false, deletionTime: new Date(), workspaceRoot: '/work/app' },
+      { uri: vscode.Uri.file('/work/lib/b.ts'), relativePath: 'b.ts', isDirectory: false, deletionTime: new Date(), workspaceRoot: '/work/lib' },
+      { uri: vscode.Uri.file('/work/lib/c.js'), relativePath: 'c.js', isDirectory: false, deletionTime: new Date(), workspaceRoot: '/work/lib' }
+    ], errors: [] });
+    sinon.stub(vscode.commands, 'executeCommand').resolves();
+
+    const provider = new DeletedItemsProvider();
+    await provider.refresh();
+    await provider.setFilter({ query: '*.ts' });
+    const roots = await provider.getChildren();
+
+    expect(roots.map((r: any) => r.group.label)).to.deep.equal(['app', 'lib']);
+    expect((await provider.getChildren(roots[1])).map((i: any) => i.relativePath)).to.deep.equal(['b.ts']);
+  });
+});
+
+describe('DeletedItemsProvider incremental updates', () => {
+  const vscode = require('vscode');
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+  const { ScanIndex } = require('../scan-index');
+
+  const item = (relativePath: string) => ({
+    uri: vscode.Uri.file(`/work/app/${relativePath}`),
+    relativePath,
+    isDirectory: false,
+    deletionTime: new Date('2024-01-01'),
+    workspaceRoot: '/work/app'
+  });
+
+  afterEach(() => { sinon.restore(); vscode.workspace.workspaceFolders = []; });
+
+  async function createProvider(items: any[]) {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items, errors: [] });
+    const provider = new DeletedItemsProvider(undefined, new ScanIndex('/storage/scan-index.json'));
+    await provider.refresh();
+    const fired: any[] = [];
+    provider.onDidChangeTreeData((node: any) => fired.push(node));
+    return { provider, fired };
+  }
+
+  it('drops recreated files and refreshes only their folder', async () => {
+    const { provider, fired } = await createProvider([item('src/a.ts'), item('src/b.ts')]);
+    const scan = sinon.stub(BackupScanner.prototype, 'scanDeletedPaths');
+
+    await provider.applyFileChanges({ created: [vscode.Uri.file('/work/app/src/a.ts')], deleted: [] });
+
+    const [src] = await provider.getChildren();
+    expect(src.children.map((c: any) => c.relativePath)).to.deep.equal(['src/b.ts']);
+    expect(fired).to.deep.equal([src]);
+    expect(provider.getSelectedItems().length).to.equal(1);
+    expect(scan.called).to.be.false;
+  });
+
+  it('inserts items found for deleted paths', async () => {
+    const { provider, fired } = await createProvider([item('src/a.ts')]);
+    const scan = sinon.stub(BackupScanner.prototype, 'scanDeletedPaths').resolves({ items: [item('src/c.ts')], errors: [] });
+
+    await provider.applyFileChanges({ created: [], deleted: [vscode.Uri.file('/work/app/src/c.ts')] });
+
+    const [src] = await provider.getChildren();
+    expect(scan.firstCall.args[0]).to.deep.equal(['/work/app/src/c.ts']);
+    expect(src.children.map((c: any) => c.relativePath).sort()).to.deep.equal(['src/a.ts', 'src/c.ts']);
+    expect(fired).to.deep.equal([src]);
+  });
+
+  it('applies watcher changes after a running refresh instead of losing them', async () => {
+    const { provider } = await createProvider([item('src/a.ts')]);
+    let finishScan: (result: any) => void = () => undefined;
+    BackupScanner.prototype.scanAllBackupLocations.onSecondCall().returns(new Promise(resolve => { finishScan = resolve; }));
+    sinon.stub(BackupScanner.prototype, 'scanDeletedPaths').resolves({ items: [item('src/c.ts')], errors: [] });
+
+    const refresh = provider.refresh();
+    const update = provider.applyFileChanges({ created: [], deleted: [vscode.Uri.file('/work/app/src/c.ts')] });
+    await new Promise(resolve => setImmediate(resolve));
+    finishScan({ items: [item('src/a.ts'), item('src/b.ts')], errors: [] });
+    await Promise.all([refresh, update]);
+
+    const [src] = await provider.getChildren();
+    expect(src.children.map((c: any) => c.relativePath).sort()).to.deep.equal(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+  });
+});
+
+describe('DeletedItemsProvider recorded folder deletions', () => {
+  const vscode = require('vscode');
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+  const { ScanIndex } = require('../scan-index');
+
+  afterEach(() => { sinon.restore(); vscode.workspace.workspaceFolders = []; });
+
+  it('shows recorded folders and reorganizes when a new deletion is recorded', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [], errors: [] });
+    sinon.stub(BackupScanner.prototype, 'scanDeletedPaths').resolves({ items: [], errors: [] });
+    const folder = (relativePath: string) => ({
+      uri: vscode.Uri.file(`/work/app/${relativePath}`), relativePath, isDirectory: true,
+      deletionTime: new Date(), children: [], workspaceRoot: '/work/app', folderSnapshot: []
+    });
+    const store = { getDeletedFolderItems: sinon.stub().resolves([folder('old')]) };
+    const provider = new DeletedItemsProvider(undefined, new ScanIndex('/storage/index.json'), store);
+
+    await provider.refresh();
+    expect((await provider.getChildren()).map((i: any) => i.relativePath)).to.deep.equal(['old']);
+
+    store.getDeletedFolderItems.resolves([folder('old'), folder('build')]);
+    const fired: any[] = [];
+    provider.onDidChangeTreeData((node: any) => fired.push(node));
+    await provider.applyFileChanges({ created: [], deleted: [vscode.Uri.file('/work/app/build')] });
+
+    expect((await provider.getChildren()).map((i: any) => i.relativePath).sort()).to.deep.equal(['build', 'old']);
+    expect(fired).to.deep.equal([undefined]);
+  });
+});
+
+describe('DeletedItemsProvider filtering', () => {
+  const vscode = require('vscode');
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+  const { ScanIndex } = require('../scan-index');
+  const { CONTEXT_KEYS } = require('../constants');
+  const item = (relativePath: string) => ({
+    uri: vscode.Uri.file(`/work/app/${relativePath}`), relativePath, isDirectory: false, deletionTime: new Date(), workspaceRoot: '/work/app'
+  });
+
+  afterEach(() => { sinon.restore(); vscode.workspace.workspaceFolders = []; });
+
+  it('prunes the tree to matching items, sets the context key and lists file types', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [item('src/a.ts'), item('src/b.js'), item('c.ts')], errors: [] });
+    const executeCommand = sinon.stub(vscode.commands, 'executeCommand').resolves();
+    const provider = new DeletedItemsProvider();
+    await provider.refresh();
+
+    expect(provider.getFileTypes()).to.deep.equal(['.js', '.ts']);
+    await provider.setFilter({ query: 'src', fileTypes: ['.ts'] });
+
+    const roots = await provider.getChildren();
+    expect(roots.map((r: any) => r.relativePath)).to.deep.equal(['src']);
+    expect((await provider.getChildren(roots[0])).map((c: any) => c.relativePath)).to.deep.equal(['src/a.ts']);
+    expect(executeCommand.calledWith('setContext', CONTEXT_KEYS.FILTER_ACTIVE, true)).to.be.true;
+
+    await provider.setFilter(undefined);
+    expect(await provider.getChildren()).to.have.length(2);
+    expect(executeCommand.lastCall.args).to.deep.equal(['setContext', CONTEXT_KEYS.FILTER_ACTIVE, false]);
+  });
+
+  it('refreshes the whole tree after incremental changes while a filter is active', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [item('src/a.ts')], errors: [] });
+    sinon.stub(BackupScanner.prototype, 'scanDeletedPaths').resolves({ items: [item('src/b.ts')], errors: [] });
+    sinon.stub(vscode.commands, 'executeCommand').resolves();
+    const provider = new DeletedItemsProvider(undefined, new ScanIndex('/nonexistent/index.json'));
+    await provider.refresh();
+    await provider.setFilter({ query: 'b.ts' });
+    const fired: any[] = [];
+    provider.onDidChangeTreeData((node: any) => fired.push(node));
+
+    await provider.applyFileChanges({ created: [], deleted: [vscode.Uri.file('/work/app/src/b.ts')] });
+
+    expect(fired).to.deep.equal([undefined]);
+    const roots = await provider.getChildren();
+    expect((await provider.getChildren(roots[0])).map((c: any) => c.relativePath)).to.deep.equal(['src/b.ts']);
+  });
+});
+
+describe('DeletedItemsProvider grouping modes', () => {
+  const vscode = require('vscode');
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+  const { ScanIndex } = require('../scan-index');
+  const { CONTEXT_KEYS } = require('../constants');
+  const item = (relativePath: string, deletionTime: Date) => ({
+    uri: vscode.Uri.file(`/work/app/${relativePath}`), relativePath, isDirectory: false, deletionTime, workspaceRoot: '/work/app'
+  });
+
+  afterEach(() => { sinon.restore(); vscode.workspace.workspaceFolders = []; });
+
+  it('switches between folder, session and flat layouts and reorganizes on incremental changes', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [
+      item('src/a.ts', new Date(2024, 0, 1, 10, 0)),
+      item('src/b.ts', new Date(2024, 0, 1, 10, 1)),
+      item('c.ts', new Date(2024, 0, 2, 10, 0))
+    ], errors: [] });
+    sinon.stub(BackupScanner.prototype, 'scanDeletedPaths').resolves({ items: [item('d.ts', new Date(2024, 0, 2, 10, 2))], errors: [] });
+    sinon.stub(FileSystemUtils, 'fileExists').returns(false);
+    const executeCommand = sinon.stub(vscode.commands, 'executeCommand').resolves();
+    const provider = new DeletedItemsProvider(undefined, new ScanIndex('/nonexistent/index.json'));
+    await provider.refresh();
+
+    await provider.setGroupingMode('session');
+    let roots = await provider.getChildren();
+    expect(roots.map((r: any) => r.children.length)).to.deep.equal([1, 2]);
+    expect(executeCommand.calledWith('setContext', CONTEXT_KEYS.GROUPING_MODE, 'session')).to.be.true;
+
+    await provider.applyFileChanges({ created: [], deleted: [vscode.Uri.file('/work/app/d.ts')] });
+    roots = await provider.getChildren();
+    expect(roots.map((r: any) => r.children.length)).to.deep.equal([2, 2]);
+
+    await provider.setGroupingMode('flat');
+    roots = await provider.getChildren();
+    expect(roots.map((r: any) => r.relativePath)).to.deep.equal(['d.ts', 'c.ts', 'src/b.ts', 'src/a.ts']);
+    expect(provider.getTreeItem(roots[2]).description).to.contain('src · ');
+    expect(provider.getGroupingMode()).to.equal('flat');
+  });
+});
+
+describe('DeletedItemsProvider ignored items', () => {
+  const vscode = require('vscode');
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+
+  afterEach(() => { sinon.restore(); vscode.workspace.workspaceFolders = []; });
+
+  it('moves ignored items into a collapsed Ignored group at the end', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items: [
+      { uri: vscode.Uri.file('/work/app/a.ts'), relativePath: 'a.ts', isDirectory: false, deletionTime: new Date(1), workspaceRoot: '/work/app' },
+      { uri: vscode.Uri.file('/work/app/dist/b.js'), relativePath: 'dist/b.js', isDirectory: false, deletionTime: new Date(2), workspaceRoot: '/work/app', ignoredBy: '.gitignore: dist/' }
+    ], errors: [] });
+    sinon.stub(FileSystemUtils, 'fileExists').returns(false);
+    const provider = new DeletedItemsProvider();
+    await provider.refresh();
+
+    const roots = await provider.getChildren();
+
+    expect(roots.map((r: any) => r.relativePath)).to.deep.equal(['a.ts', '']);
+    expect(roots[1].group.kind).to.equal('ignored');
+    const groupItem = provider.getTreeItem(roots[1]);
+    expect(groupItem.label).to.equal('Ignored');
+    expect(groupItem.collapsibleState).to.equal(vscode.TreeItemCollapsibleState.Collapsed);
+    const ignoredFolder = (await provider.getChildren(roots[1]))[0];
+    expect(ignoredFolder.relativePath).to.equal('dist');
+    const ignoredFile = ignoredFolder.children[0];
+    const ignoredTreeItem = await provider.resolveTreeItem(provider.getTreeItem(ignoredFile), ignoredFile);
+    expect(ignoredTreeItem.tooltip.value).to.contain('Ignored by .gitignore: dist/');
+  });
+});
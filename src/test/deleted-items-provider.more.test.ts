@@ -10,23 +10,25 @@ describe('DeletedItemsProvider more cases', () => {
   beforeEach(() => { sandbox = sinon.createSandbox(); });
   afterEach(() => { sandbox.restore(); vscode.workspace.workspaceFolders = []; });
 
-  it('file tooltip shows NO_BACKUP_PATH_SUFFIX when no backupPath', () => {
+  const asText = (suffix: string) => new vscode.MarkdownString().appendText(suffix).value;
+
+  it('file tooltip shows NO_BACKUP_PATH_SUFFIX when no backupPath', async () => {
     const provider = new DeletedItemsProvider();
     const item = { isDirectory: false, relativePath: 'x.txt', uri: vscode.Uri.file('/workspace/x.txt'), deletionTime: new Date() };
     // file doesn't exist and no backupPath
     sandbox.stub(FileSystemUtils, 'fileExists').returns(false);
 
-    const treeItem = provider.getTreeItem(item);
-    expect(treeItem.tooltip).to.contain(STATUS_INDICATORS.NO_BACKUP_PATH_SUFFIX);
+    const treeItem = await provider.resolveTreeItem(provider.getTreeItem(item), item);
+    expect(treeItem.tooltip.value).to.contain(asText(STATUS_INDICATORS.NO_BACKUP_PATH_SUFFIX));
   });
 
-  it('file tooltip shows BACKUP_MISSING_SUFFIX when backupPath present but missing on disk', () => {
+  it('file tooltip shows BACKUP_MISSING_SUFFIX when backupPath present but missing on disk', async () => {
     const provider = new DeletedItemsProvider();
     const item = { isDirectory: false, relativePath: 'y.txt', uri: vscode.Uri.file('/workspace/y.txt'), backupPath: '/backup/y.txt', deletionTime: new Date() };
     // file does not exist, backup missing
   sandbox.stub(FileSystemUtils, 'fileExists').callsFake((p: string) => false);
 
-    const treeItem = provider.getTreeItem(item);
-    expect(treeItem.tooltip).to.contain(STATUS_INDICATORS.BACKUP_MISSING_SUFFIX);
+    const treeItem = await provider.resolveTreeItem(provider.getTreeItem(item), item);
+    expect(treeItem.tooltip.value).to.contain(asText(STATUS_INDICATORS.BACKUP_MISSING_SUFFIX));
   });
 });
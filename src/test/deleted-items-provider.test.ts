@@ -38,7 +38,7 @@ describe('DeletedItemsProvider', () => {
     const children = await provider.getChildren();
     expect(children).to.be.an('array');
     expect(children.length).to.equal(1);
-    const treeItem = provider.getTreeItem(children[0]);
-    expect(treeItem.tooltip).to.include('Deleted:');
+    const treeItem = await provider.resolveTreeItem(provider.getTreeItem(children[0]), children[0]);
+    expect(treeItem.tooltip.value).to.include('Deleted:');
   });
 });
@@ -0,0 +1,47 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const vscode = require('vscode');
+const { ExtensionSettings } = require('../extension-settings');
+const constants = require('../constants');
+
+describe('ExtensionSettings', () => {
+  afterEach(() => { vscode.workspace.settings = {}; sinon.restore(); });
+
+  it('falls back to the constant defaults', () => {
+    expect(ExtensionSettings.getMaxScanDepth()).to.equal(constants.MAX_SCAN_DEPTH);
+    expect(ExtensionSettings.getRefreshDebounceDelay()).to.equal(constants.REFRESH_DEBOUNCE_DELAY_MS);
+    expect(ExtensionSettings.getInitialScanDelay()).to.equal(constants.INITIAL_ACTIVATION_DELAY_MS);
+    expect(ExtensionSettings.getScanLocations()).to.deep.equal(['workspaceHistory', 'globalHistory', 'storageFolders', 'shadowBackups']);
+    expect(ExtensionSettings.shouldOpenRestoredFiles()).to.be.true;
+    expect(ExtensionSettings.getIgnorePatterns()).to.deep.equal([]);
+    expect(ExtensionSettings.shouldUseGitIgnore()).to.be.true;
+    expect(ExtensionSettings.shouldUseFilesExclude()).to.be.true;
+    expect(ExtensionSettings.getIgnoredItemsDisplay()).to.equal('group');
+    expect(ExtensionSettings.getMovedItemsDisplay()).to.equal('show');
+  });
+
+  it('reads configured values live and ignores invalid ones', () => {
+    vscode.workspace.settings['minouris-local-history-restore.maxScanDepth'] = 3;
+    vscode.workspace.settings['minouris-local-history-restore.refreshDebounceDelay'] = -5;
+    vscode.workspace.settings['minouris-local-history-restore.scanLocations'] = ['globalHistory', 'bogus'];
+    vscode.workspace.settings['minouris-local-history-restore.shadowBackupPatterns'] = [' src/**/*.ts ', '', 7];
+
+    expect(ExtensionSettings.getMaxScanDepth()).to.equal(3);
+    expect(ExtensionSettings.getRefreshDebounceDelay()).to.equal(constants.REFRESH_DEBOUNCE_DELAY_MS);
+    expect(ExtensionSettings.getScanLocations()).to.deep.equal(['globalHistory']);
+    expect(ExtensionSettings.isScanLocationEnabled('workspaceHistory')).to.be.false;
+    expect(ExtensionSettings.getShadowBackupPatterns()).to.deep.equal(['src/**/*.ts']);
+  });
+
+  it('notifies only for this extension and detects scan-affecting changes', () => {
+    const listener = sinon.spy();
+    const subscription = ExtensionSettings.onDidChange(listener);
+
+    vscode.workspace.fireConfigurationChange(['editor.fontSize']);
+    vscode.workspace.fireConfigurationChange(['minouris-local-history-restore.maxScanDepth']);
+    subscription.dispose();
+
+    expect(listener.calledOnce).to.be.true;
+    expect(ExtensionSettings.affectsScan(listener.firstCall.args[0])).to.be.true;
+  });
+});
@@ -33,3 +33,64 @@ describe('FileRestorer more cases', () => {
     await FileRestorer.restoreFolder(folder);
   });
 });
+
+describe('FileRestorer destination root', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => sandbox.restore());
+
+  it('recreates the relative path structure under the destination', async () => {
+    const folder: any = {
+      isDirectory: true,
+      relativePath: 'src/lib',
+      uri: vscode.Uri.file('/workspace/src/lib'),
+      children: [
+        { isDirectory: false, relativePath: 'src/lib/a.ts', uri: vscode.Uri.file('/workspace/src/lib/a.ts'), backupPath: '/b/a' },
+        {
+          isDirectory: true, relativePath: 'src/lib/util', uri: vscode.Uri.file('/workspace/src/lib/util'), children: [
+            { isDirectory: false, relativePath: 'src/lib/util/b.ts', uri: vscode.Uri.file('/workspace/src/lib/util/b.ts'), backupPath: '/b/b' }
+          ]
+        }
+      ]
+    };
+
+    const created = sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
+    sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([1]));
+    const written = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+    sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+    await FileRestorer.restoreFolder(folder, { destinationRoot: vscode.Uri.file('/tmp/recovered') });
+
+    expect(written.getCalls().map((c: any) => c.args[0].fsPath)).to.deep.equal([
+      '/tmp/recovered/src/lib/a.ts',
+      '/tmp/recovered/src/lib/util/b.ts'
+    ]);
+    expect(created.getCalls().every((c: any) => c.args[0].fsPath.startsWith('/tmp/recovered'))).to.be.true;
+  });
+});
+
+describe('FileRestorer recorded folder deletions', () => {
+  const mockFs = require('mock-fs');
+  const fs = require('fs');
+
+  afterEach(() => mockFs.restore());
+
+  it('recreates a deleted folder and its empty subfolders', async () => {
+    mockFs({ '/workspace': {} });
+    const folder: any = {
+      isDirectory: true,
+      relativePath: 'build',
+      uri: vscode.Uri.file('/workspace/build'),
+      folderSnapshot: [{ relativePath: 'empty', isDirectory: true }],
+      children: [
+        { isDirectory: true, relativePath: 'build/empty', uri: vscode.Uri.file('/workspace/build/empty'), children: [] }
+      ]
+    };
+
+    expect(FileRestorer.canRestoreFolder({ ...folder, children: [] }).canRestore).to.be.true;
+    const summary = await FileRestorer.restoreFolder(folder);
+
+    expect(fs.statSync('/workspace/build/empty').isDirectory()).to.be.true;
+    expect(summary).to.deep.equal({ restored: 0, skipped: 0, failed: 0 });
+  });
+});
@@ -83,7 +83,7 @@ describe('FileRestorer focused unit tests', () => {
   await FileRestorer.restoreItem(item);
   });
 
-  it('restoreFolder throws when any child fails to restore', async () => {
+  it('restoreFolder counts failed children and keeps restoring the others', async () => {
     const folder: any = {
       isDirectory: true,
       relativePath: 'myfolder',
@@ -98,14 +98,75 @@ describe('FileRestorer focused unit tests', () => {
     sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
     // readFile for ok child should succeed
     sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([9]));
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+
+    const summary = await FileRestorer.restoreFolder(folder);
+
+    expect(summary).to.deep.equal({ restored: 1, skipped: 0, failed: 1 });
+    expect(writeFile.firstCall.args[0].fsPath).to.equal('/workspace/myfolder/ok.txt');
+  });
+
+  it('restoreRevision restores the chosen revision instead of the newest backup', async () => {
+    const item: any = {
+      isDirectory: false,
+      relativePath: 'e.txt',
+      uri: vscode.Uri.file('/workspace/e.txt'),
+      backupPath: '/backup/newest'
+    };
+
+    sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
+    const readFile = sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([1]));
     sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+    sandbox.stub(vscode.commands, 'executeCommand').resolves();
 
-    try {
-      await FileRestorer.restoreFolder(folder);
-      throw new Error('Expected restoreFolder to reject');
-    } catch (err: any) {
-      expect(String(err)).to.match(/failed to restore/i);
-    }
+    await FileRestorer.restoreRevision(item, { path: '/backup/older', timestamp: new Date(), size: 1 });
+    expect(readFile.firstCall.args[0].fsPath).to.equal('/backup/older');
+  });
+
+  it('restoreFile consults the conflict resolver when the target exists', async () => {
+    const { FileSystemUtils } = require('../file-system-utils');
+    const item: any = {
+      isDirectory: false,
+      relativePath: 'f.txt',
+      uri: vscode.Uri.file('/workspace/f.txt'),
+      backupPath: '/backup/f.txt'
+    };
+
+    sandbox.stub(FileSystemUtils, 'uriExists').callsFake(async (uri: any) => uri.fsPath === '/workspace/f.txt');
+    sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
+    sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([1]));
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+    sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+    const skip = { resolve: async () => 'skip' };
+    expect(await FileRestorer.restoreItem(item, { conflictResolver: skip })).to.equal('skipped');
+    expect(writeFile.called).to.be.false;
+
+    const keepBoth = { resolve: async () => 'keepBoth' };
+    expect(await FileRestorer.restoreItem(item, { conflictResolver: keepBoth })).to.equal('restored');
+    expect(writeFile.firstCall.args[0].fsPath).to.equal('/workspace/f (restored).txt');
+  });
+
+  it('restoreFolder counts skipped conflicts separately from failures', async () => {
+    const { FileSystemUtils } = require('../file-system-utils');
+    const folder: any = {
+      isDirectory: true,
+      relativePath: 'dir',
+      uri: vscode.Uri.file('/workspace/dir'),
+      children: [
+        { isDirectory: false, relativePath: 'dir/new.txt', uri: vscode.Uri.file('/workspace/dir/new.txt'), backupPath: '/backup/new' },
+        { isDirectory: false, relativePath: 'dir/old.txt', uri: vscode.Uri.file('/workspace/dir/old.txt'), backupPath: '/backup/old' }
+      ]
+    };
+
+    sandbox.stub(FileSystemUtils, 'uriExists').callsFake(async (uri: any) => uri.fsPath === '/workspace/dir/old.txt');
+    sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
+    sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([1]));
+    sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+    sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+    const summary = await FileRestorer.restoreFolder(folder, { conflictResolver: { resolve: async () => 'skip' } });
+    expect(summary).to.deep.equal({ restored: 1, skipped: 1, failed: 0 });
   });
 
   it('canRestoreItem and canRestoreFolder edge cases', () => {
@@ -118,4 +179,62 @@ describe('FileRestorer focused unit tests', () => {
     const r2 = FileRestorer.canRestoreFolder(dirEmpty);
     expect(r2.canRestore).to.equal(false);
   });
+
+  it('restoreContent writes the given content without reading the backup', async () => {
+    const item: any = {
+      isDirectory: false,
+      relativePath: 'e.txt',
+      uri: vscode.Uri.file('/workspace/e.txt'),
+      backupPath: '/backup/e.txt'
+    };
+
+    const readFile = sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([1]));
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+
+    const outcome = await FileRestorer.restoreContent(item, Uint8Array.from([9, 9]), 'git HEAD');
+
+    expect(outcome).to.equal('restored');
+    expect(readFile.called).to.be.false;
+    expect(Array.from(writeFile.firstCall.args[1])).to.deep.equal([9, 9]);
+  });
+
+  it('restores under a remote destination on the destination\'s file system', async () => {
+    const item: any = {
+      isDirectory: false,
+      relativePath: 'src/g.txt',
+      uri: vscode.Uri.parse('vscode-remote://ssh-remote+box/work/src/g.txt'),
+      backupPath: '/backup/g.txt'
+    };
+
+    sandbox.stub(vscode.workspace.fs, 'createDirectory').resolves();
+    sandbox.stub(vscode.workspace.fs, 'readFile').resolves(Uint8Array.from([1]));
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+    sandbox.stub(vscode.commands, 'executeCommand').resolves();
+
+    await FileRestorer.restoreItem(item, { destinationRoot: vscode.Uri.parse('vscode-remote://ssh-remote+box/copies') });
+
+    const target = writeFile.firstCall.args[0];
+    expect(target.authority).to.equal('ssh-remote+box');
+    expect(target.path).to.equal('/copies/src/g.txt');
+  });
+
+  it('refuses to restore an item whose relative path leads outside the destination', async () => {
+    const item: any = {
+      isDirectory: false,
+      relativePath: '../outside.txt',
+      uri: vscode.Uri.file('/workspace/outside.txt'),
+      backupPath: '/backup/outside.txt'
+    };
+    const writeFile = sandbox.stub(vscode.workspace.fs, 'writeFile').resolves();
+
+    let error: any;
+    try {
+      await FileRestorer.restoreItem(item, { destinationRoot: vscode.Uri.file('/copies') });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error?.message).to.contain('outside the destination');
+    expect(writeFile.called).to.be.false;
+  });
 });
@@ -24,3 +24,26 @@ describe('FileSystemUtils additional tests', () => {
     expect(res).to.equal(null);
   });
 });
+
+describe('FileSystemUtils async helpers', () => {
+  afterEach(() => mockFs.restore());
+
+  it('reads directories, stats and JSON without throwing', async () => {
+    mockFs({ '/data': { 'good.json': '{"a":1}', 'bad.json': '{', 'sub': {} } });
+
+    expect(await FileSystemUtils.fileExistsAsync('/data/good.json')).to.be.true;
+    expect(await FileSystemUtils.fileExistsAsync('/data/missing')).to.be.false;
+    expect((await FileSystemUtils.readDirectoryAsync('/data')).map((e: any) => e.name).sort()).to.deep.equal(['bad.json', 'good.json', 'sub']);
+    expect(await FileSystemUtils.readDirectoryAsync('/missing')).to.deep.equal([]);
+    expect(await FileSystemUtils.readJsonFileAsync('/data/good.json')).to.deep.equal({ a: 1 });
+    expect(await FileSystemUtils.readJsonFileAsync('/data/bad.json')).to.equal(null);
+    expect((await FileSystemUtils.getFileStatsAsync('/data/good.json')).size).to.equal(7);
+    expect(await FileSystemUtils.getFileStatsAsync('/missing')).to.equal(null);
+  });
+
+  it('extractOriginalPathFromBackupAsync parses file:// URI from content', async () => {
+    mockFs({ '/tmp/backup1': 'header\nfile:///workspace/some/path.txt\n' });
+    const res = await FileSystemUtils.extractOriginalPathFromBackupAsync('/tmp/backup1', '/workspace');
+    expect(res).to.equal('/workspace/some/path.txt');
+  });
+});
@@ -14,4 +14,32 @@ describe('FileSystemUtils more cases', () => {
     const res = FileSystemUtils.sortBackupFilesByDate('/backups', ['a', 'b']);
     expect(res).to.be.an('array');
   });
+
+  it('createRestoredCopyUri picks the first free "(restored)" sibling and keeps the authority', async () => {
+    const vscode = require('vscode');
+    mockFs({ '/work': { 'a.txt': '1', 'a (restored).txt': '2' } });
+
+    expect((await FileSystemUtils.createRestoredCopyUri(vscode.Uri.file('/work/b.txt'))).fsPath).to.equal('/work/b (restored).txt');
+    expect((await FileSystemUtils.createRestoredCopyUri(vscode.Uri.file('/work/a.txt'))).fsPath).to.equal('/work/a (restored 2).txt');
+
+    const remote = await FileSystemUtils.createRestoredCopyUri(vscode.Uri.parse('vscode-remote://ssh-remote+box/srv/c.txt'));
+    expect(remote.authority).to.equal('ssh-remote+box');
+    expect(remote.path).to.equal('/srv/c (restored).txt');
+  });
+
+  it('resourceToUri keeps the scheme and authority of remote resources', () => {
+    const remote = FileSystemUtils.resourceToUri('vscode-remote://ssh-remote+box/home/me/a%20b.ts');
+    expect(remote.scheme).to.equal('vscode-remote');
+    expect(remote.authority).to.equal('ssh-remote+box');
+    expect(remote.path).to.equal('/home/me/a b.ts');
+
+    expect(FileSystemUtils.resourceToUri('file:///work/a.ts').fsPath).to.equal('/work/a.ts');
+    expect(FileSystemUtils.resourceToUri('/work/a.ts').scheme).to.equal('file');
+  });
+
+  it('formatFileSize uses the largest whole unit', () => {
+    expect(FileSystemUtils.formatFileSize(512)).to.equal('512 B');
+    expect(FileSystemUtils.formatFileSize(43008)).to.equal('42 KB');
+    expect(FileSystemUtils.formatFileSize(1572864)).to.equal('1.5 MB');
+  });
 });
@@ -21,4 +21,16 @@ describe('FileSystemUtils platform-specific paths', () => {
     expect(p).to.be.a('string');
     expect(p).to.include('Application Support');
   });
+
+  it('uses the given product folder for default user-data directories', () => {
+    sandbox.stub(os, 'platform').returns('linux');
+    sandbox.stub(os, 'homedir').returns('/home/dev');
+
+    const directories = FileSystemUtils.getDefaultUserDataDirectories('Code - Insiders');
+    expect(directories).to.deep.equal([
+      '/home/dev/.config/Code - Insiders/User',
+      '/home/dev/.vscode-server-insiders/data/User'
+    ]);
+    expect(FileSystemUtils.getGlobalBackupPath(directories[0])).to.equal('/home/dev/.config/Code - Insiders/User/History');
+  });
 });
@@ -42,3 +42,200 @@ describe('FileWatcherManager', () => {
   clock.restore();
   }).timeout(2000);
 });
+
+describe('FileWatcherManager change batches', () => {
+  const vscode = require('vscode');
+  const { FileWatcherManager } = require('../file-watcher-manager');
+
+  afterEach(() => {
+    sinon.restore();
+    vscode.workspace.workspaceFolders = [];
+  });
+
+  it('passes the created and deleted URIs of one debounce window to the callback', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/workspace'), name: 'ws' }];
+    const clock = sinon.useFakeTimers();
+    const callback = sinon.stub().resolves();
+    const manager = new FileWatcherManager(callback);
+    manager.setupFileWatchers();
+    const watcher = manager.getWatchers()[0];
+
+    watcher.emitDelete(vscode.Uri.file('/workspace/a.txt'));
+    watcher.emitDelete(vscode.Uri.file('/workspace/b.txt'));
+    clock.tick(100);
+    watcher.emitCreate(vscode.Uri.file('/workspace/b.txt'));
+    clock.tick(require('../constants').REFRESH_DEBOUNCE_DELAY_MS + 20);
+    await Promise.resolve();
+
+    expect(callback.calledOnce).to.be.true;
+    const batch = callback.firstCall.args[0];
+    expect(batch.deleted.map((u: any) => u.fsPath)).to.deep.equal(['/workspace/a.txt']);
+    expect(batch.created.map((u: any) => u.fsPath)).to.deep.equal(['/workspace/b.txt']);
+
+    manager.dispose();
+    clock.restore();
+  });
+});
+
+describe('FileWatcherManager folder deletions', () => {
+  const vscode = require('vscode');
+  const { FileWatcherManager } = require('../file-watcher-manager');
+
+  afterEach(() => sinon.restore());
+
+  it('records folders with the store before VS Code deletes them', async () => {
+    const store = { recordFolderDeletions: sinon.stub().resolves() };
+    const manager = new FileWatcherManager(sinon.stub().resolves(), store);
+    const files = [vscode.Uri.file('/workspace/build')];
+
+    await vscode.workspace.fireWillDeleteFiles(files);
+    manager.dispose();
+    await vscode.workspace.fireWillDeleteFiles(files);
+
+    expect(store.recordFolderDeletions.calledOnce).to.be.true;
+    expect(store.recordFolderDeletions.firstCall.args[0]).to.equal(files);
+  });
+});
+
+describe('FileWatcherManager shadow backups', () => {
+  const vscode = require('vscode');
+  const { FileWatcherManager } = require('../file-watcher-manager');
+  const { ExtensionSettings } = require('../extension-settings');
+  const { IgnoreRules } = require('../ignore-rules');
+  const { SHADOW_BACKUP_MAX_EXISTING_FILES } = require('../constants');
+  const settle = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => IgnoreRules.invalidate());
+
+  afterEach(() => {
+    sinon.restore();
+    vscode.workspace.workspaceFolders = [];
+    vscode.workspace.settings = {};
+  });
+
+  it('captures existing, created and changed files matching the configured patterns', async () => {
+    const folder = { uri: vscode.Uri.file('/workspace'), name: 'ws' };
+    vscode.workspace.workspaceFolders = [folder];
+    sinon.stub(ExtensionSettings, 'getShadowBackupPatterns').returns(['src/**/*.ts']);
+    const existing = vscode.Uri.file('/workspace/src/old.ts');
+    const findFiles = sinon.stub(vscode.workspace, 'findFiles').resolves([existing]);
+    const store = { captureFile: sinon.stub().resolves(), captureFiles: sinon.stub().resolves() };
+    const manager = new FileWatcherManager(sinon.stub().resolves(), undefined, store);
+
+    manager.setupFileWatchers();
+    await settle();
+    const shadowWatcher = manager.getWatchers().find((w: any) => w.pattern.pattern === 'src/**/*.ts');
+    shadowWatcher.emitCreate(vscode.Uri.file('/workspace/src/new.ts'));
+    shadowWatcher.emitChange(vscode.Uri.file('/workspace/src/old.ts'));
+
+    expect(findFiles.firstCall.args[0]).to.include({ base: folder, pattern: 'src/**/*.ts' });
+    expect(store.captureFiles.firstCall.args[0]).to.deep.equal([existing]);
+    expect(store.captureFile.args.map((args: any) => args[0].fsPath)).to.deep.equal(['/workspace/src/new.ts', '/workspace/src/old.ts']);
+    manager.dispose();
+  });
+
+  it('copies existing files outside files.exclude and the ignore rules, up to a limit', async () => {
+    const folder = { uri: vscode.Uri.file('/workspace'), name: 'ws' };
+    vscode.workspace.workspaceFolders = [folder];
+    vscode.workspace.settings['files.exclude'] = { '**/out': true, '**/*.tmp': false, '**/.git': true };
+    vscode.workspace.settings['minouris-local-history-restore.ignorePatterns'] = ['generated/'];
+    sinon.stub(ExtensionSettings, 'getShadowBackupPatterns').returns(['**/*.ts']);
+    const findFiles = sinon.stub(vscode.workspace, 'findFiles').callsFake(async (pattern: any) =>
+      pattern.pattern === '**/*.ts' ? [vscode.Uri.file('/workspace/src/a.ts'), vscode.Uri.file('/workspace/generated/b.ts')] : []);
+    const store = { captureFile: sinon.stub().resolves(), captureFiles: sinon.stub().resolves() };
+    const manager = new FileWatcherManager(sinon.stub().resolves(), undefined, store);
+
+    manager.setupFileWatchers();
+    await settle();
+
+    const search = findFiles.args.find((args: any) => args[0].pattern === '**/*.ts');
+    expect(search.slice(1)).to.deep.equal(['{**/out,**/.git}', SHADOW_BACKUP_MAX_EXISTING_FILES]);
+    expect(store.captureFiles.firstCall.args[0].map((uri: any) => uri.fsPath)).to.deep.equal(['/workspace/src/a.ts']);
+    manager.dispose();
+  });
+
+  it('copies existing files only for patterns that were not in use at the last setup', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/workspace'), name: 'ws' }];
+    const patterns = sinon.stub(ExtensionSettings, 'getShadowBackupPatterns').returns(['**/*.ts']);
+    const findFiles = sinon.stub(vscode.workspace, 'findFiles').resolves([]);
+    const store = { captureFile: sinon.stub().resolves(), captureFiles: sinon.stub().resolves() };
+    const manager = new FileWatcherManager(sinon.stub().resolves(), undefined, store);
+    const searchedPatterns = () => findFiles.args.map((args: any) => args[0].pattern).filter((p: string) => p !== '**/.gitignore');
+
+    manager.setupFileWatchers();
+    manager.setupFileWatchers();
+    patterns.returns(['**/*.ts', '**/*.md']);
+    manager.setupFileWatchers();
+    patterns.returns([]);
+    manager.setupFileWatchers();
+    patterns.returns(['**/*.ts']);
+    manager.setupFileWatchers();
+    await settle();
+
+    expect(searchedPatterns()).to.deep.equal(['**/*.ts', '**/*.md', '**/*.ts']);
+    manager.dispose();
+  });
+
+  it('remembers the patterns in use across sessions so existing files are copied only once', async () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/workspace'), name: 'ws' }];
+    const patterns = sinon.stub(ExtensionSettings, 'getShadowBackupPatterns').returns(['**/*.ts']);
+    const findFiles = sinon.stub(vscode.workspace, 'findFiles').resolves([]);
+    const store = { captureFile: sinon.stub().resolves(), captureFiles: sinon.stub().resolves() };
+    const values: Record<string, unknown> = {};
+    const workspaceState = {
+      get: (key: string, defaultValue: unknown) => values[key] ?? defaultValue,
+      update: async (key: string, value: unknown) => { values[key] = value; }
+    };
+    const startSession = () => {
+      const manager = new FileWatcherManager(sinon.stub().resolves(), undefined, store, workspaceState);
+      manager.setupFileWatchers();
+      manager.dispose();
+    };
+
+    startSession();
+    startSession();
+    patterns.returns(['**/*.ts', '**/*.md']);
+    startSession();
+    await settle();
+
+    const searched = findFiles.args.map((args: any) => args[0].pattern).filter((p: string) => p !== '**/.gitignore');
+    expect(searched).to.deep.equal(['**/*.ts', '**/*.md']);
+  });
+
+  it('creates no shadow watchers without a store', () => {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/workspace'), name: 'ws' }];
+    sinon.stub(ExtensionSettings, 'getShadowBackupPatterns').returns(['**/*.ts']);
+
+    const manager = new FileWatcherManager(sinon.stub().resolves());
+    manager.setupFileWatchers();
+
+    expect(manager.getWatchers().map((w: any) => w.pattern.pattern)).to.deep.equal(['**/*', '**/.gitignore']);
+    manager.dispose();
+  });
+});
+
+describe('FileWatcherManager ignore rules', () => {
+  const vscode = require('vscode');
+  const { FileWatcherManager } = require('../file-watcher-manager');
+  const { IgnoreRules } = require('../ignore-rules');
+
+  afterEach(() => {
+    sinon.restore();
+    vscode.workspace.workspaceFolders = [];
+  });
+
+  it('has the ignore rules read again when a .gitignore file changes', () => {
+    const folder = { uri: vscode.Uri.file('/workspace'), name: 'ws' };
+    vscode.workspace.workspaceFolders = [folder];
+    const invalidate = sinon.stub(IgnoreRules, 'invalidate');
+    const manager = new FileWatcherManager(sinon.stub().resolves());
+
+    manager.setupFileWatchers();
+    const gitIgnoreWatcher = manager.getWatchers().find((w: any) => w.pattern.pattern === '**/.gitignore');
+    gitIgnoreWatcher.emitChange(vscode.Uri.file('/workspace/src/.gitignore'));
+    gitIgnoreWatcher.emitDelete(vscode.Uri.file('/workspace/.gitignore'));
+
+    expect(invalidate.args.map((args: any) => args[0])).to.deep.equal([folder.uri, folder.uri]);
+    manager.dispose();
+  });
+});
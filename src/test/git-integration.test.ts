@@ -0,0 +1,105 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const vscode = require('vscode');
+const { GitIntegration } = require('../git-integration');
+const { GitRestorePicker } = require('../git-restore-picker');
+
+describe('GitIntegration', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  const createRepository = (root: string) => ({
+    rootUri: vscode.Uri.file(root),
+    state: {
+      workingTreeChanges: [
+        { uri: vscode.Uri.file(`${root}/deleted.ts`), status: 6 },
+        { uri: vscode.Uri.file(`${root}/modified.ts`), status: 5 }
+      ],
+      indexChanges: [{ uri: vscode.Uri.file(`${root}/staged.ts`), status: 2 }]
+    },
+    buffer: sinon.stub().resolves(Buffer.from('head content'))
+  });
+
+  const stubGitExtension = (repository: any, enabled = true) => {
+    const api = {
+      repositories: [repository],
+      getRepository: (uri: any) => uri.fsPath.startsWith(repository.rootUri.fsPath) ? repository : null,
+      toGitUri: (uri: any, ref: string) => vscode.Uri.from({ scheme: 'git', path: uri.path, query: ref })
+    };
+    const extension = { isActive: false, activate: sinon.stub().resolves({ enabled, getAPI: () => api }) };
+    sandbox.stub(vscode.extensions, 'getExtension').returns(extension);
+    return extension;
+  };
+
+  it('marks deleted files git can restore as tracked and other repository files as untracked', async () => {
+    stubGitExtension(createRepository('/repo'));
+
+    const statuses = await new GitIntegration().getTrackingStatus([
+      vscode.Uri.file('/repo/deleted.ts'),
+      vscode.Uri.file('/repo/staged.ts'),
+      vscode.Uri.file('/repo/new.ts'),
+      vscode.Uri.file('/elsewhere/a.ts')
+    ]);
+
+    expect(statuses.get('/repo/deleted.ts')).to.equal('tracked');
+    expect(statuses.get('/repo/staged.ts')).to.equal('tracked');
+    expect(statuses.get('/repo/new.ts')).to.equal('untracked');
+    expect(statuses.has('/elsewhere/a.ts')).to.be.false;
+  });
+
+  it('returns no statuses when the Git extension is missing or disabled', async () => {
+    expect((await new GitIntegration().getTrackingStatus([vscode.Uri.file('/repo/deleted.ts')])).size).to.equal(0);
+
+    stubGitExtension(createRepository('/repo'), false);
+    expect((await new GitIntegration().getTrackingStatus([vscode.Uri.file('/repo/deleted.ts')])).size).to.equal(0);
+  });
+
+  it('activates the Git extension once and reads HEAD content through the repository', async () => {
+    const repository = createRepository('/repo');
+    const extension = stubGitExtension(repository);
+    const integration = new GitIntegration();
+
+    const content = await integration.readHeadContent(vscode.Uri.file('/repo/deleted.ts'));
+    const headUri = await integration.toHeadUri(vscode.Uri.file('/repo/deleted.ts'));
+
+    expect(Buffer.from(content).toString()).to.equal('head content');
+    expect(repository.buffer.calledWith('HEAD', '/repo/deleted.ts')).to.be.true;
+    expect(headUri.scheme).to.equal('git');
+    expect(extension.activate.calledOnce).to.be.true;
+
+    try {
+      await integration.readHeadContent(vscode.Uri.file('/elsewhere/a.ts'));
+      throw new Error('Expected readHeadContent to reject');
+    } catch (err: any) {
+      expect(err.message).to.contain('not in a git repository');
+    }
+  });
+});
+
+describe('GitRestorePicker', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  const item = { relativePath: 'a.ts', isDirectory: false, backupPath: '/history/a', deletionTime: new Date(0) };
+
+  it('runs the comparison and asks again until a version is chosen', async () => {
+    const quickPick = sandbox.stub(vscode.window, 'showQuickPick');
+    quickPick.onFirstCall().callsFake(async (items: any[]) => items.find(i => i.action === 'compare'));
+    quickPick.onSecondCall().callsFake(async (items: any[]) => items.find(i => i.action === 'gitHead'));
+    const compare = sinon.stub().resolves();
+
+    const source = await GitRestorePicker.pickSource(item, compare);
+
+    expect(source).to.equal('gitHead');
+    expect(compare.calledOnce).to.be.true;
+    expect(quickPick.calledTwice).to.be.true;
+  });
+
+  it('returns undefined when cancelled', async () => {
+    sandbox.stub(vscode.window, 'showQuickPick').resolves(undefined);
+
+    expect(await GitRestorePicker.pickSource(item, sinon.stub())).to.be.undefined;
+  });
+});
@@ -0,0 +1,48 @@
+const { expect } = require('chai');
+const { GlobMatcher } = require('../glob-matcher');
+
+describe('GlobMatcher', () => {
+  it('matches stars within a segment and globstars across segments', () => {
+    expect(GlobMatcher.matches('src/a.ts', 'src/*.ts')).to.be.true;
+    expect(GlobMatcher.matches('src/lib/a.ts', 'src/*.ts')).to.be.false;
+    expect(GlobMatcher.matches('src/lib/a.ts', 'src/**/*.ts')).to.be.true;
+    expect(GlobMatcher.matches('src/a.ts', 'src/**/*.ts')).to.be.true;
+    expect(GlobMatcher.matches('node_modules/x/index.js', 'node_modules/**')).to.be.true;
+  });
+
+  it('matches globs without a slash against the file name only', () => {
+    expect(GlobMatcher.matches('deep/nested/readme.md', '*.md')).to.be.true;
+    expect(GlobMatcher.matches('deep/nested/readme.md', 'nested')).to.be.false;
+  });
+
+  it('supports ?, character classes, alternatives and case-insensitive matching', () => {
+    expect(GlobMatcher.matches('a1.ts', 'a?.ts')).to.be.true;
+    expect(GlobMatcher.matches('b.ts', '[!a].ts')).to.be.true;
+    expect(GlobMatcher.matches('a.ts', '[!a].ts')).to.be.false;
+    expect(GlobMatcher.matches('src/a.js', 'src/*.{ts,js}')).to.be.true;
+    expect(GlobMatcher.matches('src/a.css', 'src/*.{ts,js}')).to.be.false;
+    expect(GlobMatcher.matches('SRC/A.TS', 'src/*.ts')).to.be.false;
+    expect(GlobMatcher.matches('SRC/A.TS', 'src/*.ts', true)).to.be.true;
+  });
+
+  it('treats regular expression characters literally', () => {
+    expect(GlobMatcher.matches('a+b (1).txt', 'a+b (1).txt')).to.be.true;
+    expect(GlobMatcher.matches('axb (1).txt', 'a+b (1).txt')).to.be.false;
+    expect(GlobMatcher.isGlob('plain text')).to.be.false;
+    expect(GlobMatcher.isGlob('*.ts')).to.be.true;
+  });
+
+  it('treats unclosed braces and brackets as literal text', () => {
+    expect(GlobMatcher.matches('foo{', 'foo{')).to.be.true;
+    expect(GlobMatcher.matches('src/{a,b', 'src/{a,b')).to.be.true;
+    expect(GlobMatcher.matches('src/a', 'src/{a,b')).to.be.false;
+    expect(GlobMatcher.matches('x{a.ts', 'x{{a,b}.ts')).to.be.true;
+    expect(GlobMatcher.matches('a[1.ts', 'a[1.ts')).to.be.true;
+  });
+
+  it('reports globs that do not compile instead of matching them', () => {
+    expect(GlobMatcher.isValid('[z-a].ts')).to.be.false;
+    expect(GlobMatcher.isValid('[a-z].ts')).to.be.true;
+    expect(() => GlobMatcher.matches('a.ts', '[z-a].ts')).to.throw(SyntaxError);
+  });
+});
@@ -0,0 +1,52 @@
+const { expect } = require('chai');
+const { HistoryEntriesParser } = require('../history-entries-parser');
+
+describe('HistoryEntriesParser', () => {
+  const source = '/history/abc/entries.json';
+
+  it('parses version, resource and typed entries', () => {
+    const parsed = HistoryEntriesParser.parse({
+      version: 1,
+      resource: 'file:///workspace/a.ts',
+      entries: [
+        { id: 'Ab12.ts', source: 'undoRedo.source', sourceDescription: 'Undo / Redo', timestamp: 1700000000000 },
+        { id: 'Cd34.ts', timestamp: 1700000100000 }
+      ]
+    }, source);
+
+    expect(parsed.errors).to.deep.equal([]);
+    expect(parsed.backupEntry.version).to.equal(1);
+    expect(parsed.backupEntry.resource).to.equal('file:///workspace/a.ts');
+    expect(parsed.backupEntry.entries).to.have.length(2);
+    expect(parsed.backupEntry.entries[0].sourceDescription).to.equal('Undo / Redo');
+  });
+
+  it('reports malformed entries and keeps the valid ones', () => {
+    const parsed = HistoryEntriesParser.parse({
+      version: 1,
+      resource: 'file:///workspace/a.ts',
+      entries: [
+        { id: 'ok.ts', timestamp: 1 },
+        { id: 'no-time.ts' },
+        'not-an-object',
+        { timestamp: 2 }
+      ]
+    }, source);
+
+    expect(parsed.backupEntry.entries.map((e: any) => e.id)).to.deep.equal(['ok.ts']);
+    expect(parsed.errors).to.have.length(3);
+    expect(parsed.errors[0]).to.contain('entry 1').and.contain(source);
+  });
+
+  it('rejects files without a resource', () => {
+    const parsed = HistoryEntriesParser.parse({ version: 1, entries: [] }, source);
+    expect(parsed.backupEntry).to.be.null;
+    expect(parsed.errors[0]).to.contain('resource');
+  });
+
+  it('treats a missing entries array as empty', () => {
+    const parsed = HistoryEntriesParser.parse({ resource: 'file:///workspace/a.ts' }, source);
+    expect(parsed.backupEntry.entries).to.deep.equal([]);
+    expect(parsed.errors).to.deep.equal([]);
+  });
+});
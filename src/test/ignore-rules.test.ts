@@ -0,0 +1,120 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const mockFs = require('mock-fs');
+const vscode = require('vscode');
+const { IgnoreRules } = require('../ignore-rules');
+
+describe('IgnoreRules', () => {
+  const findGitIgnoreFiles = (...files: string[]) =>
+    sinon.stub(vscode.workspace, 'findFiles').resolves(files.map(file => vscode.Uri.file(file)));
+
+  beforeEach(() => IgnoreRules.invalidate());
+  afterEach(() => { mockFs.restore(); sinon.restore(); vscode.workspace.settings = {}; });
+
+  it('applies .gitignore patterns relative to the folder holding each file', async () => {
+    mockFs({
+      '/work/app/.gitignore': '# build output\ndist/\n*.log\n/local.txt\n!keep.log\n',
+      '/work/app/pkg/.gitignore': 'generated/\n!debug.log\n'
+    });
+    findGitIgnoreFiles('/work/app/pkg/.gitignore', '/work/app/.gitignore');
+
+    const rules = await IgnoreRules.load('/work/app');
+
+    expect(rules.findIgnoringRule('dist/main.js')).to.equal('.gitignore: dist/');
+    expect(rules.findIgnoringRule('src/dist/main.js')).to.equal('.gitignore: dist/');
+    expect(rules.findIgnoringRule('dist')).to.be.undefined;
+    expect(rules.findIgnoringRule('logs/error.log')).to.equal('.gitignore: *.log');
+    expect(rules.findIgnoringRule('keep.log')).to.be.undefined;
+    expect(rules.findIgnoringRule('local.txt')).to.equal('.gitignore: /local.txt');
+    expect(rules.findIgnoringRule('src/local.txt')).to.be.undefined;
+    expect(rules.findIgnoringRule('pkg/generated/a.ts')).to.equal('pkg/.gitignore: generated/');
+    expect(rules.findIgnoringRule('generated/a.ts')).to.be.undefined;
+    expect(rules.findIgnoringRule('pkg/debug.log')).to.be.undefined;
+    expect(rules.findIgnoringRule('src/index.ts')).to.be.undefined;
+  });
+
+  it('keeps files inside an ignored folder ignored even if a later rule re-includes them', async () => {
+    mockFs({ '/work/app/.gitignore': 'build/\n!build/keep.txt\n' });
+    findGitIgnoreFiles('/work/app/.gitignore');
+
+    const rules = await IgnoreRules.load('/work/app');
+
+    expect(rules.findIgnoringRule('build/keep.txt')).to.equal('.gitignore: build/');
+  });
+
+  it('combines files.exclude and the ignorePatterns setting, which overrides the others', async () => {
+    vscode.workspace.settings['files.exclude'] = { '**/out': true, '**/*.tmp': false };
+    vscode.workspace.settings['minouris-local-history-restore.ignorePatterns'] = ['node_modules/', '!out/keep.js'];
+    findGitIgnoreFiles();
+
+    const rules = await IgnoreRules.load('/work/app');
+
+    expect(rules.findIgnoringRule('out/main.js')).to.equal('files.exclude: **/out');
+    expect(rules.findIgnoringRule('a/out/main.js')).to.equal('files.exclude: **/out');
+    expect(rules.findIgnoringRule('x.tmp')).to.be.undefined;
+    expect(rules.findIgnoringRule('node_modules/lib/index.js')).to.equal('ignorePatterns: node_modules/');
+  });
+
+  it('skips the sources switched off in the settings', async () => {
+    vscode.workspace.settings['files.exclude'] = { '**/out': true };
+    vscode.workspace.settings['minouris-local-history-restore.useFilesExclude'] = false;
+    vscode.workspace.settings['minouris-local-history-restore.useGitIgnore'] = false;
+    const findFiles = findGitIgnoreFiles('/work/app/.gitignore');
+
+    const rules = await IgnoreRules.load('/work/app');
+
+    expect(rules.findIgnoringRule('out/main.js')).to.be.undefined;
+    expect(findFiles.called).to.be.false;
+  });
+
+  it('leaves the .gitignore files of dependencies out of the search and limits it', async () => {
+    const findFiles = findGitIgnoreFiles();
+
+    await IgnoreRules.load('/work/app');
+
+    expect(findFiles.firstCall.args[1]).to.equal('**/node_modules/**');
+    expect(findFiles.firstCall.args[2]).to.equal(500);
+  });
+
+  it('reuses loaded rules until they are invalidated or the settings change', async () => {
+    mockFs({ '/work/app/.gitignore': 'dist/\n' });
+    const findFiles = findGitIgnoreFiles('/work/app/.gitignore');
+
+    const first = await IgnoreRules.load('/work/app');
+    expect(await IgnoreRules.load('/work/app')).to.equal(first);
+    expect(findFiles.callCount).to.equal(1);
+
+    vscode.workspace.settings['minouris-local-history-restore.ignorePatterns'] = ['*.log'];
+    const afterSettingsChange = await IgnoreRules.load('/work/app');
+    expect(afterSettingsChange).not.to.equal(first);
+    expect(afterSettingsChange.findIgnoringRule('a.log')).to.equal('ignorePatterns: *.log');
+
+    IgnoreRules.invalidate(vscode.Uri.file('/work/app'));
+    await IgnoreRules.load('/work/app');
+    expect(findFiles.callCount).to.equal(3);
+  });
+
+  it('treats braces in .gitignore files literally but as alternatives in files.exclude', async () => {
+    vscode.workspace.settings['files.exclude'] = { '**/*.{tmp,bak}': true };
+    mockFs({ '/work/app/.gitignore': '{a,b}.txt\n' });
+    findGitIgnoreFiles('/work/app/.gitignore');
+
+    const rules = await IgnoreRules.load('/work/app');
+
+    expect(rules.findIgnoringRule('{a,b}.txt')).to.equal('.gitignore: {a,b}.txt');
+    expect(rules.findIgnoringRule('a.txt')).to.be.undefined;
+    expect(rules.findIgnoringRule('notes.bak')).to.equal('files.exclude: **/*.{tmp,bak}');
+  });
+
+  it('skips rules that are not valid patterns and keeps the others', async () => {
+    vscode.workspace.settings['minouris-local-history-restore.ignorePatterns'] = ['[z-a]'];
+    mockFs({ '/work/app/.gitignore': 'foo[\n[z-a].log\ndist/\n' });
+    findGitIgnoreFiles('/work/app/.gitignore');
+
+    const rules = await IgnoreRules.load('/work/app');
+
+    expect(rules.findIgnoringRule('dist/main.js')).to.equal('.gitignore: dist/');
+    expect(rules.findIgnoringRule('foo[')).to.equal('.gitignore: foo[');
+    expect(rules.getSkippedRules()).to.deep.equal(['.gitignore: [z-a].log', 'ignorePatterns: [z-a]']);
+  });
+});
@@ -0,0 +1,81 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const vscode = require('vscode');
+const { ItemFilter } = require('../item-filter');
+const { FilterPrompt } = require('../filter-prompt');
+
+describe('ItemFilter', () => {
+  const now = new Date('2024-05-01T12:00:00Z').getTime();
+  const item = (relativePath: string, minutesAgo: number, isDirectory = false) => ({
+    uri: vscode.Uri.file(`/work/${relativePath}`),
+    relativePath,
+    isDirectory,
+    deletionTime: new Date(now - minutesAgo * 60 * 1000)
+  });
+
+  it('matches text anywhere in the path and globs against the path, ignoring case', () => {
+    expect(ItemFilter.matches(item('src/Utils/format.ts', 0), { query: 'utils' }, now)).to.be.true;
+    expect(ItemFilter.matches(item('src/utils/format.ts', 0), { query: 'src/**/*.TS' }, now)).to.be.true;
+    expect(ItemFilter.matches(item('src/utils/format.ts', 0), { query: '*.js' }, now)).to.be.false;
+  });
+
+  it('matches malformed globs as text instead of failing', () => {
+    expect(ItemFilter.matches(item('lib/foo{', 0), { query: 'foo{' }, now)).to.be.true;
+    expect(ItemFilter.matches(item('src/{a,b', 0), { query: 'src/{a,b' }, now)).to.be.true;
+    expect(ItemFilter.matches(item('lib/[z-a].ts', 0), { query: '[z-a].ts' }, now)).to.be.true;
+    expect(ItemFilter.matches(item('lib/b.ts', 0), { query: '[z-a].ts' }, now)).to.be.false;
+  });
+
+  it('matches deletion date ranges and file types', () => {
+    const hour = 60 * 60 * 1000;
+    expect(ItemFilter.matches(item('a.ts', 30), { deletedWithinMs: hour }, now)).to.be.true;
+    expect(ItemFilter.matches(item('a.ts', 90), { deletedWithinMs: hour }, now)).to.be.false;
+    expect(ItemFilter.matches(item('a.TS', 0), { fileTypes: ['.ts'] }, now)).to.be.true;
+    expect(ItemFilter.matches(item('Makefile', 0), { fileTypes: [''] }, now)).to.be.true;
+    expect(ItemFilter.matches(item('lib', 0, true), { fileTypes: ['.ts'] }, now)).to.be.false;
+  });
+
+  it('reports whether any criterion is set and describes the filter', () => {
+    expect(ItemFilter.isActive(undefined)).to.be.false;
+    expect(ItemFilter.isActive({ fileTypes: [] })).to.be.false;
+    expect(ItemFilter.isActive({ deletedWithinMs: 1000 })).to.be.true;
+    expect(ItemFilter.describe({ query: 'src', deletedWithinMs: 60 * 60 * 1000, fileTypes: ['.ts', ''] }))
+      .to.equal('Filtered: "src"; deleted in the last hour; .ts, (no extension)');
+  });
+});
+
+describe('FilterPrompt', () => {
+  afterEach(() => sinon.restore());
+
+  it('builds a filter from the query, date range and file types', async () => {
+    sinon.stub(vscode.window, 'showInputBox').resolves(' src/** ');
+    const quickPick = sinon.stub(vscode.window, 'showQuickPick');
+    quickPick.onFirstCall().callsFake(async (items: any[]) => items[1]);
+    quickPick.onSecondCall().callsFake(async (items: any[]) => [items[0]]);
+
+    const filter = await FilterPrompt.promptForFilter({ fileTypes: ['.ts'] }, ['.ts', '.js']);
+
+    expect(filter).to.deep.equal({ query: 'src/**', deletedWithinMs: 60 * 60 * 1000, fileTypes: ['.ts'] });
+    expect(quickPick.secondCall.args[0].map((i: any) => i.picked)).to.deep.equal([true, false]);
+  });
+
+  it('rejects queries that are not valid globs while they are typed', async () => {
+    const input = sinon.stub(vscode.window, 'showInputBox').resolves(undefined);
+
+    await FilterPrompt.promptForFilter(undefined, []);
+
+    const { validateInput } = input.firstCall.args[0];
+    expect(validateInput('[z-a].ts')).to.be.a('string');
+    expect(validateInput('src/{a,b')).to.be.undefined;
+    expect(validateInput('plain text')).to.be.undefined;
+  });
+
+  it('returns undefined when a step is cancelled and treats empty answers as no criterion', async () => {
+    const input = sinon.stub(vscode.window, 'showInputBox').resolves(undefined);
+    expect(await FilterPrompt.promptForFilter(undefined, [])).to.be.undefined;
+
+    input.resolves('');
+    sinon.stub(vscode.window, 'showQuickPick').callsFake(async (items: any[]) => items[0]);
+    expect(await FilterPrompt.promptForFilter(undefined, [])).to.deep.equal({ query: undefined, deletedWithinMs: undefined, fileTypes: undefined });
+  });
+});
@@ -23,3 +23,150 @@ describe('ItemOrganizer', () => {
   expect(folder.children.some((c: any) => c.relativePath === 'folder/b.txt')).to.be.true;
   });
 });
+
+describe('ItemOrganizer sort order', () => {
+  it('lists folders first, then the most recently deleted files', () => {
+    const organizer = new ItemOrganizer('/workspace');
+
+    const organized = organizer.organizeItemsByFolder([
+      { relativePath: 'a.txt', isDirectory: false, deletionTime: new Date('2020-01-01') },
+      { relativePath: 'b.txt', isDirectory: false, deletionTime: new Date('2021-01-01') },
+      { relativePath: 'deep/nested/c.txt', isDirectory: false, deletionTime: new Date('2022-01-01') }
+    ]);
+
+    expect(organized.map((i: any) => i.relativePath)).to.deep.equal(['deep', 'b.txt', 'a.txt']);
+    expect(organized[0].deletionTime.getFullYear()).to.equal(2022);
+  });
+});
+
+describe('ItemOrganizer incremental updates', () => {
+  const file = (relativePath: string, year: number) =>
+    ({ relativePath, isDirectory: false, deletionTime: new Date(`${year}-01-01`) });
+
+  it('inserts into an existing folder and reports that folder as changed', () => {
+    const organizer = new ItemOrganizer('/workspace');
+    const tree = organizer.organizeItemsByFolder([file('a.txt', 2020), file('src/b.ts', 2021), file('src/c.ts', 2019)]);
+    const src = tree.find((i: any) => i.relativePath === 'src');
+
+    const changed = organizer.insertItem(tree, file('src/d.ts', 2020));
+
+    expect(changed).to.equal(src);
+    expect(src.children.map((c: any) => c.relativePath)).to.deep.equal(['src/b.ts', 'src/d.ts', 'src/c.ts']);
+  });
+
+  it('creates missing folders and reports the parent list when the newest item moves a folder up', () => {
+    const organizer = new ItemOrganizer('/workspace');
+    const tree = organizer.organizeItemsByFolder([file('old/x.ts', 2019), file('src/b.ts', 2020)]);
+    const src = tree.find((i: any) => i.relativePath === 'src');
+
+    const changed = organizer.insertItem(tree, file('old/deep/y.ts', 2022));
+
+    expect(changed).to.equal(null);
+    expect(tree.map((i: any) => i.relativePath)).to.deep.equal(['old', 'src']);
+    const old = tree[0];
+    expect(old.deletionTime.getFullYear()).to.equal(2022);
+    expect(old.children[0].relativePath).to.equal('old/deep');
+    expect(src.children.length).to.equal(1);
+  });
+
+  it('removes an item and drops folders left empty', () => {
+    const organizer = new ItemOrganizer('/workspace');
+    const items = [file('a.txt', 2020), file('src/lib/b.ts', 2021), file('src/c.ts', 2019)];
+    const tree = organizer.organizeItemsByFolder(items);
+    const src = tree.find((i: any) => i.relativePath === 'src');
+
+    const changed = organizer.removeItem(tree, items[1]);
+
+    expect(changed).to.equal(src);
+    expect(src.children.map((c: any) => c.relativePath)).to.deep.equal(['src/c.ts']);
+    expect(src.deletionTime.getFullYear()).to.equal(2019);
+  });
+
+  it('returns null when the removed item is not in the tree', () => {
+    const organizer = new ItemOrganizer('/workspace');
+    const tree = organizer.organizeItemsByFolder([file('a.txt', 2020)]);
+
+    expect(organizer.removeItem(tree, file('missing/z.ts', 2020))).to.equal(null);
+    expect(tree.length).to.equal(1);
+  });
+});
+
+describe('ItemOrganizer deleted folder items', () => {
+  it('uses recorded folders as nodes, including empty ones', () => {
+    const organizer = new ItemOrganizer('/workspace');
+
+    const organized = organizer.organizeItemsByFolder([
+      { relativePath: 'build', isDirectory: true, deletionTime: new Date('2020-01-01'), children: [], folderSnapshot: [] },
+      { relativePath: 'build/empty', isDirectory: true, deletionTime: new Date('2020-01-01'), children: [] },
+      { relativePath: 'build/out.js', isDirectory: false, deletionTime: new Date('2021-01-01') }
+    ]);
+
+    expect(organized.length).to.equal(1);
+    const build = organized[0];
+    expect(build.folderSnapshot).to.deep.equal([]);
+    expect(build.deletionTime.getFullYear()).to.equal(2021);
+    expect(build.children.map((c: any) => c.relativePath)).to.deep.equal(['build/empty', 'build/out.js']);
+    expect(build.children[0].children).to.deep.equal([]);
+  });
+});
+
+describe('ItemOrganizer pruning', () => {
+  const organizer = new ItemOrganizer('/workspace');
+  const file = (relativePath: string, day: number) => ({
+    uri: { fsPath: `/workspace/${relativePath}` }, relativePath, isDirectory: false, deletionTime: new Date(2020, 0, day)
+  });
+
+  it('keeps matching items and their ancestor folders without changing the original tree', () => {
+    const tree = organizer.organizeItemsByFolder([file('a.ts', 1), file('src/b.ts', 2), file('src/c.js', 5), file('docs/d.md', 3)]);
+
+    const pruned = ItemOrganizer.pruneItems(tree, (item: any) => item.relativePath.endsWith('.ts'));
+
+    expect(pruned.map((i: any) => i.relativePath)).to.deep.equal(['src', 'a.ts']);
+    expect(pruned[0].children.map((i: any) => i.relativePath)).to.deep.equal(['src/b.ts']);
+    expect(pruned[0].deletionTime.getTime()).to.equal(new Date(2020, 0, 2).getTime());
+    expect(tree.find((i: any) => i.relativePath === 'src').children).to.have.length(2);
+  });
+
+  it('keeps an empty deleted folder only if it matches itself', () => {
+    const emptyFolder = { uri: { fsPath: '/workspace/build' }, relativePath: 'build', isDirectory: true, deletionTime: new Date(), children: [] };
+
+    expect(ItemOrganizer.pruneItems([emptyFolder], (item: any) => item.relativePath === 'build')).to.deep.equal([emptyFolder]);
+    expect(ItemOrganizer.pruneItems([emptyFolder], () => false)).to.deep.equal([]);
+  });
+});
+
+describe('ItemOrganizer sessions and flat list', () => {
+  const organizer = new ItemOrganizer('/workspace');
+  const now = new Date(2024, 4, 10, 18, 0);
+  const file = (relativePath: string, deletionTime: Date) => ({
+    uri: { fsPath: `/workspace/${relativePath}` }, relativePath, isDirectory: false, deletionTime
+  });
+
+  it('clusters items deleted close together into sessions, newest first', () => {
+    const items = [
+      file('a.ts', new Date(2024, 4, 10, 14, 32)),
+      file('src/b.ts', new Date(2024, 4, 10, 14, 35)),
+      file('lib/c.ts', new Date(2024, 4, 10, 14, 39)),
+      file('old.ts', new Date(2024, 4, 9, 9, 5)),
+      file('older.ts', new Date(2024, 3, 1, 8, 0))
+    ];
+
+    const sessions = organizer.organizeItemsBySession(items, now);
+
+    expect(sessions).to.have.length(3);
+    expect(sessions.every((s: any) => s.group.kind === 'session' && s.isDirectory)).to.be.true;
+    expect(sessions[0].group.label).to.match(/^Today \S*:32\b.* – 3 files$/);
+    expect(sessions[0].children.map((c: any) => c.relativePath)).to.deep.equal(['lib/c.ts', 'src/b.ts', 'a.ts']);
+    expect(sessions[1].group.label).to.match(/^Yesterday .* – 1 file$/);
+    expect(sessions[2].group.label.startsWith(new Date(2024, 3, 1).toLocaleDateString())).to.be.true;
+  });
+
+  it('lists items without folders in the folder sort order', () => {
+    const items = [file('a.ts', new Date(1)), file('deep/b.ts', new Date(2))];
+
+    const flat = organizer.organizeItemsFlat(items);
+
+    expect(flat.map((i: any) => i.relativePath)).to.deep.equal(['deep/b.ts', 'a.ts']);
+    expect(items[0].relativePath).to.equal('a.ts');
+  });
+});
@@ -0,0 +1,144 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const mockFs = require('mock-fs');
+const vscode = require('vscode');
+const { MoveDetector } = require('../move-detector');
+const { MOVE_DETECTION_WINDOW_MS } = require('../constants');
+
+describe('MoveDetector', () => {
+  const NOW = new Date('2024-03-01T10:00:00Z').getTime();
+  const item = (relativePath: string, backupPath: string) => ({
+    uri: vscode.Uri.file(`/work/app/${relativePath}`),
+    relativePath,
+    isDirectory: false,
+    deletionTime: new Date(NOW),
+    backupPath,
+    workspaceRoot: '/work/app'
+  });
+  const recentFile = (content: string) => mockFs.file({ content, ctime: new Date(NOW - 1000) });
+  const oldFile = (content: string) => mockFs.file({ content, ctime: new Date(NOW - MOVE_DETECTION_WINDOW_MS - 1000) });
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('finds recently created files of the same name and content', async () => {
+    mockFs({
+      '/backup': { 'a': 'export const a = 1;', 'b': 'export const b = 2;' },
+      '/work/app/lib': { 'a.ts': recentFile('export const a = 1;'), 'b.ts': recentFile('export const b = 3;') }
+    });
+    const findFiles = sinon.stub(vscode.workspace, 'findFiles').resolves([vscode.Uri.file('/work/app/lib/a.ts'), vscode.Uri.file('/work/app/lib/b.ts')]);
+    const a = item('src/a.ts', '/backup/a');
+    const b = item('src/b.ts', '/backup/b');
+
+    const moves = await new MoveDetector().findMoves([a, b], [vscode.Uri.file('/work/app')], NOW);
+
+    expect([...moves.keys()]).to.deep.equal([a]);
+    expect(moves.get(a).fsPath).to.equal('/work/app/lib/a.ts');
+    expect(findFiles.firstCall.args[0].pattern).to.equal('**/{a.ts,b.ts}');
+    expect(findFiles.firstCall.args[0].base.fsPath).to.equal('/work/app');
+  });
+
+  it('ignores files created before the detection window unless a watcher reported them', async () => {
+    mockFs({
+      '/backup/a': 'content',
+      '/work/app': { 'old.ts': oldFile('content'), 'renamed.ts': oldFile('content') }
+    });
+    const detector = new MoveDetector();
+    const a = item('a.ts', '/backup/a');
+
+    sinon.stub(vscode.workspace, 'findFiles').resolves([vscode.Uri.file('/work/app/old.ts')]);
+    expect((await detector.findMoves([a], [vscode.Uri.file('/work/app')], NOW)).size).to.equal(0);
+
+    detector.recordCreatedFiles([vscode.Uri.file('/work/app/renamed.ts')], NOW);
+    const moves = await detector.findMoves([a], [vscode.Uri.file('/work/app')], NOW);
+
+    expect(moves.get(a).fsPath).to.equal('/work/app/renamed.ts');
+  });
+
+  it('forgets reported files once they fall out of the detection window', async () => {
+    mockFs({ '/backup/a': 'content', '/work/app/renamed.ts': recentFile('content') });
+    const detector = new MoveDetector();
+
+    detector.recordCreatedFiles([vscode.Uri.file('/work/app/renamed.ts')], NOW - MOVE_DETECTION_WINDOW_MS - 1000);
+
+    expect((await detector.findMoves([item('a.ts', '/backup/a')], [], NOW)).size).to.equal(0);
+  });
+
+  it('compares only the given created files, skipping the original path and empty files', async () => {
+    mockFs({
+      '/backup': { 'a': 'content', 'empty': '' },
+      '/work/app': { 'a.ts': 'content', 'moved.ts': 'content', 'blank.ts': '' }
+    });
+    const a = item('a.ts', '/backup/a');
+    const empty = item('empty.ts', '/backup/empty');
+
+    const moves = await new MoveDetector().findMovesAmong([a, empty], [
+      vscode.Uri.file('/work/app/a.ts'),
+      vscode.Uri.file('/work/app/blank.ts'),
+      vscode.Uri.file('/work/app/moved.ts')
+    ]);
+
+    expect([...moves.keys()]).to.deep.equal([a]);
+    expect(moves.get(a).fsPath).to.equal('/work/app/moved.ts');
+  });
+
+  it('skips folders, files without a backup and files already marked moved', async () => {
+    const findFiles = sinon.stub(vscode.workspace, 'findFiles').resolves([]);
+    const moved = { ...item('a.ts', '/backup/a'), movedTo: vscode.Uri.file('/work/app/b.ts') };
+    const folder = { ...item('src', '/backup/src'), isDirectory: true };
+    const noBackup = { ...item('c.ts', '/backup/c'), backupPath: undefined };
+
+    const moves = await new MoveDetector().findMoves([moved, folder, noBackup], [vscode.Uri.file('/work/app')], NOW);
+
+    expect(moves.size).to.equal(0);
+    expect(findFiles.called).to.be.false;
+  });
+});
+
+describe('DeletedItemsProvider moved files', () => {
+  const { DeletedItemsProvider } = require('../deleted-items-provider');
+  const { BackupScanner } = require('../backup-scanner');
+  const { ScanIndex } = require('../scan-index');
+  const item = (relativePath: string) => ({
+    uri: vscode.Uri.file(`/work/app/${relativePath}`),
+    relativePath,
+    isDirectory: false,
+    deletionTime: new Date('2024-01-01'),
+    backupPath: `/backup/${relativePath.replace(/\//g, '-')}`,
+    workspaceRoot: '/work/app'
+  });
+
+  afterEach(() => { mockFs.restore(); sinon.restore(); vscode.workspace.workspaceFolders = []; vscode.workspace.settings = {}; });
+
+  async function createProvider(items: any[]) {
+    vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file('/work/app'), name: 'app' }];
+    sinon.stub(BackupScanner.prototype, 'scanAllBackupLocations').resolves({ items, errors: [] });
+    const provider = new DeletedItemsProvider(undefined, new ScanIndex('/storage/scan-index.json'), undefined, undefined, undefined, new MoveDetector());
+    await provider.refresh();
+    return provider;
+  }
+
+  it('marks files created elsewhere with the same content as moved, with a link to the new location', async () => {
+    mockFs({ '/backup/src-a.ts': 'content', '/work/app/lib/a.ts': 'content' });
+    const provider = await createProvider([item('src/a.ts')]);
+
+    await provider.applyFileChanges({ created: [vscode.Uri.file('/work/app/lib/a.ts')], deleted: [] });
+
+    const [src] = await provider.getChildren();
+    const [moved] = src.children;
+    const treeItem = provider.getTreeItem(moved);
+    expect(treeItem.description).to.contain('moved to lib/a.ts');
+
+    const tooltip = (await provider.resolveTreeItem(treeItem, moved)).tooltip.value;
+    expect(tooltip).to.contain('Moved to [lib/a.ts](file:///work/app/lib/a.ts)');
+  });
+
+  it('drops moved files when they are set to be hidden', async () => {
+    vscode.workspace.settings['minouris-local-history-restore.movedItems'] = 'hide';
+    mockFs({ '/backup/a.ts': 'content', '/work/app/b.ts': 'content' });
+    const provider = await createProvider([item('a.ts'), item('c.ts')]);
+
+    await provider.applyFileChanges({ created: [vscode.Uri.file('/work/app/b.ts')], deleted: [] });
+
+    expect((await provider.getChildren()).map((child: any) => child.relativePath)).to.deep.equal(['c.ts']);
+  });
+});
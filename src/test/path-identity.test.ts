@@ -0,0 +1,52 @@
+const { expect } = require('chai');
+const mockFs = require('mock-fs');
+const { PathIdentity } = require('../path-identity');
+
+describe('PathIdentity', () => {
+  afterEach(() => mockFs.restore());
+
+  it('compares whole segments, so a sibling sharing a prefix is not inside the folder', () => {
+    expect(PathIdentity.isInside('/work/app/src/a.ts', '/work/app', 'linux')).to.be.true;
+    expect(PathIdentity.isInside('/work/app', '/work/app/', 'linux')).to.be.true;
+    expect(PathIdentity.isInside('/work/app-old/a.ts', '/work/app', 'linux')).to.be.false;
+    expect(PathIdentity.isInside('/work/app/../lib/a.ts', '/work/app', 'linux')).to.be.false;
+    expect(PathIdentity.isInside('/anything', '/', 'linux')).to.be.true;
+  });
+
+  it('follows the case sensitivity of the platform', () => {
+    expect(PathIdentity.equals('/Work/App', '/work/app', 'linux')).to.be.false;
+    expect(PathIdentity.equals('/Work/App', '/work/app/', 'darwin')).to.be.true;
+    expect(PathIdentity.isInside('/Users/Me/Project/a.ts', '/users/me/project', 'darwin')).to.be.true;
+  });
+
+  it('treats drive letters and separators on Windows as the same path in any spelling', () => {
+    expect(PathIdentity.equals('C:/Work/App/', 'c:\\work\\app', 'win32')).to.be.true;
+    expect(PathIdentity.isInside('c:\\Work\\App\\src\\a.ts', 'C:/work/app', 'win32')).to.be.true;
+    expect(PathIdentity.isInside('D:\\work\\app\\a.ts', 'C:\\work\\app', 'win32')).to.be.false;
+    expect(PathIdentity.toKey('C:\\Work\\', 'win32')).to.equal('c:\\work');
+    expect(PathIdentity.toKey('C:\\', 'win32')).to.equal('c:\\');
+  });
+
+  it('keeps the server and share of UNC paths as the root', () => {
+    expect(PathIdentity.isInside('\\\\Server\\Share\\app\\a.ts', '//server/share/app', 'win32')).to.be.true;
+    expect(PathIdentity.isInside('\\\\server\\other\\app\\a.ts', '\\\\server\\share', 'win32')).to.be.false;
+    expect(PathIdentity.relative('\\\\server\\share', '\\\\server\\share\\App\\a.ts', 'win32')).to.equal('App\\a.ts');
+  });
+
+  it('gets relative paths keeping the file\'s spelling, or null for paths outside the folder', () => {
+    expect(PathIdentity.relative('c:\\work', 'C:\\Work\\Src\\a.ts', 'win32')).to.equal('Src\\a.ts');
+    expect(PathIdentity.relative('/work/app', '/work/app', 'linux')).to.equal('');
+    expect(PathIdentity.relative('/work/app', '/work/app-old/a.ts', 'linux')).to.be.null;
+  });
+
+  it('resolves symbolic links and keeps missing segments below the deepest existing ancestor', async () => {
+    mockFs({
+      '/data/app/src': {},
+      '/links/app': mockFs.symlink({ path: '/data/app' })
+    });
+
+    expect(await PathIdentity.canonicalize('/links/app/')).to.equal('/data/app');
+    expect(await PathIdentity.canonicalize('/links/app/src/deleted/a.ts')).to.equal('/data/app/src/deleted/a.ts');
+    expect(await PathIdentity.canonicalize('/missing/a.ts')).to.equal('/missing/a.ts');
+  });
+});
@@ -0,0 +1,90 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const mockFs = require('mock-fs');
+const fs = require('fs');
+const vscode = require('vscode');
+const { RestoreTransaction } = require('../restore-transaction');
+const { RestoreHistory } = require('../restore-history');
+const { FileRestorer } = require('../file-restorer');
+
+describe('RestoreTransaction', () => {
+  afterEach(() => { mockFs.restore(); sinon.restore(); });
+
+  it('rolls back created files, overwritten content and created directories', async () => {
+    mockFs({
+      '/backup': { 'new.txt': 'restored new', 'existing.txt': 'restored existing' },
+      '/workspace': { 'existing.txt': 'original', 'keep': { 'other.txt': 'x' } }
+    });
+    sinon.stub(vscode.commands, 'executeCommand').resolves();
+
+    const transaction = new RestoreTransaction();
+    await FileRestorer.restoreItem(
+      { isDirectory: false, relativePath: 'a/b/new.txt', uri: vscode.Uri.file('/workspace/a/b/new.txt'), backupPath: '/backup/new.txt' },
+      { transaction }
+    );
+    await FileRestorer.restoreItem(
+      { isDirectory: false, relativePath: 'existing.txt', uri: vscode.Uri.file('/workspace/existing.txt'), backupPath: '/backup/existing.txt' },
+      { transaction }
+    );
+
+    expect(fs.readFileSync('/workspace/existing.txt', 'utf8')).to.equal('restored existing');
+    expect(transaction.getChangeCount()).to.equal(4);
+
+    await transaction.rollback();
+
+    expect(fs.existsSync('/workspace/a')).to.be.false;
+    expect(fs.readFileSync('/workspace/existing.txt', 'utf8')).to.equal('original');
+    expect(fs.existsSync('/workspace/keep/other.txt')).to.be.true;
+  });
+
+  it('leaves created directories that gained other files since the restore', async () => {
+    mockFs({ '/workspace': {} });
+    const transaction = new RestoreTransaction();
+    transaction.recordCreatedDirectory(vscode.Uri.file('/workspace/dir'));
+    fs.mkdirSync('/workspace/dir');
+    fs.writeFileSync('/workspace/dir/user-file.txt', 'mine');
+
+    await transaction.rollback();
+
+    expect(fs.existsSync('/workspace/dir/user-file.txt')).to.be.true;
+  });
+
+  it('keeps files edited since the restore and reports them', async () => {
+    mockFs({ '/workspace': { 'created.txt': 'restored', 'overwritten.txt': 'restored', 'untouched.txt': 'restored' } });
+    const transaction = new RestoreTransaction();
+    transaction.recordCreatedFile(vscode.Uri.file('/workspace/created.txt'), Buffer.from('restored'));
+    transaction.recordCreatedFile(vscode.Uri.file('/workspace/untouched.txt'), Buffer.from('restored'));
+    transaction.recordOverwrittenFile(vscode.Uri.file('/workspace/overwritten.txt'), Buffer.from('original'), Buffer.from('restored'));
+    fs.writeFileSync('/workspace/created.txt', 'restored, then edited');
+    fs.writeFileSync('/workspace/overwritten.txt', 'restored, then edited');
+    const remove = sinon.spy(vscode.workspace.fs, 'delete');
+
+    const editedFiles = await transaction.rollback();
+
+    expect(editedFiles.map((uri: any) => uri.fsPath)).to.deep.equal(['/workspace/created.txt', '/workspace/overwritten.txt']);
+    expect(fs.readFileSync('/workspace/created.txt', 'utf8')).to.equal('restored, then edited');
+    expect(fs.readFileSync('/workspace/overwritten.txt', 'utf8')).to.equal('restored, then edited');
+    expect(fs.existsSync('/workspace/untouched.txt')).to.be.false;
+    expect(remove.firstCall.args[1]).to.deep.equal({ useTrash: true });
+  });
+});
+
+describe('RestoreHistory', () => {
+  afterEach(() => sinon.restore());
+
+  it('ignores empty transactions and hands back the last recorded one once', async () => {
+    const setContext = sinon.stub(vscode.commands, 'executeCommand').resolves();
+    const history = new RestoreHistory();
+
+    await history.record(new RestoreTransaction());
+    expect(setContext.called).to.be.false;
+
+    const transaction = new RestoreTransaction();
+    transaction.recordCreatedFile(vscode.Uri.file('/workspace/a.txt'), Buffer.from('a'));
+    await history.record(transaction);
+
+    expect(await history.takeLast()).to.equal(transaction);
+    expect(await history.takeLast()).to.be.undefined;
+    expect(setContext.lastCall.args[2]).to.be.false;
+  });
+});
@@ -0,0 +1,35 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const vscode = require('vscode');
+const { RevisionPicker } = require('../revision-picker');
+
+describe('RevisionPicker', () => {
+  let sandbox: any;
+  beforeEach(() => { sandbox = sinon.createSandbox(); });
+  afterEach(() => { sandbox.restore(); });
+
+  const revisions = [
+    { path: '/history/abc/new.txt', timestamp: new Date('2024-02-01T10:00:00Z'), size: 2048, source: 'Workspace Edit' },
+    { path: '/history/abc/old.txt', timestamp: new Date('2024-01-01T10:00:00Z'), size: 10 }
+  ];
+
+  it('returns undefined without prompting when the item has no revisions', async () => {
+    const quickPick = sandbox.stub(vscode.window, 'showQuickPick');
+    const result = await RevisionPicker.pickRevision({ relativePath: 'a.txt', isDirectory: false });
+    expect(result).to.be.undefined;
+    expect(quickPick.called).to.be.false;
+  });
+
+  it('offers one entry per revision with size and source and returns the choice', async () => {
+    const quickPick = sandbox.stub(vscode.window, 'showQuickPick').callsFake(async (items: any[]) => items[1]);
+    const result = await RevisionPicker.pickRevision({ relativePath: 'a.txt', isDirectory: false, revisions });
+
+    const items = quickPick.firstCall.args[0];
+    expect(items).to.have.length(2);
+    expect(items[0].label).to.contain('(newest)');
+    expect(items[0].description).to.equal('2 KB');
+    expect(items[0].detail).to.equal('Workspace Edit');
+    expect(items[1].detail).to.equal('old.txt');
+    expect(result).to.equal(revisions[1]);
+  });
+});
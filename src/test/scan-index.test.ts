@@ -0,0 +1,102 @@
+const { expect } = require('chai');
+const fs = require('fs');
+const mockFs = require('mock-fs');
+const { ScanIndex } = require('../scan-index');
+const { SCAN_INDEX_VERSION } = require('../constants');
+
+describe('ScanIndex', () => {
+  const indexPath = '/storage/scan-index.json';
+  const record = { entriesMtime: 100, backupEntry: { version: 1, resource: 'file:///w/a.ts', entries: [] }, errors: [] };
+
+  afterEach(() => mockFs.restore());
+
+  it('persists records and returns them while the mtime is unchanged', async () => {
+    mockFs({});
+    const index = new ScanIndex(indexPath);
+    await index.load();
+    const scan = index.beginScan();
+    index.update('/history/a', record, scan);
+    await index.commit(scan);
+
+    const reloaded = new ScanIndex(indexPath);
+    await reloaded.load();
+    expect(reloaded.lookup('/history/a', 100)).to.deep.equal(record);
+    expect(reloaded.lookup('/history/a', 200)).to.equal(undefined);
+  });
+
+  it('drops folders that a scan did not visit', async () => {
+    mockFs({});
+    const index = new ScanIndex(indexPath);
+    await index.load();
+    index.update('/history/a', record);
+    index.update('/history/b', record);
+    await index.save();
+
+    const scan = index.beginScan();
+    index.lookup('/history/a', 100, scan);
+    await index.commit(scan);
+
+    const stored = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+    expect(Object.keys(stored.folders)).to.deep.equal(['/history/a']);
+  });
+
+  it('keeps the records of overlapping scans apart', async () => {
+    mockFs({});
+    const index = new ScanIndex(indexPath);
+    await index.load();
+    index.update('/history/a', record);
+    index.update('/history/b', record);
+    await index.save();
+
+    const first = index.beginScan();
+    index.lookup('/history/a', 100, first);
+    index.lookup('/history/b', 100, first);
+    const second = index.beginScan();
+    index.lookup('/history/a', 100, second);
+    await index.commit(first);
+
+    expect(index.has('/history/a') && index.has('/history/b')).to.be.true;
+
+    index.lookup('/history/b', 100, second);
+    await index.commit(second);
+
+    const stored = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+    expect(Object.keys(stored.folders)).to.deep.equal(['/history/a', '/history/b']);
+  });
+
+  it('starts empty when the index file is corrupt or from another version', async () => {
+    mockFs({ [indexPath]: JSON.stringify({ version: 999, folders: { '/history/a': record } }) });
+    const outdated = new ScanIndex(indexPath);
+    await outdated.load();
+    expect(outdated.lookup('/history/a', 100)).to.equal(undefined);
+
+    mockFs({ [indexPath]: '{ not json' });
+    const corrupt = new ScanIndex(indexPath);
+    await corrupt.load();
+    expect(corrupt.lookup('/history/a', 100)).to.equal(undefined);
+  });
+
+  it('drops malformed records and keeps the valid ones', async () => {
+    const revision = { path: '/history/a/r1', timestamp: 1, size: 2 };
+    mockFs({
+      [indexPath]: JSON.stringify({
+        version: SCAN_INDEX_VERSION,
+        folders: {
+          '/history/a': { ...record, revisions: [revision] },
+          '/history/b': { ...record, errors: 'not a list' },
+          '/history/c': { ...record, backupEntry: { resource: 42, entries: [] } },
+          '/history/d': { ...record, revisions: [{ ...revision, size: '2' }] },
+          '/history/e': { ...record, entriesMtime: '100' },
+          '/history/f': null
+        }
+      })
+    });
+    const index = new ScanIndex(indexPath);
+    await index.load();
+
+    expect(index.lookup('/history/a', 100)).to.deep.equal({ ...record, revisions: [revision] });
+    for (const folder of ['/history/b', '/history/c', '/history/d', '/history/e', '/history/f']) {
+      expect(index.has(folder), folder).to.be.false;
+    }
+  });
+});
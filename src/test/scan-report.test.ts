@@ -0,0 +1,55 @@
+const { expect } = require('chai');
+const { ScanReport } = require('../scan-report');
+
+describe('ScanReport', () => {
+  const createScan = (rejectedCount = 1) => ({
+    workspaceFolders: ['/work/app'],
+    completedAt: new Date('2024-05-01T10:00:00Z'),
+    result: {
+      items: [{ relativePath: 'gone.ts' }],
+      directoriesScanned: 12,
+      historyFoldersParsed: 3,
+      historyFoldersCached: 7,
+      errors: ['Unable to read /global/History/bad/entries.json'],
+      locations: [
+        { kind: 'globalHistory', path: '/global/History', exists: true },
+        { kind: 'storageFolders', path: '/odd|path', exists: false }
+      ],
+      rejected: [
+        ...Array.from({ length: rejectedCount }, (_, i) => ({ historyFolder: `/global/History/o${i}`, originalPath: `/elsewhere/${i}.ts`, reason: 'outsideWorkspace' })),
+        { historyFolder: '/global/History/p', originalPath: '/work/app/here.ts', reason: 'stillExists' }
+      ]
+    }
+  });
+
+  it('creates a JSON report with counts per rejection reason', () => {
+    const report = JSON.parse(ScanReport.toJson(createScan(2)));
+
+    expect(report.completedAt).to.equal('2024-05-01T10:00:00.000Z');
+    expect(report.itemsFound).to.equal(1);
+    expect(report.historyFoldersParsed).to.equal(3);
+    expect(report.locations).to.have.length(2);
+    expect(report.rejected.counts).to.deep.equal({ outsideWorkspace: 2, stillExists: 1 });
+    expect(report.rejected.entries).to.have.length(3);
+    expect(report.errors).to.deep.equal(['Unable to read /global/History/bad/entries.json']);
+  });
+
+  it('creates a Markdown report with locations, rejected entries and errors', () => {
+    const report: string = ScanReport.toMarkdown(createScan());
+
+    expect(report).to.contain('| Deleted items found | 1 |');
+    expect(report).to.contain('| globalHistory | `/global/History` | yes |');
+    expect(report).to.contain('| storageFolders | `/odd\\|path` | no |');
+    expect(report).to.contain('### Outside the workspace (1)');
+    expect(report).to.contain('- `/work/app/here.ts` in `/global/History/p`');
+    expect(report).to.contain('- `Unable to read /global/History/bad/entries.json`');
+  });
+
+  it('cuts long lists of rejected entries short in Markdown', () => {
+    const report: string = ScanReport.toMarkdown(createScan(205));
+
+    expect(report).to.contain('### Outside the workspace (205)');
+    expect(report).to.contain('...and 5 more; the JSON report lists all of them');
+    expect(report).not.to.contain('/elsewhere/200.ts');
+  });
+});
@@ -0,0 +1,76 @@
+const { expect } = require('chai');
+const fs = require('fs');
+const path = require('path');
+const mockFs = require('mock-fs');
+const vscode = require('vscode');
+const { ShadowBackupStore } = require('../shadow-backup-store');
+const { SHADOW_BACKUP_MAX_REVISIONS, SHADOW_BACKUP_SOURCE } = require('../constants');
+
+describe('ShadowBackupStore', () => {
+  const readHistory = (store: any) => {
+    const historyDir = store.getHistoryDirectory();
+    const [folder] = fs.readdirSync(historyDir);
+    const entries = JSON.parse(fs.readFileSync(path.join(historyDir, folder, 'entries.json'), 'utf8'));
+    return { folder: path.join(historyDir, folder), entries };
+  };
+
+  afterEach(() => mockFs.restore());
+
+  it('keeps a content-addressed copy in the local history format', async () => {
+    mockFs({ '/work/app/a.ts': mockFs.file({ content: 'one', mtime: new Date(1000) }), '/storage': {} });
+    const store = new ShadowBackupStore('/storage/shadow');
+    const uri = vscode.Uri.file('/work/app/a.ts');
+
+    await store.captureFile(uri);
+
+    const { folder, entries } = readHistory(store);
+    expect(entries.resource).to.equal(uri.toString());
+    expect(entries.entries).to.have.length(1);
+    expect(entries.entries[0]).to.include({ source: SHADOW_BACKUP_SOURCE, timestamp: 1000 });
+    expect(entries.entries[0].id).to.match(/^[0-9a-f]{64}$/);
+    expect(fs.readFileSync(path.join(folder, entries.entries[0].id), 'utf8')).to.equal('one');
+  });
+
+  it('adds a revision only when the file changed', async () => {
+    mockFs({ '/work/app/a.ts': mockFs.file({ content: 'one', mtime: new Date(1000) }), '/storage': {} });
+    const store = new ShadowBackupStore('/storage/shadow');
+    const uri = vscode.Uri.file('/work/app/a.ts');
+
+    await store.captureFile(uri);
+    await store.captureFile(uri);
+    fs.writeFileSync('/work/app/a.ts', 'one');
+    fs.utimesSync('/work/app/a.ts', 3, 3);
+    await store.captureFile(uri);
+    fs.writeFileSync('/work/app/a.ts', 'two');
+    fs.utimesSync('/work/app/a.ts', 4, 4);
+    await store.captureFile(uri);
+
+    expect(readHistory(store).entries.entries.map((e: any) => e.timestamp)).to.deep.equal([1000, 4000]);
+  });
+
+  it('keeps only the newest revisions and removes older copies', async () => {
+    mockFs({ '/work/app/a.ts': 'x', '/storage': {} });
+    const store = new ShadowBackupStore('/storage/shadow');
+    const uri = vscode.Uri.file('/work/app/a.ts');
+
+    for (let i = 1; i <= SHADOW_BACKUP_MAX_REVISIONS + 2; i++) {
+      fs.writeFileSync('/work/app/a.ts', `version ${i}`);
+      fs.utimesSync('/work/app/a.ts', i, i);
+      await store.captureFile(uri);
+    }
+
+    const { folder, entries } = readHistory(store);
+    expect(entries.entries).to.have.length(SHADOW_BACKUP_MAX_REVISIONS);
+    expect(entries.entries[0].timestamp).to.equal(3000);
+    expect(fs.readdirSync(folder)).to.have.length(SHADOW_BACKUP_MAX_REVISIONS + 1);
+  });
+
+  it('ignores folders and missing files', async () => {
+    mockFs({ '/work/app/dir': {}, '/storage': {} });
+    const store = new ShadowBackupStore('/storage/shadow');
+
+    await store.captureFiles([vscode.Uri.file('/work/app/dir'), vscode.Uri.file('/work/app/missing.ts')]);
+
+    expect(fs.existsSync(store.getHistoryDirectory())).to.be.false;
+  });
+});
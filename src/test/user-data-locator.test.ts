@@ -0,0 +1,45 @@
+const { expect } = require('chai');
+const sinon = require('sinon');
+const os = require('os');
+const path = require('path');
+const vscode = require('vscode');
+const { UserDataLocator } = require('../user-data-locator');
+
+describe('UserDataLocator', () => {
+  let sandbox: any;
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    sandbox.stub(os, 'platform').returns('linux');
+    sandbox.stub(os, 'homedir').returns('/home/dev');
+  });
+  afterEach(() => { sandbox.restore(); vscode.workspace.settings = {}; });
+
+  it('maps product names to their user-data folders', () => {
+    expect(new UserDataLocator('Visual Studio Code - Insiders').getProductFolder()).to.equal('Code - Insiders');
+    expect(new UserDataLocator('VSCodium').getProductFolder()).to.equal('VSCodium');
+    expect(new UserDataLocator('Some Fork').getProductFolder()).to.equal('Code');
+  });
+
+  it('derives the active User directory from the extension global storage path', () => {
+    const locator = new UserDataLocator('VSCodium', '/portable/data/user-data/User/globalStorage/minouris.ext');
+    const directories = locator.getUserDataDirectories();
+
+    expect(directories[0]).to.equal('/portable/data/user-data/User');
+    expect(directories).to.include('/home/dev/.config/VSCodium/User');
+    expect(directories).to.include('/home/dev/.vscodium-server/data/User');
+  });
+
+  it('adds configured roots, accepting either the user-data directory or its User folder', () => {
+    vscode.workspace.settings['minouris-local-history-restore.additionalUserDataDirectories'] = [
+      '~/custom-data',
+      '/opt/portable/data/user-data/User',
+      '  '
+    ];
+
+    const directories = new UserDataLocator('Visual Studio Code').getUserDataDirectories();
+
+    expect(directories).to.include(path.join('/home/dev/custom-data', 'User'));
+    expect(directories).to.include('/opt/portable/data/user-data/User');
+    expect(directories).to.have.length(4);
+  });
+});
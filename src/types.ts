@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import type { ScanLocation } from './extension-settings';
 
 /**
  * Represents a deleted file or folder with restoration metadata
@@ -19,13 +20,62 @@ export interface DeletedItem {
     /** Path to the backup file (if available) */
     backupPath?: string;
     
+    /** All stored revisions from the item's history folder, newest first */
+    revisions?: BackupRevision[];
+    
     /** Child items for directories */
     children?: DeletedItem[];
     
+    /** Absolute path of the workspace folder the item belongs to */
+    workspaceRoot?: string;
+    
+    /** Set on synthetic nodes that group items rather than mirror a deleted path */
+    group?: DeletedItemGroup;
+    
+    /** Whether git can restore the file from HEAD; unset if the file is not in a git repository */
+    gitStatus?: GitTrackingStatus;
+    
+    /** The ignore rule matching the item (e.g. ".gitignore: dist/"), set if the item is ignored */
+    ignoredBy?: string;
+    
+    /** Where the file's content lives on in the workspace, set if the file was moved or renamed */
+    movedTo?: vscode.Uri;
+    
+    /** Snapshot of the folder's contents, set on folders whose deletion was recorded before it happened */
+    folderSnapshot?: FolderSnapshotEntry[];
+    
     /** Metadata for native VS Code API integration */
     nativeHistoryEntry?: NativeHistoryEntry;
 }
 
+/**
+ * Describes a synthetic grouping node in the tree
+ */
+export interface DeletedItemGroup {
+    /** What the group represents: a workspace folder, a deletion session or the ignored items */
+    kind: 'workspaceFolder' | 'session' | 'ignored';
+    
+    /** Label shown for the group */
+    label: string;
+}
+
+/**
+ * A single stored revision of a file in its local history folder
+ */
+export interface BackupRevision {
+    /** Absolute path to the revision content */
+    path: string;
+    
+    /** When the revision was recorded */
+    timestamp: Date;
+    
+    /** Size of the revision content in bytes */
+    size: number;
+    
+    /** What produced the revision (e.g. a save or refactoring), if known */
+    source?: string;
+}
+
 /**
  * Native VS Code history entry metadata for future API integration
  */
@@ -41,11 +91,8 @@ export interface NativeHistoryEntry {
  * Platform-specific backup location configuration
  */
 export interface PlatformPaths {
-    CODE_USER_DATA: string[];
-    WORKSPACE_STORAGE: string[];
-    GLOBAL_STORAGE: string[];
-    VSCODE_SERVER_HISTORY?: string[];
-    VSCODE_SERVER_WORKSPACE?: string[];
+    /** Application data folder, relative to the home directory, that holds product folders */
+    APP_DATA: readonly string[];
 }
 
 /**
@@ -58,8 +105,25 @@ export interface BackupEntry {
     /** Original file URI (may include scheme) */
     resource: string;
     
-    /** Additional metadata entries */
-    entries?: unknown[];
+    /** Recorded revisions of the resource */
+    entries: HistoryEntry[];
+}
+
+/**
+ * A single revision record from VS Code's entries.json
+ */
+export interface HistoryEntry {
+    /** File name of the revision within the history folder */
+    id: string;
+    
+    /** Milliseconds since epoch when the revision was recorded */
+    timestamp: number;
+    
+    /** Identifier of what produced the revision (e.g. "undoRedo.source") */
+    source?: string;
+    
+    /** Human-readable description of the source */
+    sourceDescription?: string;
 }
 
 /**
@@ -72,6 +136,286 @@ export interface ScanResult {
     /** Number of backup directories scanned */
     directoriesScanned: number;
     
-    /** Errors encountered during scanning */
+    /** Errors encountered during scanning, each naming the path it concerns */
+    errors: string[];
+
+    /** Backup locations the scan looked at; empty for scans of recently deleted paths only */
+    locations: ScannedLocation[];
+
+    /** History folders whose entries.json (or backup files) were read during this scan */
+    historyFoldersParsed: number;
+
+    /** History folders whose parsed entries were reused from the scan index */
+    historyFoldersCached: number;
+
+    /** History entries that did not become deleted items */
+    rejected: RejectedEntry[];
+}
+
+/**
+ * The result of the last full scan, kept for the scan report
+ */
+export interface CompletedScan {
+    result: ScanResult;
+
+    /** Workspace folders the scan looked for deleted items in */
+    workspaceFolders: string[];
+
+    completedAt: Date;
+}
+
+/**
+ * A backup location looked at during a scan
+ */
+export interface ScannedLocation {
+    /** The scanLocations group the location belongs to */
+    kind: ScanLocation;
+
+    path: string;
+
+    exists: boolean;
+}
+
+/**
+ * Why a history entry was not shown as a deleted item
+ */
+export type RejectionReason = 'outsideWorkspace' | 'stillExists' | 'ignored' | 'moved' | 'noBackupFile' | 'unknownOriginalPath' | 'unsafeEntryId';
+
+/**
+ * A history entry that did not become a deleted item
+ */
+export interface RejectedEntry {
+    /** The history folder the entry was read from */
+    historyFolder: string;
+
+    /** The file the entry belongs to, if it could be determined */
+    originalPath?: string;
+
+    reason: RejectionReason;
+}
+
+/**
+ * A folder deletion recorded just before the folder was deleted
+ */
+export interface DeletedFolderRecord {
+    /** Absolute path of the deleted folder */
+    path: string;
+
+    /** The folder's URI, keeping the scheme and authority of remote folders; absent in older records of local folders */
+    uri?: string;
+
+    /** When the deletion was recorded, in milliseconds since the epoch */
+    deletionTime: number;
+
+    /** Everything the folder contained, relative to the folder */
+    children: FolderSnapshotEntry[];
+}
+
+/**
+ * A file or folder found inside a folder when its deletion was recorded
+ */
+export interface FolderSnapshotEntry {
+    /** Path relative to the deleted folder */
+    relativePath: string;
+
+    isDirectory: boolean;
+}
+
+/**
+ * File system changes collected by the workspace watchers during one debounce window
+ */
+export interface FileChangeBatch {
+    /** Files and folders that were created */
+    created: vscode.Uri[];
+
+    /** Files and folders that were deleted */
+    deleted: vscode.Uri[];
+}
+
+/**
+ * Cached result of parsing one history folder, stored in the scan index
+ */
+export interface IndexedHistoryFolder {
+    /** Modification time (ms) of entries.json when it was parsed */
+    entriesMtime: number;
+
+    /** Parsed entries.json, or null if it could not be read or validated */
+    backupEntry: BackupEntry | null;
+
+    /** Problems found while parsing entries.json or collecting its revisions */
     errors: string[];
-}
\ No newline at end of file
+
+    /** Revisions found in the folder; absent until an item first needed them */
+    revisions?: IndexedRevision[];
+}
+
+/**
+ * A BackupRevision in the JSON form stored in the scan index
+ */
+export interface IndexedRevision {
+    path: string;
+
+    /** Revision time in milliseconds since the epoch */
+    timestamp: number;
+
+    size: number;
+
+    source?: string;
+}
+
+/**
+ * Intermediate progress of a running scan
+ */
+export interface ScanProgress {
+    /** Number of backup directories scanned so far */
+    directoriesScanned: number;
+
+    /** Number of deleted items found so far */
+    itemsFound: number;
+
+    /** Percentage of the scan completed since the previous report */
+    increment: number;
+}
+
+/**
+ * Options for a single scan of the backup locations
+ */
+export interface ScanOptions {
+    /** Stops the scan with a CancellationError when cancellation is requested */
+    token?: vscode.CancellationToken;
+
+    /** Receives progress as directories are scanned and items found */
+    onProgress?: (progress: ScanProgress) => void;
+}
+
+/**
+ * How to handle a restore whose target path is already occupied
+ */
+export type ConflictAction = 'overwrite' | 'skip' | 'keepBoth' | 'compare';
+
+/**
+ * Outcome of restoring a single item
+ */
+export type RestoreOutcome = 'restored' | 'skipped';
+
+/**
+ * Counts of files processed during a restore run; folders created along the way are not counted
+ */
+export interface RestoreSummary {
+    restored: number;
+    skipped: number;
+    failed: number;
+}
+
+/**
+ * Archive formats deleted items can be exported to
+ */
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+/**
+ * A file to be written into an archive
+ */
+export interface ArchiveEntry {
+    /** Slash-separated path inside the archive */
+    path: string;
+
+    content: Uint8Array;
+
+    modifiedTime: Date;
+}
+
+/**
+ * Describes an export, written into the archive next to the exported files
+ */
+export interface ExportManifest {
+    version: number;
+
+    /** ISO timestamp of the export */
+    exportedAt: string;
+
+    items: ExportManifestItem[];
+
+    /** Selected files that could not be exported */
+    skipped: { originalPath: string; reason: string }[];
+}
+
+/**
+ * One exported file in the manifest
+ */
+export interface ExportManifestItem {
+    /** Where the file is in the archive */
+    archivePath: string;
+
+    /** Where the file was before it was deleted */
+    originalPath: string;
+
+    /** The local-history backup the content was taken from */
+    backupPath: string;
+
+    /** ISO timestamp of the deletion */
+    deletionTime: string;
+}
+
+/**
+ * Counts of files processed during an export
+ */
+export interface ExportSummary {
+    exported: number;
+    skipped: number;
+}
+
+/**
+ * Criteria limiting which deleted items the tree shows; unset criteria match everything
+ */
+export interface DeletedItemsFilter {
+    /** Text contained in the relative path, or a glob it must match (case-insensitive) */
+    query?: string;
+
+    /** Only items deleted within this many milliseconds of now */
+    deletedWithinMs?: number;
+
+    /** Only files with one of these extensions, lower case with the leading dot (e.g. ".ts") */
+    fileTypes?: string[];
+}
+
+/**
+ * How the Deleted Items view groups items
+ */
+export type GroupingMode = 'folder' | 'session' | 'flat';
+
+/**
+ * What the view does with items matched by an ignore rule
+ */
+export type IgnoredItemsDisplay = 'hide' | 'group';
+
+/**
+ * Whether the view shows moved and renamed files, marked with their new location, or leaves them out
+ */
+export type MovedItemsDisplay = 'show' | 'hide';
+
+/**
+ * Whether a deleted file is still in the git HEAD commit
+ */
+export type GitTrackingStatus = 'tracked' | 'untracked';
+
+/**
+ * Where a file tracked in git is restored from
+ */
+export type RestoreSource = 'localHistory' | 'gitHead';
+
+/**
+ * The start of a backup file, as shown in an item's tooltip
+ */
+export interface BackupPreview {
+    /** Size of the whole backup file in bytes */
+    size: number;
+
+    /** Whether the backup holds binary data, in which case no lines are read */
+    binary: boolean;
+
+    /** The first lines of the backup, each cut to a readable length */
+    lines: string[];
+
+    /** Whether the backup continues beyond the lines read */
+    truncated: boolean;
+}
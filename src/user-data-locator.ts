@@ -0,0 +1,81 @@
+import * as os from 'os';
+import * as path from 'path';
+import { FileSystemUtils } from './file-system-utils';
+import { ExtensionSettings } from './extension-settings';
+import { DEFAULT_PRODUCT_FOLDER, PRODUCT_FOLDERS, USER_DATA_FOLDERS } from './constants';
+
+/**
+ * Works out which VS Code user-data directories hold local history for the running product
+ */
+export class UserDataLocator {
+    private readonly appName: string;
+    private readonly globalStoragePath: string | undefined;
+
+    /**
+     * @param appName The running product's name, as reported by vscode.env.appName
+     * @param globalStoragePath The extension's globalStorageUri path, which lives inside the active user-data directory
+     */
+    constructor(appName: string, globalStoragePath?: string) {
+        this.appName = appName;
+        this.globalStoragePath = globalStoragePath;
+    }
+
+    /**
+     * Gets every "User" directory to scan: the running instance's, the product's
+     * platform defaults and any configured additional roots, without duplicates
+     */
+    getUserDataDirectories(): string[] {
+        const directories = [
+            ...this.getActiveUserDataDirectory(),
+            ...FileSystemUtils.getDefaultUserDataDirectories(this.getProductFolder()),
+            ...this.getAdditionalUserDataDirectories()
+        ];
+
+        return [...new Set(directories.map(directory => path.normalize(directory)))];
+    }
+
+    /**
+     * Maps the running product's name to its user-data folder name
+     */
+    getProductFolder(): string {
+        return PRODUCT_FOLDERS[this.appName] ?? DEFAULT_PRODUCT_FOLDER;
+    }
+
+    /**
+     * Derives the active "User" directory from <user-data>/User/globalStorage/<extension-id>
+     */
+    private getActiveUserDataDirectory(): string[] {
+        if (!this.globalStoragePath) {
+            return [];
+        }
+
+        const globalStorageDirectory = path.dirname(this.globalStoragePath);
+
+        if (path.basename(globalStorageDirectory) !== USER_DATA_FOLDERS.GLOBAL_STORAGE) {
+            return [];
+        }
+
+        return [path.dirname(globalStorageDirectory)];
+    }
+
+    /**
+     * Reads user-configured roots such as a portable install's data/user-data or a --user-data-dir path
+     */
+    private getAdditionalUserDataDirectories(): string[] {
+        return ExtensionSettings.getAdditionalUserDataDirectories()
+            .map(root => this.resolveUserDirectory(root));
+    }
+
+    /**
+     * Accepts either a user-data directory or its "User" folder, expanding a leading ~
+     */
+    private resolveUserDirectory(root: string): string {
+        const expandedRoot = root.startsWith('~') ? path.join(os.homedir(), root.slice(1)) : root;
+
+        if (path.basename(expandedRoot) === USER_DATA_FOLDERS.USER) {
+            return expandedRoot;
+        }
+
+        return path.join(expandedRoot, USER_DATA_FOLDERS.USER);
+    }
+}
@@ -1,9 +1,35 @@
 // Minimal vscode stub for unit tests (moved from node_modules)
 const fs = require('fs');
 
+function makeUri(components) {
+  const uri = {
+    scheme: components.scheme || 'file',
+    authority: components.authority || '',
+    path: components.path || '',
+    query: components.query || '',
+    fragment: components.fragment || '',
+    get fsPath() { return this.path; },
+    with(change) { return makeUri({ ...this, ...change }); },
+    toString() {
+      const query = this.query ? `?${encodeURIComponent(this.query)}` : '';
+      return `${this.scheme}://${this.authority}${this.path}${query}`;
+    }
+  };
+  return uri;
+}
+
 const Uri = {
-  file: (path) => ({ fsPath: path, toString() { return `file://${path}`; } }),
-  parse: (s) => ({ fsPath: s.replace('file://', '') }),
+  file: (path) => makeUri({ scheme: 'file', path }),
+  parse: (s) => {
+    const match = /^([a-zA-Z][\w+.-]*):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/.exec(s);
+    if (!match) {
+      return makeUri({ scheme: 'file', path: s });
+    }
+    const [, scheme, authority, path, query, fragment] = match;
+    return makeUri({ scheme, authority, path: decodeURIComponent(path), query: query && decodeURIComponent(query), fragment });
+  },
+  from: (components) => makeUri(components),
+  joinPath: (base, ...segments) => base.with({ path: require('path').posix.join(base.path, ...segments) }),
 };
 
 const FileType = {
@@ -13,8 +39,31 @@ const FileType = {
   SymbolicLink: 64,
 };
 
+let configurationListeners = [];
+let willDeleteListeners = [];
+
 const workspace = {
   workspaceFolders: [],
+  // Tests set `workspace.settings['section.key'] = value` to simulate user configuration
+  settings: {},
+  getConfiguration: (section) => ({
+    get: (key, defaultValue) => {
+      const value = workspace.settings[section ? `${section}.${key}` : key];
+      return value === undefined ? defaultValue : value;
+    },
+    update: async (key, value) => {
+      workspace.settings[section ? `${section}.${key}` : key] = value;
+    }
+  }),
+  onDidChangeConfiguration: (listener) => {
+    configurationListeners.push(listener);
+    return { dispose: () => { configurationListeners = configurationListeners.filter(l => l !== listener); } };
+  },
+  // Simulates a configuration change affecting the given `section.key` names
+  fireConfigurationChange: (changedKeys) => {
+    const event = { affectsConfiguration: (name) => changedKeys.some(k => k === name || k.startsWith(`${name}.`)) };
+    configurationListeners.forEach(fn => fn(event));
+  },
   fs: {
     readFile: async (uri) => {
       const p = uri.fsPath || uri;
@@ -27,29 +76,63 @@ const workspace = {
     stat: async (uri) => {
       const p = uri.fsPath || uri;
       const s = await fs.promises.stat(p);
-      return { type: s.isFile() ? FileType.File : s.isDirectory() ? FileType.Directory : FileType.Unknown };
+      return {
+        type: s.isFile() ? FileType.File : s.isDirectory() ? FileType.Directory : FileType.Unknown,
+        ctime: s.ctimeMs,
+        mtime: s.mtimeMs,
+        size: s.size
+      };
     },
     createDirectory: async (uri) => {
       const p = uri.fsPath || uri;
       return fs.promises.mkdir(p, { recursive: true });
     },
+    readDirectory: async (uri) => {
+      const p = uri.fsPath || uri;
+      const entries = await fs.promises.readdir(p, { withFileTypes: true });
+      return entries.map(e => [e.name, e.isDirectory() ? FileType.Directory : FileType.File]);
+    },
+    delete: async (uri, options) => {
+      const p = uri.fsPath || uri;
+      const s = await fs.promises.stat(p);
+      if (s.isDirectory() && !(options && options.recursive)) {
+        return fs.promises.rmdir(p);
+      }
+      return fs.promises.rm(p, { recursive: !!(options && options.recursive) });
+    },
+  },
+  onWillDeleteFiles: (listener) => {
+    willDeleteListeners.push(listener);
+    return { dispose: () => { willDeleteListeners = willDeleteListeners.filter(l => l !== listener); } };
+  },
+  // Simulates VS Code about to delete the given URIs; resolves once every waitUntil promise settles
+  fireWillDeleteFiles: async (files) => {
+    const pending = [];
+    willDeleteListeners.forEach(fn => fn({ files, waitUntil: (promise) => pending.push(promise) }));
+    await Promise.all(pending);
   },
   createFileSystemWatcher: (pattern) => {
-    const listeners = { create: [], delete: [] };
+    const listeners = { create: [], change: [], delete: [] };
     return {
+      pattern,
       onDidCreate: (cb) => { listeners.create.push(cb); return { dispose: () => {} }; },
+      onDidChange: (cb) => { listeners.change.push(cb); return { dispose: () => {} }; },
       onDidDelete: (cb) => { listeners.delete.push(cb); return { dispose: () => {} }; },
       dispose: () => {},
       emitCreate: (uri) => { listeners.create.forEach(fn => fn(uri)); },
+      emitChange: (uri) => { listeners.change.forEach(fn => fn(uri)); },
       emitDelete: (uri) => { listeners.delete.forEach(fn => fn(uri)); }
     };
-  }
+  },
+  findFiles: async (pattern) => []
 };
 
 const window = {
   showInformationMessage: async (msg) => { return undefined; },
   showErrorMessage: async (msg) => { return undefined; },
   showWarningMessage: async (msg) => { return undefined; },
+  showQuickPick: async (items) => { return undefined; },
+  showInputBox: async (options) => { return undefined; },
 };
 
 const commands = {
@@ -73,6 +156,26 @@ class EventEmitter {
   fire(arg) { this._listeners.forEach(fn => fn(arg)); }
 }
 
+class CancellationError extends Error {
+  constructor() { super('Canceled'); this.name = 'Canceled'; }
+}
+
+class CancellationTokenSource {
+  constructor() {
+    this._emitter = new EventEmitter();
+    this.token = {
+      isCancellationRequested: false,
+      onCancellationRequested: this._emitter.event
+    };
+  }
+  cancel() {
+    if (this.token.isCancellationRequested) return;
+    this.token.isCancellationRequested = true;
+    this._emitter.fire();
+  }
+  dispose() {}
+}
+
 class RelativePattern {
   constructor(base, pattern) { this.base = base; this.pattern = pattern; }
 }
@@ -95,15 +198,65 @@ class TreeItem {
   }
 }
 
+const FileChangeType = {
+  Changed: 1,
+  Created: 2,
+  Deleted: 3
+};
+
+const FilePermission = {
+  Readonly: 1
+};
+
+class FileSystemError extends Error {
+  constructor(message, code) { super(message); this.code = code; }
+}
+['FileNotFound', 'FileExists', 'FileNotADirectory', 'FileIsADirectory', 'NoPermissions', 'Unavailable'].forEach(code => {
+  FileSystemError[code] = (target) => new FileSystemError(`${code}: ${target ?? ''}`, code);
+});
+
+class MarkdownString {
+  constructor(value = '') { this.value = value; }
+  appendText(value) {
+    this.value += value.replace(/[\\`*_{}[\]()#+\-!~]/g, '\\$&');
+    return this;
+  }
+  appendMarkdown(value) {
+    this.value += value;
+    return this;
+  }
+  appendCodeblock(value, language = '') {
+    this.value += '\n```' + language + '\n' + value + '\n```\n';
+    return this;
+  }
+}
+
+const env = {
+  appName: 'Visual Studio Code',
+};
+
+// Tests stub getExtension to provide extensions such as the built-in git extension
+const extensions = {
+  getExtension: (id) => undefined,
+};
+
 module.exports = {
   Uri,
+  env,
+  extensions,
   workspace,
   window,
   commands,
   ThemeIcon,
   FileType,
   EventEmitter,
+  CancellationError,
+  CancellationTokenSource,
   RelativePattern,
   TreeItem,
-  TreeItemCollapsibleState
+  TreeItemCollapsibleState,
+  MarkdownString,
+  FileChangeType,
+  FilePermission,
+  FileSystemError
 };